@@ -0,0 +1,248 @@
+/**
+ * Command line argument module.
+ *
+ * Values of a configuration can be overridden with command line options, like
+ * **--db.port=5432**, that are derived from the elements of the configuration, so a command
+ * line interface does not have to define every option by hand.
+ */
+import { convertStringValue } from "./convert";
+import {
+	ArrayElement,
+	BooleanElement,
+	ConfigElement,
+	NumberElement,
+	ObjectElement,
+	PrimitiveElement,
+	StringElement
+} from "./elements";
+import { ROOT_PATH, childPath } from "./path";
+import { SourceDocument } from "./reader";
+import { getOwnValue, hasOwnKey, setProperty } from "./value";
+
+/**
+ * The result of {@link parseArguments()}.
+ */
+export interface ParsedArguments {
+	/**
+	 * The overrides of the options, as a document to merge over the configuration with
+	 * {@link mergeDocuments()}. The value is **undefined** in case no option is given.
+	 */
+	overrides: SourceDocument;
+
+	/**
+	 * The **--help** or **-h** option is given. The other arguments are not parsed in that
+	 * case.
+	 */
+	help: boolean;
+}
+
+/**
+ * An option of a command line, derived from an element.
+ */
+interface ArgumentOption {
+	keys: string[];
+	element: ConfigElement;
+	secret: boolean;
+}
+
+const HELP_OPTIONS: string[] = ["--help", "-h"];
+
+/**
+ * Parse command line arguments into overrides of a configuration.
+ *
+ * Every element below the root object that is reachable through objects, and that is not an
+ * object itself, has an option with the keys of its path joined with dots, like **--db.port**.
+ * The value of an option follows after an equals sign, or in the next argument:
+ *
+ * - A **BooleanElement** option without a value is **true**, and **--no-** before the name of
+ *   the option, like **--no-verbose**, is **false**. A value is **true** or **false** in any
+ *   case, and only follows after an equals sign.
+ * - A **NumberElement** option converts its value to a decimal number.
+ * - An **ArrayElement** option can be repeated, like **--tag a --tag b**, and every value is
+ *   an element of the array. A value is converted to a number or a boolean in case the array
+ *   allows such elements.
+ * - Any other option has a string value. The last value of a repeated option is used.
+ *
+ * Values that cannot be converted are kept as string, so the validation rejects them with the
+ * option as source. All arguments after **--** are ignored. The **argv** parser option merges
+ * the overrides over the configuration before it is validated, and rejects the help options,
+ * so the help must be checked with this function first.
+ *
+ * Errors name the option, or the position of an argument that is not an option, but never a
+ * value, which can be a secret.
+ *
+ * @param argv The arguments, without the executable and script, like
+ *             **process.argv.slice(2)**.
+ * @param root The root element of the configuration.
+ * @returns The overrides, and whether help is requested.
+ * @throws ConfigArgumentError: An option is unknown, or does not have a value, or an argument
+ *         is not an option.
+ */
+export function parseArguments(argv: string[], root: ObjectElement): ParsedArguments {
+	const overrides: SourceDocument = {
+		value: undefined,
+		positions: new Map(),
+		keyPositions: new Map(),
+		sources: new Map()
+	};
+
+	const end: number = argv.includes("--") ? argv.indexOf("--") : argv.length;
+	const args: string[] = argv.slice(0, end);
+	if (args.some(arg => HELP_OPTIONS.includes(arg))) return {overrides, help: true};
+
+	const options: Map<string, ArgumentOption> = new Map(
+		getOptions(root, []).map(option => [option.keys.join("."), option])
+	);
+
+	for (let i = 0; i < args.length; i++) {
+		const arg: string = args[i];
+		if (!arg.startsWith("--"))
+			throw new ConfigArgumentError("Unexpected argument", `argument ${i + 1}`);
+
+		const equals: number = arg.indexOf("=");
+		const name: string = arg.substring(2, equals >= 0 ? equals : undefined);
+		let text: string = equals >= 0 ? arg.substring(equals + 1) : undefined;
+
+		let option: ArgumentOption = options.get(name);
+		if (!option && name.startsWith("no-") && text === undefined) {
+			option = options.get(name.substring(3));
+			if (option?.element instanceof BooleanElement) text = "false";
+			else option = undefined;
+		}
+		if (!option) throw new ConfigArgumentError("Unknown option", `--${name}`);
+
+		if (text === undefined && option.element instanceof BooleanElement) text = "true";
+		if (text === undefined) {
+			if (i + 1 >= args.length || args[i + 1].startsWith("--"))
+				throw new ConfigArgumentError("Option needs a value", `--${name}`);
+			text = args[++i];
+		}
+
+		setOption(overrides, option, text, `--${name.replace(/^no-/, "")}`);
+	}
+
+	return {overrides, help: false};
+}
+
+/**
+ * Format the help text of the command line options of a configuration, with every option on a
+ * line with its value type, and the valid values, range and default value of its element. The
+ * default value of a sensitive element is not shown.
+ *
+ * @param root The root element of the configuration.
+ * @returns The help text.
+ */
+export function formatArgumentsHelp(root: ObjectElement): string {
+	const options: ArgumentOption[] = getOptions(root, [], root.isSensitive());
+	const lines: [string, string][] = options.map(option => [
+		`--${formatOptionName(option)}`,
+		describeOption(option)
+	]);
+	lines.push(["-h, --help", "Show this help"]);
+
+	const width: number = Math.max(...lines.map(([usage]) => usage.length));
+	return ["Options:", ...lines.map(([usage, description]) =>
+		`  ${usage.padEnd(width)}  ${description}`.trimEnd()
+	)].join("\n") + "\n";
+}
+
+function getOptions(
+	ce: ObjectElement, keys: string[], secret: boolean = false
+): ArgumentOption[] {
+	return ce.getChildFieldNames().flatMap(key => {
+		const childCe: ConfigElement = ce.getChild(key);
+		const childKeys: string[] = [...keys, key];
+		const childSecret: boolean = secret || childCe.isSensitive();
+		if (childCe instanceof ObjectElement)
+			return getOptions(childCe, childKeys, childSecret);
+		return [{keys: childKeys, element: childCe, secret: childSecret}];
+	});
+}
+
+function setOption(
+	document: SourceDocument, option: ArgumentOption, text: string, flag: string
+) {
+	if (document.value === undefined) document.value = {};
+
+	let object = document.value as Record<string, unknown>;
+	let path: string = ROOT_PATH;
+	option.keys.forEach((key, i) => {
+		path = childPath(path, key);
+		if (i === option.keys.length - 1) return;
+
+		if (!hasOwnKey(object, key)) setProperty(object, key, {});
+		object = object[key] as Record<string, unknown>;
+	});
+
+	const key: string = option.keys[option.keys.length - 1];
+	const ce: ConfigElement = option.element;
+	if (ce instanceof ArrayElement) {
+		const array: unknown[] = (getOwnValue(object, key) ?? []) as unknown[];
+		array.push(convertItem(text, ce, array.length));
+		setProperty(object, key, array);
+	}
+	else {
+		setProperty(object, key, convertStringValue(text, ce));
+	}
+
+	document.sources.set(path, `argument ${flag}`);
+}
+
+/**
+ * Convert the value of an array option to the type of the element of the array.
+ */
+function convertItem(text: string, ce: ArrayElement, index: number): unknown {
+	if (ce.getOrderedElements().length > 0)
+		return convertStringValue(text, ce.getOrderedElements()[index]);
+
+	for (const type of ["number", "boolean"] as const) {
+		const value: unknown = convertStringValue(text, ce.getElementConfig(type));
+		if (value !== text) return value;
+	}
+	return text;
+}
+
+function formatOptionName(option: ArgumentOption): string {
+	const name: string = option.keys.join(".");
+	const ce: ConfigElement = option.element;
+
+	if (ce instanceof BooleanElement) return `[no-]${name}`;
+	if (ce instanceof NumberElement) return `${name} <number>`;
+	if (ce instanceof StringElement) return `${name} <string>`;
+	if (ce instanceof ArrayElement) return `${name} <value>...`;
+	return `${name} <value>`;
+}
+
+function describeOption(option: ArgumentOption): string {
+	const ce: ConfigElement = option.element;
+	const details: string[] = [];
+
+	if (ce instanceof StringElement && ce.getValidValues().length > 0)
+		details.push(`one of ${ce.getValidValues().join(", ")}`);
+	if (ce instanceof NumberElement) {
+		if (ce.getMinValue() !== undefined) details.push(`minimum ${ce.getMinValue()}`);
+		if (ce.getMaxValue() !== undefined) details.push(`maximum ${ce.getMaxValue()}`);
+	}
+	if (ce instanceof ArrayElement) details.push("repeatable");
+	if (ce instanceof PrimitiveElement && ce.getDefaultValue() !== undefined &&
+		!option.secret)
+		details.push(`default ${String(ce.getDefaultValue())}`);
+
+	if (details.length === 0) return "";
+	return details[0][0].toUpperCase() + details.join(", ").substring(1);
+}
+
+/**
+ * Error thrown in case command line arguments cannot be parsed.
+ */
+export class ConfigArgumentError extends Error {
+	public readonly code: string = "ARGUMENT_ERROR";
+	public readonly detail: string;
+	public readonly argument: string;
+
+	constructor(detail: string, argument: string) {
+		super(`${argument}: ${detail}`);
+		this.detail = detail;
+		this.argument = argument;
+	}
+}
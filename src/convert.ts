@@ -0,0 +1,107 @@
+/**
+ * Value conversion module.
+ *
+ * Some sources of configuration only have string values, like INI and .properties files. This
+ * module converts these strings to the type of the element that validates them.
+ */
+import {
+	ArrayElement,
+	BooleanElement,
+	ConfigElement,
+	NumberElement,
+	StringElement
+} from "./elements";
+
+/**
+ * Decimal numbers that strings are converted to.
+ */
+const NUMBER_REGEX: RegExp = /^[+-]?(?:[0-9]+\.?[0-9]*|\.[0-9]+)(?:[eE][+-]?[0-9]+)?$/;
+
+/**
+ * Convert a string to the type of its element: a decimal number for a NumberElement, and
+ * **true** or **false** in any case for a BooleanElement. Other values, and strings that cannot
+ * be converted, are returned as is, so the validation can reject them.
+ *
+ * @param value The value to convert.
+ * @param element The element of the value.
+ * @returns The converted value.
+ */
+export function convertStringValue(value: unknown, element: ConfigElement): unknown {
+	if (typeof value !== "string") return value;
+
+	if (element instanceof NumberElement && NUMBER_REGEX.test(value))
+		return Number(value);
+
+	if (element instanceof BooleanElement) {
+		const lowerCase: string = value.toLowerCase();
+		if (lowerCase === "true") return true;
+		if (lowerCase === "false") return false;
+	}
+
+	return value;
+}
+
+/**
+ * Coerce a string to the type of its element, for the **coerceTypes** parser option: a decimal
+ * number for a NumberElement, **true** or **false** in any case, **1** or **0** for a
+ * BooleanElement, and a comma separated list for an ArrayElement of only primitive elements.
+ * The elements of a list are trimmed and coerced to the type of their element, see
+ * {@link coerceArrayItem()}, and an empty string is an empty array. Other values, and strings
+ * that cannot be coerced, are returned as is.
+ *
+ * @param value The value to coerce.
+ * @param element The element of the value.
+ * @returns The coerced value.
+ */
+export function coerceValue(value: unknown, element: ConfigElement): unknown {
+	if (typeof value !== "string") return value;
+
+	if (element instanceof BooleanElement) {
+		if (value === "1") return true;
+		if (value === "0") return false;
+	}
+
+	if (element instanceof ArrayElement && hasOnlyPrimitiveElements(element)) {
+		if (value === "") return [];
+		return value.split(",").map((item: string, i: number) =>
+			coerceArrayItem(item.trim(), element, i)
+		);
+	}
+
+	return convertStringValue(value, element);
+}
+
+/**
+ * Coerce a string in an array to the type of its element: the ordered element at its index, or
+ * else the first of a number and a boolean element that the array allows and that the string
+ * can be coerced to. A string is kept as is in case the array allows strings.
+ *
+ * @param value The string to coerce.
+ * @param element The element of the array.
+ * @param index The index of the string in the array.
+ * @returns The coerced value.
+ */
+export function coerceArrayItem(value: string, element: ArrayElement, index: number): unknown {
+	if (element.getOrderedElements().length > 0)
+		return coerceValue(value, element.getOrderedElements()[index]);
+
+	for (const type of ["number", "boolean"] as const) {
+		if (!element.isValidElementType(type)) continue;
+
+		const coerced: unknown = coerceValue(value, element.getElementConfig(type));
+		if (coerced !== value) return coerced;
+	}
+	return value;
+}
+
+function hasOnlyPrimitiveElements(element: ArrayElement): boolean {
+	if (element.getOrderedElements().length > 0) {
+		return element.getOrderedElements().every(ce =>
+			ce instanceof StringElement || ce instanceof NumberElement ||
+			ce instanceof BooleanElement
+		);
+	}
+
+	return !element.allowAnyElement() &&
+		!element.isValidElementType("object") && !element.isValidElementType("array");
+}
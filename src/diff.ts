@@ -0,0 +1,263 @@
+/**
+ * Configuration diff module.
+ *
+ * Before a changed configuration is deployed, it helps to see what exactly changes. This module
+ * compares two parsed configurations, following the elements of the configuration, so arrays
+ * of objects with a key are compared by key, secret values are masked, and changes that only
+ * take effect after a restart are flagged.
+ */
+import { isDeepStrictEqual } from "node:util";
+
+import { ArrayElement, ConfigElement, ObjectElement } from "./elements";
+import { ROOT_PATH, childPath, indexPath } from "./path";
+import { SECRET_MASK, redactSecrets } from "./secret";
+import { getOwnValue, isObject } from "./value";
+
+/**
+ * Kind of a {@link ConfigChange}.
+ */
+export type ConfigChangeKind = "added" | "removed" | "changed";
+
+/**
+ * A value that differs between two configurations.
+ */
+export interface ConfigChange {
+	/**
+	 * The value is only in the new configuration, only in the old configuration, or in both
+	 * with another value.
+	 */
+	kind: ConfigChangeKind;
+
+	/**
+	 * JSON path of the value, with the index of the new configuration for elements of arrays,
+	 * or of the old configuration in case the element is removed.
+	 */
+	path: string;
+
+	/**
+	 * The old value, with secret values masked. Absent for an added value.
+	 */
+	oldValue?: unknown;
+
+	/**
+	 * The new value, with secret values masked. Absent for a removed value.
+	 */
+	newValue?: unknown;
+
+	/**
+	 * The change requires a restart, see {@link ConfigElement.isRestartRequired()}.
+	 */
+	restartRequired: boolean;
+}
+
+/**
+ * The result of {@link diffConfigs()}.
+ */
+export interface ConfigDiff {
+	/**
+	 * All values that differ, in the order of the configurations.
+	 */
+	changes: ConfigChange[];
+
+	/**
+	 * Any of the changes requires a restart.
+	 */
+	restartRequired: boolean;
+}
+
+/**
+ * Output format of {@link formatDiff()}.
+ */
+export type DiffFormat = "text" | "json";
+
+/**
+ * Compare two configurations, following the elements of the configuration.
+ *
+ * - Objects are compared key by key. Keys that are only in one of the objects are added or
+ *   removed, including all values below them.
+ * - Arrays of an **ArrayElement** with the **mergeByKey** merge strategy, see
+ *   {@link ArrayElement.setMergeStrategy()}, are compared by key, so an object that moves in
+ *   the array is not a change. Objects without the key are added or removed. All other
+ *   arrays are compared index by index.
+ * - Any other value that differs is changed, and reported as a whole.
+ *
+ * Values of sensitive elements are masked with {@link SECRET_MASK}, and a change of a
+ * sensitive value is reported as a whole, without the values below it. A change requires a
+ * restart in case the element of the value, or of any value above it, requires a restart, or
+ * in case an added or removed value has a value below it of which the element requires a
+ * restart.
+ *
+ * @param oldValue The old configuration.
+ * @param newValue The new configuration.
+ * @param element The root element of the configuration.
+ * @returns The changes between the configurations.
+ */
+export function diffConfigs(
+	oldValue: unknown, newValue: unknown, element: ConfigElement
+): ConfigDiff {
+	const changes: ConfigChange[] = [];
+	diffValues(changes, ROOT_PATH, element, oldValue, newValue, false);
+	return {changes, restartRequired: changes.some(change => change.restartRequired)};
+}
+
+/**
+ * Format the changes between two configurations, see {@link diffConfigs()}.
+ *
+ * The **text** format has a line for every change, with **+** for an added value, **-** for a
+ * removed value and **~** for a changed value, like **~ $.db.port: 5432 -> 5433 (restart
+ * required)**. Values are formatted as JSON. The **json** format is the diff itself as JSON.
+ *
+ * @param diff The changes.
+ * @param format The output format. Default is **text**.
+ * @returns The formatted changes.
+ */
+export function formatDiff(diff: ConfigDiff, format: DiffFormat = "text"): string {
+	if (format === "json") return JSON.stringify(diff, null, 2) + "\n";
+	if (diff.changes.length === 0) return "No changes\n";
+
+	const lines: string[] = diff.changes.map(change => {
+		const restart: string = change.restartRequired ? " (restart required)" : "";
+		const oldText: string = JSON.stringify(change.oldValue);
+		const newText: string = JSON.stringify(change.newValue);
+
+		if (change.kind === "added") return `+ ${change.path}: ${newText}${restart}`;
+		if (change.kind === "removed") return `- ${change.path}: ${oldText}${restart}`;
+		return `~ ${change.path}: ${oldText} -> ${newText}${restart}`;
+	});
+	if (diff.restartRequired) lines.push("Restart required");
+	return lines.join("\n") + "\n";
+}
+
+function diffValues(
+	changes: ConfigChange[], path: string, ce: ConfigElement,
+	oldValue: unknown, newValue: unknown, restart: boolean
+) {
+	if (isDeepStrictEqual(oldValue, newValue)) return;
+
+	restart = restart || !!ce?.isRestartRequired();
+	const secret: boolean = !!ce?.isSensitive();
+	const mask = (value: unknown): unknown =>
+		secret ? SECRET_MASK : redactSecrets(value, ce);
+
+	if (oldValue === undefined) {
+		changes.push({
+			kind: "added",
+			path,
+			newValue: mask(newValue),
+			restartRequired: restart || hasRestartRequired(newValue, ce)
+		});
+		return;
+	}
+
+	if (newValue === undefined) {
+		changes.push({
+			kind: "removed",
+			path,
+			oldValue: mask(oldValue),
+			restartRequired: restart || hasRestartRequired(oldValue, ce)
+		});
+		return;
+	}
+
+	if (!secret && isObject(oldValue) && isObject(newValue)) {
+		diffObjects(changes, path, ce, oldValue as object, newValue as object, restart);
+		return;
+	}
+
+	if (!secret && Array.isArray(oldValue) && Array.isArray(newValue)) {
+		const arrayCe: ArrayElement = ce instanceof ArrayElement ? ce : undefined;
+		if (arrayCe?.getMergeStrategy() === "mergeByKey")
+			diffKeyedArrays(changes, path, arrayCe, oldValue, newValue, restart);
+		else
+			diffArrays(changes, path, arrayCe, oldValue, newValue, restart);
+		return;
+	}
+
+	changes.push({
+		kind: "changed",
+		path,
+		oldValue: mask(oldValue),
+		newValue: mask(newValue),
+		restartRequired: restart
+	});
+}
+
+function diffObjects(
+	changes: ConfigChange[], path: string, ce: ConfigElement,
+	oldObject: object, newObject: object, restart: boolean
+) {
+	const keys: Set<string> = new Set([...Object.keys(oldObject), ...Object.keys(newObject)]);
+	for (const key of keys) {
+		const childCe: ConfigElement =
+			ce instanceof ObjectElement ? ce.getChild(key) : undefined;
+		diffValues(
+			changes, childPath(path, key), childCe,
+			getOwnValue(oldObject, key), getOwnValue(newObject, key), restart
+		);
+	}
+}
+
+function diffArrays(
+	changes: ConfigChange[], path: string, ce: ArrayElement,
+	oldArray: unknown[], newArray: unknown[], restart: boolean
+) {
+	for (let i = 0; i < Math.max(oldArray.length, newArray.length); i++) {
+		const item: unknown = i < newArray.length ? newArray[i] : oldArray[i];
+		diffValues(
+			changes, indexPath(path, i), ce?.getItemElement(item, i),
+			oldArray[i], newArray[i], restart
+		);
+	}
+}
+
+function diffKeyedArrays(
+	changes: ConfigChange[], path: string, ce: ArrayElement,
+	oldArray: unknown[], newArray: unknown[], restart: boolean
+) {
+	const key: string = ce.getMergeKey();
+	const matched: Set<number> = new Set();
+
+	newArray.forEach((item: unknown, i: number) => {
+		const id: unknown = getKeyValue(item, key);
+		const oldIndex: number = id === undefined ? -1 :
+			oldArray.findIndex(other => getKeyValue(other, key) === id);
+		if (oldIndex >= 0) matched.add(oldIndex);
+
+		diffValues(
+			changes, indexPath(path, i), ce.getItemElement(item, i),
+			oldIndex >= 0 ? oldArray[oldIndex] : undefined, item, restart
+		);
+	});
+
+	oldArray.forEach((item: unknown, i: number) => {
+		if (matched.has(i)) return;
+		diffValues(
+			changes, indexPath(path, i), ce.getItemElement(item, i),
+			item, undefined, restart
+		);
+	});
+}
+
+/**
+ * Check whether the element of a value, or of any value below it, requires a restart.
+ */
+function hasRestartRequired(value: unknown, ce: ConfigElement): boolean {
+	if (!ce) return false;
+	if (ce.isRestartRequired()) return true;
+
+	if (ce instanceof ObjectElement && isObject(value)) {
+		return Object.keys(value).some(key =>
+			hasRestartRequired(getOwnValue(value as object, key), ce.getChild(key))
+		);
+	}
+	if (ce instanceof ArrayElement && Array.isArray(value)) {
+		return value.some((item: unknown, i: number) =>
+			hasRestartRequired(item, ce.getItemElement(item, i))
+		);
+	}
+	return false;
+}
+
+function getKeyValue(item: unknown, key: string): unknown {
+	return isObject(item) ? getOwnValue(item as object, key) : undefined;
+}
@@ -6,6 +6,20 @@ export type JSONType = string | number | boolean | object;
 
 type PrimitiveJSONType = string | number | boolean;
 
+/**
+ * Strategies to merge an array with the array of a configuration layer below it, see
+ * {@link ArrayElement.setMergeStrategy()}.
+ */
+export type ArrayMergeStrategy = "replace" | "append" | "mergeByKey";
+
+/**
+ * Function that migrates a configuration from one version to the next, see
+ * {@link ObjectElement.addMigration()}. The function returns the migrated configuration, or
+ * changes the configuration in place and returns nothing.
+ */
+export type ConfigMigration =
+	(config: Record<string, unknown>) => Record<string, unknown> | void;
+
 /**
  * Interface that describes the form of the custom validators that can be added to
  * a ConfigElement.
@@ -25,6 +39,9 @@ export abstract class ConfigElement {
 	private name: string;
 	private _isRequired: boolean = true;
 	private _canBeNull: boolean = false;
+	private _isSensitive: boolean = false;
+	private _isRestartRequired: boolean = false;
+	private environmentVariable: string;
 
 	private validators: ElementValidator<JSONType>[] = [];
 
@@ -66,6 +83,46 @@ export abstract class ConfigElement {
 		this._canBeNull = canBeNull;
 	}
 
+	/**
+	 * Flag that indicates the value of this specific element, and all values below it, are
+	 * secret, like passwords. Secret values are masked in error messages and in the output of
+	 * {@link redactSecrets()}. The default value for this flag is **false**.
+	 * 
+	 * @returns **true** if the value is secret, else **false**.
+	 */
+	public isSensitive(): boolean {
+		return this._isSensitive;
+	}
+
+	/**
+	 * Update the flag that indicates the value of an element is secret.
+	 * 
+	 * @param isSensitive New **isSensitive** flag value.
+	 */
+	public setSensitive(isSensitive: boolean): void {
+		this._isSensitive = isSensitive;
+	}
+
+	/**
+	 * Flag that indicates a change of the value of this specific element, or of any value below
+	 * it, only takes effect after a restart of the application, like the port of a server. A
+	 * {@link diffConfigs()} flags these changes. The default value for this flag is **false**.
+	 * 
+	 * @returns **true** if a change requires a restart, else **false**.
+	 */
+	public isRestartRequired(): boolean {
+		return this._isRestartRequired;
+	}
+
+	/**
+	 * Update the flag that indicates a change of the value of an element requires a restart.
+	 * 
+	 * @param isRestartRequired New **isRestartRequired** flag value.
+	 */
+	public setRestartRequired(isRestartRequired: boolean): void {
+		this._isRestartRequired = isRestartRequired;
+	}
+
 	/**
 	 * Set the name or key of the element. As an example, take the following small JSON:
 	 * 
@@ -92,6 +149,25 @@ export abstract class ConfigElement {
 		return this.name;
 	}
 
+	/**
+	 * Set the name of the environment variable that overrides the value of the element, see
+	 * the **env** option of the {@link ConfigParser}.
+	 * 
+	 * @param name Name of the environment variable.
+	 */
+	public setEnvironmentVariable(name: string): void {
+		this.environmentVariable = name;
+	}
+
+	/**
+	 * Get the name of the environment variable that overrides the value of the element.
+	 * 
+	 * @returns Name of the environment variable, or **undefined** if none is set.
+	 */
+	public getEnvironmentVariable(): string {
+		return this.environmentVariable;
+	}
+
 	/**
 	 * Add ElementValidator instances that do custom validations on an element.
 	 * 
@@ -149,6 +225,10 @@ export abstract class ConfigElement {
  */
 export class ObjectElement extends ConfigElement {
 	private children: Map<string, ConfigElement> = new Map();
+	private strict: boolean;
+	private versionKey: string;
+	private version: number;
+	private migrations: Map<number, ConfigMigration> = new Map();
 
 	/**
 	 * Set the map of child elements of this object element.
@@ -212,6 +292,88 @@ export class ObjectElement extends ConfigElement {
 		return this.getChildFieldNames().filter(c => this.children.get(c).isRequired());
 	}
 
+	/**
+	 * Report unknown fields of this object, and of the objects below it that do not set their
+	 * own strictness, as errors instead of warnings. This overrides the **strict** parser
+	 * option.
+	 * 
+	 * @param strict **true** to reject unknown fields, **false** to only warn about them.
+	 */
+	public setStrict(strict: boolean): void {
+		this.strict = strict;
+	}
+
+	/**
+	 * Get whether unknown fields of this object are errors.
+	 * 
+	 * @returns **true** or **false** if set on the element, or **undefined** in case the
+	 *          strictness of the parent object or the **strict** parser option applies.
+	 */
+	public getStrict(): boolean {
+		return this.strict;
+	}
+
+	/**
+	 * Set the key of the version of the configuration, and the version that this element
+	 * describes. Only the version of a root element is used. The parser migrates a
+	 * configuration with an older version, or without the key, which has version 1, to this
+	 * version before it is validated, see {@link addMigration()}.
+	 * 
+	 * @param key The key of the version, like **version**.
+	 * @param version The current version, a positive integer.
+	 * @throws InvalidConfigurationElementError: The version is not a positive integer.
+	 */
+	public setVersion(key: string, version: number): void {
+		if (!Number.isInteger(version) || version < 1) {
+			throw new InvalidConfigurationElementError(
+				`Version ${version} is not a positive integer`
+			);
+		}
+
+		this.versionKey = key;
+		this.version = version;
+	}
+
+	/**
+	 * Get the key of the version of the configuration.
+	 * 
+	 * @returns The key, or **undefined** in case the configuration does not have a version.
+	 */
+	public getVersionKey(): string {
+		return this.versionKey;
+	}
+
+	/**
+	 * Get the version of the configuration that this element describes.
+	 * 
+	 * @returns The version, or **undefined** in case the configuration does not have a version.
+	 */
+	public getVersion(): number {
+		return this.version;
+	}
+
+	/**
+	 * Add the migration of a configuration from a version to the next version. The parser
+	 * runs the migrations of all versions from the version of a configuration up to the
+	 * current version in order.
+	 * 
+	 * @param fromVersion The version that the migration migrates from.
+	 * @param migration The function that migrates the configuration.
+	 */
+	public addMigration(fromVersion: number, migration: ConfigMigration): void {
+		this.migrations.set(fromVersion, migration);
+	}
+
+	/**
+	 * Get the migration of a configuration from a version to the next version.
+	 * 
+	 * @param fromVersion The version that the migration migrates from.
+	 * @returns The migration, or **undefined** in case there is none.
+	 */
+	public getMigration(fromVersion: number): ConfigMigration {
+		return this.migrations.get(fromVersion);
+	}
+
 	/**
 	 * Add ElementValidator instances that do custom validations on an element.
 	 * 
@@ -262,6 +424,9 @@ export class ArrayElement extends ConfigElement {
 
 	private orderedElements: ConfigElement[] = [];
 
+	private mergeStrategy: ArrayMergeStrategy = "replace";
+	private mergeKey: string;
+
 	/**
 	 * Allow NumberElement as array elements.
 	 * 
@@ -369,6 +534,56 @@ export class ArrayElement extends ConfigElement {
 		return this.orderedElements;
 	}
 
+	/**
+	 * Set how the array is merged with the array of a configuration layer below it, like an
+	 * earlier source of a ConfigLoader or a file that is extended with **$extends**. The
+	 * following strategies are supported:
+	 * 
+	 * - **replace**: The array replaces the array below it. This is the default.
+	 * - **append**: The elements of the array are appended to the array below it.
+	 * - **mergeByKey**: Object elements are merged with the object element of the array below
+	 *   it that has the same value for the key, and all other elements are appended.
+	 * 
+	 * @param strategy The merge strategy.
+	 * @param key The key that identifies object elements, only for the **mergeByKey**
+	 *            strategy.
+	 * @throws InvalidConfigurationElementError: The key is missing for the **mergeByKey**
+	 *         strategy, or given for another strategy.
+	 */
+	public setMergeStrategy(strategy: ArrayMergeStrategy, key?: string) {
+		if (strategy === "mergeByKey" && key === undefined) {
+			throw new InvalidConfigurationElementError(
+				"Merge strategy mergeByKey needs a key"
+			);
+		}
+		if (strategy !== "mergeByKey" && key !== undefined) {
+			throw new InvalidConfigurationElementError(
+				`Merge strategy ${strategy} does not have a key`
+			);
+		}
+
+		this.mergeStrategy = strategy;
+		this.mergeKey = key;
+	}
+
+	/**
+	 * Get the strategy to merge the array with the array of a configuration layer below it.
+	 * 
+	 * @returns The merge strategy, **replace** if none is set.
+	 */
+	public getMergeStrategy(): ArrayMergeStrategy {
+		return this.mergeStrategy;
+	}
+
+	/**
+	 * Get the key that identifies object elements for the **mergeByKey** merge strategy.
+	 * 
+	 * @returns The key, or **undefined** for the other merge strategies.
+	 */
+	public getMergeKey(): string {
+		return this.mergeKey;
+	}
+
 	/**
 	 * Validate that the passed element is indeed a valid array element. An element is
 	 * considered an array if the type of the element is **object** and the element is an array.
@@ -428,6 +643,23 @@ export class ArrayElement extends ConfigElement {
 	public getElementConfig(elemType: ConfigElementType): ConfigElement {
 		return this.elements.get(elemType);
 	}
+
+	/**
+	 * Get the ConfigElement of an element of the array, which is the ordered element at the
+	 * index of the array element, or else the ConfigElement of the type of the array element.
+	 * 
+	 * @param item The array element.
+	 * @param index The index of the array element.
+	 * @returns The ConfigElement, or **undefined** if the array element is not allowed or
+	 *          **null**.
+	 */
+	public getItemElement(item: unknown, index: number): ConfigElement {
+		if (this.orderedElements.length > 0) return this.orderedElements[index];
+		if (item === null) return undefined;
+
+		const elemType = Array.isArray(item) ? "array" : typeof item as ConfigElementType;
+		return this.elements.get(elemType);
+	}
 }
 
 /**
@@ -502,6 +734,7 @@ export class BooleanElement extends PrimitiveElement {
 export class NumberElement extends PrimitiveElement {
 	private minValue: number;
 	private maxValue: number;
+	private allowNonFinite: boolean = false;
 
 	/**
 	 * Set the minimum value that the number element should have.
@@ -539,6 +772,25 @@ export class NumberElement extends PrimitiveElement {
 		return this.maxValue;
 	}
 
+	/**
+	 * Set the flag that indicates that the non-finite numbers **Infinity**, **-Infinity** and
+	 * **NaN** are allowed to **true**.
+	 */
+	public setAllowNonFiniteValues() {
+		this.allowNonFinite = true;
+	}
+
+	/**
+	 * Flag that indicates that non-finite numbers are allowed. Formats like JSON5 can express
+	 * **Infinity** and **NaN**. The default value for this flag is **false**. The
+	 * {@link setAllowNonFiniteValues()} method can be used to set this flag to **true**.
+	 * 
+	 * @returns **true** if non-finite numbers are allowed, else **false**
+	 */
+	public allowNonFiniteValues(): boolean {
+		return this.allowNonFinite;
+	}
+
 	/**
 	 * Add ElementValidator instances that do custom validations on an element.
 	 * 
@@ -575,6 +827,8 @@ export class StringElement extends PrimitiveElement {
 
 	private validValues: string[] = [];
 
+	private interpolation: boolean;
+
 	/**
 	 * Set the minimum length the string element should have.
 	 * 
@@ -629,6 +883,27 @@ export class StringElement extends PrimitiveElement {
 		return [...this.validValues];
 	}
 
+	/**
+	 * Turn the interpolation of references, like **${env:HOME}**, in values of this string
+	 * configuration element on or off. This overrides the **interpolate** parser option.
+	 * 
+	 * @param interpolation **true** to replace references before validation, **false** to
+	 *                      keep values as is.
+	 */
+	public setInterpolation(interpolation: boolean): void {
+		this.interpolation = interpolation;
+	}
+
+	/**
+	 * Get whether references in values of this string configuration element are interpolated.
+	 * 
+	 * @returns **true** or **false** if set on the element, or **undefined** in case the
+	 *          **interpolate** parser option applies.
+	 */
+	public getInterpolation(): boolean {
+		return this.interpolation;
+	}
+
 	/**
 	 * Add ElementValidator instances that do custom validations on an element.
 	 * 
@@ -678,6 +953,105 @@ function isPrimitive(elementType: ElementType) {
 	);
 }
 
+/**
+ * Type-only information about a ConfigElement that the {@link ConfigElementBuilder} collects
+ * while it is building the element. It is used by {@link Infer} to determine the type of the
+ * parsed configuration, and does not exist at runtime.
+ */
+export interface SchemaInfo {
+	name?: string;
+	optional?: true;
+	nullable?: true;
+	defaulted?: true;
+	values?: string;
+	children?: ConfigElement[];
+	items?: ConfigElement;
+	nullItems?: true;
+	ordered?: ConfigElement[];
+}
+
+/**
+ * A ConfigElement with its {@link SchemaInfo}, as returned by
+ * {@link ConfigElementBuilder.build()}.
+ */
+export type TypedElement<E extends ConfigElement, I> = E & {readonly __schema?: I};
+
+type InfoOf<E> = E extends {readonly __schema?: infer I} ? Exclude<I, undefined> : object;
+
+type WithValues<I, V extends string> =
+	Omit<I, "values"> & {values: (I extends {values: infer P} ? P : never) | V};
+
+type WithChildren<I, C extends ConfigElement[]> =
+	Omit<I, "children"> &
+	{children: [...(I extends {children: infer P extends ConfigElement[]} ? P : []), ...C]};
+
+type WithItems<I, C extends ConfigElement> =
+	Omit<I, "items"> & {items: (I extends {items: infer P} ? P : never) | C};
+
+type Simplify<T> = {[K in keyof T]: T[K]};
+
+type ChildName<E> = InfoOf<E> extends {name: infer N extends string} ? N : never;
+
+type IsOptionalChild<E, D extends boolean> =
+	InfoOf<E> extends {optional: true} ?
+		(InfoOf<E> extends {defaulted: true} ? ([D] extends [true] ? false : true) : true) :
+	false;
+
+type HasUnnamedChild<C extends ConfigElement[]> =
+	true extends (C[number] extends infer E ? ([ChildName<E>] extends [never] ? true : false)
+		: never) ? true : false;
+
+type InferObject<C extends ConfigElement[], D extends boolean> = Simplify<
+	{[E in C[number] as IsOptionalChild<E, D> extends true ? never : ChildName<E>]:
+		Infer<E, D>} &
+	{[E in C[number] as IsOptionalChild<E, D> extends true ? ChildName<E> : never]?:
+		Infer<E, D>} &
+	(HasUnnamedChild<C> extends true ? Record<string, unknown> : unknown)
+>;
+
+type InferItem<I, E, D extends boolean> =
+	I extends {nullItems: true} ? Infer<E, D> | null : Infer<E, D>;
+
+type InferArray<I, D extends boolean> =
+	I extends {ordered: infer O extends ConfigElement[]} ?
+		{[K in keyof O]: InferItem<I, O[K], D>} :
+	I extends {items: infer U} ? InferItem<I, U, D>[] :
+	unknown[];
+
+type InferValue<E, I, D extends boolean> =
+	E extends ObjectElement ?
+		(I extends {children: infer C extends ConfigElement[]} ? InferObject<C, D> :
+			Record<string, unknown>) :
+	E extends ArrayElement ? InferArray<I, D> :
+	E extends StringElement ? (I extends {values: infer V} ? V : string) :
+	E extends NumberElement ? number :
+	E extends BooleanElement ? boolean :
+	unknown;
+
+/**
+ * The type of the parsed configuration that a ConfigElement describes. Only elements that are
+ * created with the {@link ConfigElementBuilder} carry the information that is needed, the type
+ * of any other element is **unknown**. As an example:
+ * 
+ * ```ts
+ * const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+ *     new ConfigElementBuilder().ofTypeNumber().withName("x").build(),
+ *     new ConfigElementBuilder().ofTypeString().withName("s").isOptional().build()
+ * ).build();
+ * 
+ * // {x: number, s?: string}
+ * type Config = Infer<typeof root>;
+ * ```
+ * 
+ * Optional elements with a default value are only present for sure in case the default
+ * values are applied, see the **applyDefaultValues** parser option. The second type parameter
+ * tells whether they are, which is **true** by default, like the option.
+ */
+export type Infer<E, D extends boolean = true> = E extends unknown ?
+	(InfoOf<E> extends {nullable: true} ? InferValue<E, InfoOf<E>, D> | null :
+		InferValue<E, InfoOf<E>, D>) :
+	never;
+
 /* Some refactor notes on the builder:
 Now a lot of fields on specific ConfigElements are duplicated here. We could change the builder
 such that the `ofTypeXyz()` call has to precede specific calls like `withMaxLength()`, and then
@@ -699,7 +1073,7 @@ methods calls, forcing the `ofTypeXyz()` call as very very first call! Jep.
  * Methods that only apply for one specific type of element will throw errors in case the method
  * is called and that type is not currently being build.
  */
-export class ConfigElementBuilder {
+export class ConfigElementBuilder<E extends ConfigElement = ConfigElement, I = object> {
 
 	private numberElement: NumberElement;
 	private booleanElement: BooleanElement;
@@ -724,6 +1098,14 @@ export class ConfigElementBuilder {
 
 	}
 
+	/**
+	 * The builder returns itself from all chained methods, only the type changes to keep
+	 * track of the {@link SchemaInfo}.
+	 */
+	private retype<B>(): B {
+		return this as unknown as B;
+	}
+
 	private _getConfigElement(): ConfigElement {
 		switch (this.type) {
 			case ElementType.OBJECT:
@@ -744,8 +1126,8 @@ export class ConfigElementBuilder {
 	 * 
 	 * @returns The ConfigElement instance
 	 */
-	public build(): ConfigElement {
-		return this.getConfigElement();
+	public build(): TypedElement<E, I> {
+		return this.getConfigElement() as TypedElement<E, I>;
 	}
 
 	/**
@@ -754,13 +1136,13 @@ export class ConfigElementBuilder {
 	 * @returns The current ConfigElementBuilder instance.
 	 * @throws BuilderElementTypeDeterminedError
 	 */
-	public ofTypeObject(): ConfigElementBuilder {
+	public ofTypeObject(): ConfigElementBuilder<ObjectElement, I> {
 		if (this.type)
 			throw new BuilderElementTypeDeterminedError();
 
 		this.type = ElementType.OBJECT;
 		this.objectElement = new ObjectElement();
-		return this;
+		return this.retype();
 	}
 
 	/**
@@ -769,13 +1151,13 @@ export class ConfigElementBuilder {
 	 * @returns The current ConfigElementBuilder instance.
 	 * @throws BuilderElementTypeDeterminedError
 	 */
-	public ofTypeArray(): ConfigElementBuilder {
+	public ofTypeArray(): ConfigElementBuilder<ArrayElement, I> {
 		if (this.type)
 			throw new BuilderElementTypeDeterminedError();
 
 		this.type = ElementType.ARRAY;
 		this.arrayElement = new ArrayElement();
-		return this;
+		return this.retype();
 	}
 
 	/**
@@ -784,13 +1166,13 @@ export class ConfigElementBuilder {
 	 * @returns The current ConfigElementBuilder instance.
 	 * @throws BuilderElementTypeDeterminedError
 	 */
-	public ofTypeBoolean(): ConfigElementBuilder {
+	public ofTypeBoolean(): ConfigElementBuilder<BooleanElement, I> {
 		if (this.type)
 			throw new BuilderElementTypeDeterminedError();
 
 		this.type = ElementType.BOOLEAN;
 		this.booleanElement = new BooleanElement();
-		return this;
+		return this.retype();
 	}
 
 	/**
@@ -799,13 +1181,13 @@ export class ConfigElementBuilder {
 	 * @returns The current ConfigElementBuilder instance.
 	 * @throws BuilderElementTypeDeterminedError
 	 */
-	public ofTypeNumber(): ConfigElementBuilder {
+	public ofTypeNumber(): ConfigElementBuilder<NumberElement, I> {
 		if (this.type)
 			throw new BuilderElementTypeDeterminedError();
 
 		this.type = ElementType.NUMBER;
 		this.numberElement = new NumberElement();
-		return this;
+		return this.retype();
 	}
 
 	/**
@@ -814,13 +1196,13 @@ export class ConfigElementBuilder {
 	 * @returns The current ConfigElementBuilder instance.
 	 * @throws BuilderElementTypeDeterminedError
 	 */
-	public ofTypeString(): ConfigElementBuilder {
+	public ofTypeString(): ConfigElementBuilder<StringElement, I> {
 		if (this.type)
 			throw new BuilderElementTypeDeterminedError();
 
 		this.type = ElementType.STRING;
 		this.stringElement = new StringElement();
-		return this;
+		return this.retype();
 	}
 
 	/**
@@ -831,7 +1213,7 @@ export class ConfigElementBuilder {
 	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
 	 *         **ofTypeString()**.
 	 */
-	public withMinLength(min: number): ConfigElementBuilder {
+	public withMinLength(min: number): ConfigElementBuilder<E, I> {
 		if (!this.stringElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeString",
@@ -852,7 +1234,7 @@ export class ConfigElementBuilder {
 	 *         **ofTypeString()**.
 	 */
 
-	public withMaxLength(max: number): ConfigElementBuilder {
+	public withMaxLength(max: number): ConfigElementBuilder<E, I> {
 		if (!this.stringElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeString",
@@ -870,7 +1252,9 @@ export class ConfigElementBuilder {
 	 * @param values Valid values for the string.
 	 * @returns The current ConfigElementBuilder.
 	 */
-	public withValidStringValues(...values: string[]): ConfigElementBuilder {
+	public withValidStringValues<V extends string>(
+		...values: V[]
+	): ConfigElementBuilder<E, WithValues<I, V>> {
 		if (!this.stringElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeString",
@@ -878,6 +1262,94 @@ export class ConfigElementBuilder {
 			);
 		}
 		this.stringElement.addValidValues(...values);
+		return this.retype();
+	}
+
+	/**
+	 * Report unknown fields of an ObjectElement as errors or warnings, see
+	 * {@link ObjectElement.setStrict()}.
+	 * 
+	 * @param strict **false** to only warn about unknown fields. Default is **true**.
+	 * @returns The current ConfigElementBuilder instance.
+	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
+	 *         **ofTypeObject()**.
+	 */
+	public withStrict(strict: boolean = true): ConfigElementBuilder<E, I> {
+		if (!this.objectElement) {
+			throw new BuilderMissingOrInvalidOfTypeError(
+				"ofTypeObject",
+				"withStrict"
+			);
+		}
+
+		this.objectElement.setStrict(strict);
+		return this;
+	}
+
+	/**
+	 * Set the key of the version of the configuration, and the current version, of an
+	 * ObjectElement, see {@link ObjectElement.setVersion()}.
+	 * 
+	 * @param key The key of the version.
+	 * @param version The current version.
+	 * @returns The current ConfigElementBuilder instance.
+	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
+	 *         **ofTypeObject()**.
+	 */
+	public withVersion(key: string, version: number): ConfigElementBuilder<E, I> {
+		if (!this.objectElement) {
+			throw new BuilderMissingOrInvalidOfTypeError(
+				"ofTypeObject",
+				"withVersion"
+			);
+		}
+
+		this.objectElement.setVersion(key, version);
+		return this;
+	}
+
+	/**
+	 * Add the migration of a configuration from a version to the next version to an
+	 * ObjectElement, see {@link ObjectElement.addMigration()}.
+	 * 
+	 * @param fromVersion The version that the migration migrates from.
+	 * @param migration The function that migrates the configuration.
+	 * @returns The current ConfigElementBuilder instance.
+	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
+	 *         **ofTypeObject()**.
+	 */
+	public withMigration(
+		fromVersion: number, migration: ConfigMigration
+	): ConfigElementBuilder<E, I> {
+		if (!this.objectElement) {
+			throw new BuilderMissingOrInvalidOfTypeError(
+				"ofTypeObject",
+				"withMigration"
+			);
+		}
+
+		this.objectElement.addMigration(fromVersion, migration);
+		return this;
+	}
+
+	/**
+	 * Turn the interpolation of references in values of a StringElement on or off, see
+	 * {@link StringElement.setInterpolation()}.
+	 * 
+	 * @param interpolation **false** to keep values as is. Default is **true**.
+	 * @returns The current ConfigElementBuilder instance.
+	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
+	 *         **ofTypeString()**.
+	 */
+	public withInterpolation(interpolation: boolean = true): ConfigElementBuilder<E, I> {
+		if (!this.stringElement) {
+			throw new BuilderMissingOrInvalidOfTypeError(
+				"ofTypeString",
+				"withInterpolation"
+			);
+		}
+
+		this.stringElement.setInterpolation(interpolation);
 		return this;
 	}
 
@@ -889,7 +1361,7 @@ export class ConfigElementBuilder {
 	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
 	 *         **ofTypeNumber()**.
 	 */
-	public withMinValue(min: number): ConfigElementBuilder {
+	public withMinValue(min: number): ConfigElementBuilder<E, I> {
 		if (!this.numberElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeNumber",
@@ -909,7 +1381,7 @@ export class ConfigElementBuilder {
 	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
 	 *         **ofTypeNumber()**.
 	 */
-	public withMaxValue(max: number): ConfigElementBuilder {
+	public withMaxValue(max: number): ConfigElementBuilder<E, I> {
 		if (!this.numberElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeNumber",
@@ -921,14 +1393,34 @@ export class ConfigElementBuilder {
 		return this;
 	}
 
+	/**
+	 * For NumberElement items allow the non-finite numbers **Infinity**, **-Infinity** and
+	 * **NaN**.
+	 * 
+	 * @returns The current ConfigElementBuilder instance.
+	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
+	 *         **ofTypeNumber()**.
+	 */
+	public withAllowNonFiniteValues(): ConfigElementBuilder<E, I> {
+		if (!this.numberElement) {
+			throw new BuilderMissingOrInvalidOfTypeError(
+				"ofTypeNumber",
+				"withAllowNonFiniteValues"
+			);
+		}
+
+		this.numberElement.setAllowNonFiniteValues();
+		return this;
+	}
+
 	/**
 	 * Allow the value of the ConfigElement to be **null**.
 	 * 
 	 * @returns The current ConfigElementBuilder instance.
 	 */
-	public canBeNull(): ConfigElementBuilder {
+	public canBeNull(): ConfigElementBuilder<E, I & {nullable: true}> {
 		this.getConfigElement().setCanBeNull(true);
-		return this;
+		return this.retype();
 	}
 
 	/**
@@ -936,8 +1428,29 @@ export class ConfigElementBuilder {
 	 * 
 	 * @returns The current ConfigElementBuilder instance.
 	 */
-	public isOptional(): ConfigElementBuilder {
+	public isOptional(): ConfigElementBuilder<E, I & {optional: true}> {
 		this.getConfigElement().setIsRequired(false);
+		return this.retype();
+	}
+
+	/**
+	 * Mark the value of the ConfigElement as secret, see {@link ConfigElement.isSensitive()}.
+	 * 
+	 * @returns The current ConfigElementBuilder instance.
+	 */
+	public isSecret(): ConfigElementBuilder<E, I> {
+		this.getConfigElement().setSensitive(true);
+		return this;
+	}
+
+	/**
+	 * Mark that a change of the value of the ConfigElement requires a restart, see
+	 * {@link ConfigElement.isRestartRequired()}.
+	 * 
+	 * @returns The current ConfigElementBuilder instance.
+	 */
+	public requiresRestart(): ConfigElementBuilder<E, I> {
+		this.getConfigElement().setRestartRequired(true);
 		return this;
 	}
 
@@ -947,9 +1460,11 @@ export class ConfigElementBuilder {
 	 * @param value The default value to use.
 	 * @returns The current ConfigElementBuilder instance.
 	 */
-	public withDefaultValue(value: PrimitiveJSONType) {
+	public withDefaultValue(
+		value: PrimitiveJSONType
+	): ConfigElementBuilder<E, I & {defaulted: true}> {
 		this.getPrimitiveConfigElement().setDefaultValue(value);
-		return this;
+		return this.retype();
 	}
 
 	/**
@@ -963,7 +1478,9 @@ export class ConfigElementBuilder {
 	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
 	 *         **ofTypeObject()**.
 	 */
-	public withChildElements(...children: ConfigElement[]): ConfigElementBuilder {
+	public withChildElements<C extends ConfigElement[]>(
+		...children: C
+	): ConfigElementBuilder<E, WithChildren<I, C>> {
 		if (!this.objectElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeObject",
@@ -973,7 +1490,7 @@ export class ConfigElementBuilder {
 
 		this.objectElement.addChildren(...children);
 
-		return this;
+		return this.retype();
 	}
 
 	/**
@@ -982,8 +1499,19 @@ export class ConfigElementBuilder {
 	 * @param name The name or key of the configuration element.
 	 * @returns The current ConfigElementBuilder instance.
 	 */
-	public withName(name: string) {
+	public withName<N extends string>(name: N): ConfigElementBuilder<E, I & {name: N}> {
 		this.getConfigElement().setName(name);
+		return this.retype();
+	}
+
+	/**
+	 * Set the name of the environment variable that overrides the value of the element.
+	 * 
+	 * @param name Name of the environment variable.
+	 * @returns The current ConfigElementBuilder instance.
+	 */
+	public withEnvironmentVariable(name: string): ConfigElementBuilder<E, I> {
+		this.getConfigElement().setEnvironmentVariable(name);
 		return this;
 	}
 
@@ -999,7 +1527,9 @@ export class ConfigElementBuilder {
 	 *         **ofTypeArray()**.
 	 * @throws BuilderArrayElementTypeError: Incorrect type of the supplied ConfigElement.
 	 */
-	public withNumberArrayElements(ce?: ConfigElement) {
+	public withNumberArrayElements<C extends ConfigElement = NumberElement>(
+		ce?: C
+	): ConfigElementBuilder<E, WithItems<I, C>> {
 		if (!this.arrayElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeArray",
@@ -1009,8 +1539,8 @@ export class ConfigElementBuilder {
 		if (ce && !(ce instanceof NumberElement))
 			throw new BuilderArrayElementTypeError("NumberElement");
 
-		this.arrayElement.allowNumberElements(ce as NumberElement);
-		return this;
+		this.arrayElement.allowNumberElements(ce as ConfigElement as NumberElement);
+		return this.retype();
 	}
 
 	/**
@@ -1025,7 +1555,9 @@ export class ConfigElementBuilder {
 	 *         **ofTypeArray()**.
 	 * @throws BuilderArrayElementTypeError: Incorrect type of the supplied ConfigElement.
 	 */
-	public withStringArrayElements(ce?: ConfigElement) {
+	public withStringArrayElements<C extends ConfigElement = StringElement>(
+		ce?: C
+	): ConfigElementBuilder<E, WithItems<I, C>> {
 		if (!this.arrayElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeArray",
@@ -1035,8 +1567,8 @@ export class ConfigElementBuilder {
 		if (ce && !(ce instanceof StringElement))
 			throw new BuilderArrayElementTypeError("StringElement");
 
-		this.arrayElement.allowStringElements(ce as StringElement);
-		return this;
+		this.arrayElement.allowStringElements(ce as ConfigElement as StringElement);
+		return this.retype();
 	}
 
 	/**
@@ -1051,7 +1583,9 @@ export class ConfigElementBuilder {
 	 *         **ofTypeArray()**.
 	 * @throws BuilderArrayElementTypeError: Incorrect type of the supplied ConfigElement.
 	 */
-	public withBooleanArrayElements(ce?: ConfigElement) {
+	public withBooleanArrayElements<C extends ConfigElement = BooleanElement>(
+		ce?: C
+	): ConfigElementBuilder<E, WithItems<I, C>> {
 		if (!this.arrayElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeArray",
@@ -1061,8 +1595,8 @@ export class ConfigElementBuilder {
 		if (ce && !(ce instanceof BooleanElement))
 			throw new BuilderArrayElementTypeError("BooleanElement");
 
-		this.arrayElement.allowBooleanElements(ce as BooleanElement);
-		return this;
+		this.arrayElement.allowBooleanElements(ce as ConfigElement as BooleanElement);
+		return this.retype();
 	}
 
 	/**
@@ -1077,7 +1611,9 @@ export class ConfigElementBuilder {
 	 *         **ofTypeArray()**.
 	 * @throws BuilderArrayElementTypeError: Incorrect type of the supplied ConfigElement.
 	 */
-	public withArrayArrayElements(ce?: ConfigElement) {
+	public withArrayArrayElements<C extends ConfigElement = ArrayElement>(
+		ce?: C
+	): ConfigElementBuilder<E, WithItems<I, C>> {
 		if (!this.arrayElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeArray",
@@ -1087,8 +1623,8 @@ export class ConfigElementBuilder {
 		if (ce && !(ce instanceof ArrayElement))
 			throw new BuilderArrayElementTypeError("ArrayElement");
 
-		this.arrayElement.allowArrayElements(ce as ArrayElement);
-		return this;
+		this.arrayElement.allowArrayElements(ce as ConfigElement as ArrayElement);
+		return this.retype();
 	}
 
 	/**
@@ -1103,7 +1639,9 @@ export class ConfigElementBuilder {
 	 *         **ofTypeArray()**.
 	 * @throws BuilderArrayElementTypeError: Incorrect type of the supplied ConfigElement.
 	 */
-	public withObjectArrayElements(ce?: ConfigElement) {
+	public withObjectArrayElements<C extends ConfigElement = ObjectElement>(
+		ce?: C
+	): ConfigElementBuilder<E, WithItems<I, C>> {
 		if (!this.arrayElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeArray",
@@ -1113,8 +1651,8 @@ export class ConfigElementBuilder {
 		if (ce && !(ce instanceof ObjectElement))
 			throw new BuilderArrayElementTypeError("ObjectElement");
 
-		this.arrayElement.allowObjectElements(ce as ObjectElement);
-		return this;
+		this.arrayElement.allowObjectElements(ce as ConfigElement as ObjectElement);
+		return this.retype();
 	}
 
 	/**
@@ -1125,7 +1663,9 @@ export class ConfigElementBuilder {
 	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
 	 *         **ofTypeArray()**.
 	 */
-	public withArrayElementList(...elementList: ConfigElement[]) {
+	public withArrayElementList<C extends ConfigElement[]>(
+		...elementList: C
+	): ConfigElementBuilder<E, I & {ordered: C}> {
 		if (!this.arrayElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeArray",
@@ -1134,7 +1674,7 @@ export class ConfigElementBuilder {
 		}
 
 		this.arrayElement.setOrderedElements(...elementList);
-		return this;
+		return this.retype();
 	}
 
 	/**
@@ -1144,7 +1684,7 @@ export class ConfigElementBuilder {
 	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
 	 *         **ofTypeArray()**.
 	 */
-	public withAllowArrayNullElements() {
+	public withAllowArrayNullElements(): ConfigElementBuilder<E, I & {nullItems: true}> {
 		if (!this.arrayElement) {
 			throw new BuilderMissingOrInvalidOfTypeError(
 				"ofTypeArray",
@@ -1153,6 +1693,32 @@ export class ConfigElementBuilder {
 		}
 
 		this.arrayElement.setAllowNullElements();
+		return this.retype();
+	}
+
+	/**
+	 * Set how an ArrayElement is merged with the array of a configuration layer below it, see
+	 * {@link ArrayElement.setMergeStrategy()}.
+	 * 
+	 * @param strategy The merge strategy.
+	 * @param key The key that identifies object elements, only for the **mergeByKey**
+	 *            strategy.
+	 * @returns The current ConfigElementBuilder instance.
+	 * @throws BuilderMissingOrInvalidOfTypeError: Method called before calling
+	 *         **ofTypeArray()**.
+	 * @throws InvalidConfigurationElementError: The key does not match the strategy.
+	 */
+	public withMergeStrategy(
+		strategy: ArrayMergeStrategy, key?: string
+	): ConfigElementBuilder<E, I> {
+		if (!this.arrayElement) {
+			throw new BuilderMissingOrInvalidOfTypeError(
+				"ofTypeArray",
+				"withMergeStrategy"
+			);
+		}
+
+		this.arrayElement.setMergeStrategy(strategy, key);
 		return this;
 	}
 
@@ -1162,7 +1728,9 @@ export class ConfigElementBuilder {
 	 * @param validators Array of custom validators for the current element.
 	 * @returns The current ConfigElementBuilder instance.
 	 */
-	public withValidators(...validators: ElementValidator<JSONType>[]) {
+	public withValidators(
+		...validators: ElementValidator<JSONType>[]
+	): ConfigElementBuilder<E, I> {
 		this.getConfigElement().addValidators(...validators);
 		return this;
 	}
@@ -0,0 +1,131 @@
+/**
+ * Environment variable module.
+ *
+ * Values of a configuration can be overridden with environment variables. An element either
+ * has the name of its environment variable, or the name is derived from the path of the
+ * element with a prefix, so **APP_DB__PORT** overrides **db.port** with the **APP_** prefix.
+ */
+import { convertStringValue } from "./convert";
+import { ArrayElement, ConfigElement, ObjectElement } from "./elements";
+import { ROOT_PATH, childPath } from "./path";
+import { SourceDocument } from "./reader";
+import { getOwnValue, isObject, setProperty } from "./value";
+
+/**
+ * Environment variables by name, like **process.env**.
+ */
+export type Environment = Record<string, string | undefined>;
+
+/**
+ * Get the name of the environment variable of an element from its path. The keys of the path
+ * are converted to upper case, with an underscore between the words of camel case keys and
+ * instead of all other characters than letters and digits, and joined with two underscores.
+ *
+ * @param prefix The prefix of all environment variables, like **APP_**.
+ * @param keys The keys of the path of the element, like **["db", "maxConnections"]**.
+ * @returns The name of the environment variable, like **APP_DB__MAX_CONNECTIONS**.
+ */
+export function deriveVariableName(prefix: string, keys: string[]): string {
+	return prefix + keys.map(key => key
+		.replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+		.replace(/[^A-Za-z0-9]/g, "_")
+		.toUpperCase()
+	).join("__");
+}
+
+/**
+ * Get the name of the source of a value that comes from an environment variable, as used in
+ * error messages.
+ *
+ * @param name The name of the environment variable.
+ * @returns The name of the source.
+ */
+export function getVariableSource(name: string): string {
+	return `environment variable ${name}`;
+}
+
+/**
+ * Read the environment variables of the elements of a configuration into a document, that can
+ * be merged over the document of a configuration file with {@link mergeDocuments()}.
+ *
+ * Every element below the root that is reachable through objects can have an environment
+ * variable, with the name that is set on the element, or else the name that is derived from
+ * its path in case a prefix is given, see {@link deriveVariableName()}. The value of a variable
+ * is converted to the type of the element: numbers and booleans like the strings of INI files,
+ * see {@link convertStringValue()}, and JSON for arrays and objects. Values that cannot be
+ * converted are kept as string, so the validation rejects them.
+ *
+ * The source of every value is the environment variable, see {@link getVariableSource()}.
+ *
+ * @param element The root element of the configuration.
+ * @param env The environment variables.
+ * @param prefix Optional prefix to derive the names of environment variables of elements that
+ *               do not have one.
+ * @returns The document of the environment variables, with an **undefined** value in case no
+ *          environment variable is set.
+ */
+export function readEnvironment(
+	element: ConfigElement, env: Environment, prefix?: string
+): SourceDocument {
+	const document: SourceDocument = {
+		value: undefined,
+		positions: new Map(),
+		keyPositions: new Map(),
+		sources: new Map()
+	};
+	readVariables(document, element, [], env, prefix);
+	return document;
+}
+
+function readVariables(
+	document: SourceDocument, ce: ConfigElement, keys: string[], env: Environment,
+	prefix: string
+) {
+	if (!(ce instanceof ObjectElement)) return;
+
+	for (const key of ce.getChildFieldNames()) {
+		const childCe: ConfigElement = ce.getChild(key);
+		const childKeys: string[] = [...keys, key];
+
+		let name: string = childCe.getEnvironmentVariable();
+		if (name === undefined && prefix !== undefined)
+			name = deriveVariableName(prefix, childKeys);
+
+		const text: string = name !== undefined ? env[name] : undefined;
+		if (text !== undefined)
+			setValue(document, childKeys, convertVariable(text, childCe), name);
+
+		readVariables(document, childCe, childKeys, env, prefix);
+	}
+}
+
+function convertVariable(text: string, ce: ConfigElement): unknown {
+	if (!(ce instanceof ObjectElement) && !(ce instanceof ArrayElement))
+		return convertStringValue(text, ce);
+
+	try {
+		return JSON.parse(text);
+	}
+	catch {
+		return text;
+	}
+}
+
+function setValue(document: SourceDocument, keys: string[], value: unknown, name: string) {
+	if (!isObject(document.value)) document.value = {};
+
+	let object = document.value as object;
+	let path: string = ROOT_PATH;
+	keys.forEach((key, i) => {
+		path = childPath(path, key);
+		if (i === keys.length - 1) {
+			setProperty(object, key, value);
+			return;
+		}
+
+		if (!isObject(getOwnValue(object, key))) setProperty(object, key, {});
+		object = object[key as keyof object];
+	});
+
+	document.sources.set(path, getVariableSource(name));
+}
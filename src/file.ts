@@ -0,0 +1,105 @@
+/**
+ * Configuration file module.
+ *
+ * This module reads the text of configuration files, and selects the format of a configuration
+ * file from its extension.
+ */
+import * as fs from "node:fs";
+import * as nodePath from "node:path";
+
+import { ConfigFormat } from "./formats";
+
+const EXTENSION_FORMATS: Map<string, ConfigFormat> = new Map([
+	[".json", "json"],
+	[".jsonc", "jsonc"],
+	[".json5", "json5"],
+	[".yaml", "yaml"],
+	[".yml", "yaml"],
+	[".toml", "toml"],
+	[".ini", "ini"],
+	[".properties", "properties"],
+]);
+
+/**
+ * Get the format of a configuration file from the extension of the file. The extension is not
+ * case sensitive.
+ *
+ * @param path Path of the file.
+ * @returns The format of the file, or **undefined** in case the extension is unknown.
+ */
+export function getFileFormat(path: string): ConfigFormat {
+	return EXTENSION_FORMATS.get(nodePath.extname(path).toLowerCase());
+}
+
+/**
+ * Read the text of a configuration file, see {@link decodeConfigText()}.
+ *
+ * @param path Path of the file.
+ * @returns The text of the file.
+ * @throws ConfigFileError: The file cannot be read, or is not correctly encoded.
+ */
+export function readConfigFile(path: string): string {
+	let data: Buffer;
+	try {
+		data = fs.readFileSync(path);
+	}
+	catch (err) {
+		throw new ConfigFileError(`Cannot read file, ${(err as Error).message}`, path, err);
+	}
+	return decodeConfigText(data, path);
+}
+
+/**
+ * Read the text of a configuration file asynchronously, see {@link decodeConfigText()}.
+ *
+ * @param path Path of the file.
+ * @returns A promise of the text of the file.
+ * @throws ConfigFileError: The file cannot be read, or is not correctly encoded.
+ */
+export async function readConfigFileAsync(path: string): Promise<string> {
+	let data: Buffer;
+	try {
+		data = await fs.promises.readFile(path);
+	}
+	catch (err) {
+		throw new ConfigFileError(`Cannot read file, ${(err as Error).message}`, path, err);
+	}
+	return decodeConfigText(data, path);
+}
+
+/**
+ * Decode the contents of a configuration file. The contents are UTF-8, unless a byte order mark
+ * marks them as UTF-16. The byte order mark is not part of the text.
+ *
+ * @param data The contents of the file.
+ * @param path Path of the file, used in error messages.
+ * @returns The text of the file.
+ * @throws ConfigFileError: The contents are not correctly encoded.
+ */
+export function decodeConfigText(data: Uint8Array, path: string): string {
+	let encoding: string = "utf-8";
+	if (data[0] === 0xff && data[1] === 0xfe) encoding = "utf-16le";
+	else if (data[0] === 0xfe && data[1] === 0xff) encoding = "utf-16be";
+
+	try {
+		return new TextDecoder(encoding, {fatal: true}).decode(data);
+	}
+	catch (err) {
+		throw new ConfigFileError(`Invalid ${encoding.toUpperCase()} text`, path, err);
+	}
+}
+
+/**
+ * Error thrown in case a configuration file cannot be read.
+ */
+export class ConfigFileError extends Error {
+	public readonly code: string = "FILE_ERROR";
+	public readonly detail: string;
+	public readonly path: string;
+
+	constructor(detail: string, path: string, cause?: unknown) {
+		super(`${path}: ${detail}`, {cause});
+		this.detail = detail;
+		this.path = path;
+	}
+}
@@ -0,0 +1,41 @@
+/**
+ * Configuration format module.
+ *
+ * This module maps the names of the supported configuration formats to the readers of those
+ * formats, so a format can be selected by name instead of by creating a reader.
+ */
+import { IniReader } from "./ini";
+import { Json5Reader, JsonReader, JsoncReader } from "./json";
+import { PropertiesReader } from "./properties";
+import { ConfigReader } from "./reader";
+import { TomlReader } from "./toml";
+import { YamlReader } from "./yaml";
+
+/**
+ * Names of the supported configuration formats.
+ */
+export type ConfigFormat =
+	"json" | "jsonc" | "json5" | "yaml" | "toml" | "ini" | "properties";
+
+const READER_FACTORIES: Map<ConfigFormat, () => ConfigReader> = new Map([
+	["json", () => new JsonReader()],
+	["jsonc", () => new JsoncReader()],
+	["json5", () => new Json5Reader()],
+	["yaml", () => new YamlReader()],
+	["toml", () => new TomlReader()],
+	["ini", () => new IniReader()],
+	["properties", () => new PropertiesReader()],
+]);
+
+/**
+ * Create the reader for a configuration format.
+ *
+ * @param format Name of the format.
+ * @returns A new reader for the format.
+ * @throws Error: The format is not supported.
+ */
+export function createReader(format: ConfigFormat): ConfigReader {
+	const factory: () => ConfigReader = READER_FACTORIES.get(format);
+	if (!factory) throw new Error(`Unsupported configuration format ${format}`);
+	return factory();
+}
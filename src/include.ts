@@ -0,0 +1,362 @@
+/**
+ * Configuration directive module.
+ *
+ * A configuration file can be split over multiple files with the **$include** and **$extends**
+ * keys in its objects. This module resolves these directives, before the configuration is
+ * validated.
+ */
+import * as nodePath from "node:path";
+
+import { ArrayElement, ConfigElement, ObjectElement } from "./elements";
+import { ConfigFileError } from "./file";
+import { mergeDocuments } from "./merge";
+import { ROOT_PATH, childPath, indexPath } from "./path";
+import {
+	SourceDocument,
+	SourcePosition,
+	copyLocations,
+	formatPosition,
+	removeLocations
+} from "./reader";
+import { getOwnValue, hasOwnKey, isObject, setProperty } from "./value";
+
+/**
+ * Key of the directive that splices the contents of other files into an object.
+ */
+export const INCLUDE_KEY: string = "$include";
+
+/**
+ * Key of the directive that deep merges other files under an object.
+ */
+export const EXTENDS_KEY: string = "$extends";
+
+/**
+ * Function that reads the document of the configuration file at a path.
+ */
+export type DocumentLoader = (path: string) => SourceDocument;
+
+/**
+ * Function that reads the document of the configuration file at a path asynchronously.
+ */
+export type AsyncDocumentLoader = (path: string) => Promise<SourceDocument>;
+
+/**
+ * Steps of a resolution, that yield the paths of the files to load, and receive the
+ * documents of these files.
+ */
+type LoadSteps<T> = Generator<string, T, SourceDocument>;
+
+/**
+ * Resolve the **$include** and **$extends** directives of a configuration file.
+ *
+ * The value of a directive is the path of a file, or an array of paths, relative to the file
+ * that contains the directive. The files are resolved recursively, and a file that includes or
+ * extends itself, directly or through other files, is rejected.
+ *
+ * - **$include** splices the keys of the root objects of the files into the object that has
+ *   the directive. A key that is already defined is rejected. An object that only has the
+ *   directive with one file is replaced by the root value of the file, which can then also be
+ *   an array or a primitive value.
+ * - **$extends** merges the root objects of the files under the object that has the
+ *   directive with {@link mergeDocuments()}: values of the object override the values of the
+ *   files, and values of a file override the values of the files before it. In case the
+ *   element of the configuration is given, the merge follows the element, like the merge
+ *   strategies of arrays. Without an element, objects are merged and all other values,
+ *   including arrays, are replaced.
+ *
+ * The positions and sources of values from other files are recorded in the returned
+ * document, so errors point at the file that a value comes from.
+ *
+ * @param document The document of the configuration file, with its path as source.
+ * @param load Function that reads the document of a file.
+ * @param element Optional root element of the configuration, which is followed by the merge
+ *                of **$extends**.
+ * @returns The document with all directives resolved.
+ * @throws ConfigIncludeError: A directive is invalid, or a file cannot be read.
+ * @throws ConfigSyntaxError: The text of a file could not be read.
+ */
+export function resolveDirectives(
+	document: SourceDocument, load: DocumentLoader, element?: ConfigElement
+): SourceDocument {
+	const steps: LoadSteps<SourceDocument> =
+		new DirectiveResolver().resolve(document, element);
+
+	let step: IteratorResult<string, SourceDocument> = steps.next();
+	while (!step.done) {
+		let loaded: SourceDocument;
+		try {
+			loaded = load(step.value as string);
+		}
+		catch (err) {
+			step = steps.throw(err);
+			continue;
+		}
+		step = steps.next(loaded);
+	}
+
+	return step.value;
+}
+
+/**
+ * Resolve the directives of a configuration file like {@link resolveDirectives()}, but read
+ * the files asynchronously.
+ *
+ * @param document The document of the configuration file, with its path as source.
+ * @param load Function that reads the document of a file asynchronously.
+ * @param element Optional root element of the configuration.
+ * @returns A promise of the document with all directives resolved.
+ */
+export async function resolveDirectivesAsync(
+	document: SourceDocument, load: AsyncDocumentLoader, element?: ConfigElement
+): Promise<SourceDocument> {
+	const steps: LoadSteps<SourceDocument> =
+		new DirectiveResolver().resolve(document, element);
+
+	let step: IteratorResult<string, SourceDocument> = steps.next();
+	while (!step.done) {
+		let loaded: SourceDocument;
+		try {
+			loaded = await load(step.value as string);
+		}
+		catch (err) {
+			step = steps.throw(err);
+			continue;
+		}
+		step = steps.next(loaded);
+	}
+
+	return step.value;
+}
+
+/**
+ * Resolver of the directives of a single configuration file and the files it refers to.
+ */
+class DirectiveResolver {
+	/**
+	 * The files that are being resolved, with their absolute path to detect cycles.
+	 */
+	private stack: {file: string, source: string}[] = [];
+
+	public *resolve(
+		document: SourceDocument, ce: ConfigElement
+	): LoadSteps<SourceDocument> {
+		const source: string = document.source;
+		this.stack.push({file: nodePath.resolve(source), source});
+
+		const resolved: SourceDocument = {
+			...document,
+			sources: new Map(document.sources ?? [])
+		};
+		resolved.value = yield* this.resolveValue(document.value, ROOT_PATH, resolved, ce);
+
+		this.stack.pop();
+		return resolved;
+	}
+
+	private *resolveValue(
+		value: unknown, path: string, document: SourceDocument, ce: ConfigElement
+	): LoadSteps<unknown> {
+		if (Array.isArray(value))
+			return yield* this.resolveArray(value, path, document, ce);
+
+		if (!isObject(value)) return value;
+
+		const object = value as Record<string, unknown>;
+		const includes: unknown = takeProperty(object, INCLUDE_KEY);
+		const bases: unknown = takeProperty(object, EXTENDS_KEY);
+
+		for (const key of Object.keys(object)) {
+			const keyPath: string = childPath(path, key);
+			const childCe: ConfigElement =
+				ce instanceof ObjectElement ? ce.getChild(key) : undefined;
+			const resolved: unknown =
+				yield* this.resolveValue(object[key], keyPath, document, childCe);
+			setProperty(object, key, resolved);
+		}
+
+		let result: unknown = object;
+		if (includes !== undefined)
+			result = yield* this.include(object, includes, path, document, ce);
+		if (bases !== undefined)
+			result = yield* this.extend(result, bases, path, document, ce);
+
+		return result;
+	}
+
+	private *resolveArray(
+		array: unknown[], path: string, document: SourceDocument, ce: ConfigElement
+	): LoadSteps<unknown[]> {
+		const arrayCe: ArrayElement = ce instanceof ArrayElement ? ce : undefined;
+		for (let i = 0; i < array.length; i++) {
+			const itemPath: string = indexPath(path, i);
+			const itemCe: ConfigElement = arrayCe?.getItemElement(array[i], i);
+			array[i] = yield* this.resolveValue(array[i], itemPath, document, itemCe);
+		}
+		return array;
+	}
+
+	private *include(
+		object: Record<string, unknown>, targets: unknown,
+		path: string, document: SourceDocument, ce: ConfigElement
+	): LoadSteps<unknown> {
+		const directivePath: string = childPath(path, INCLUDE_KEY);
+		const files: [string, string][] = this.getFiles(targets, directivePath, document);
+		const replace: boolean = Object.keys(object).length === 0 && files.length === 1;
+
+		for (const [target, targetPath] of files) {
+			const included: SourceDocument =
+				yield* this.loadFile(target, targetPath, document, ce);
+
+			if (replace) {
+				copyLocations(included, ROOT_PATH, document, path);
+				return included.value;
+			}
+
+			if (!isObject(included.value)) {
+				this.fail(
+					`The root of included file ${target} must be an object`,
+					targetPath, document
+				);
+			}
+
+			const value = included.value as Record<string, unknown>;
+			const duplicate: string = Object.keys(value).find(
+				key => hasOwnKey(object, key)
+			);
+			if (duplicate !== undefined) {
+				this.fail(
+					`Key ${duplicate} of ${target} is already defined`,
+					targetPath, document
+				);
+			}
+
+			for (const key of Object.keys(value)) {
+				setProperty(object, key, value[key]);
+				const keyPath: string = childPath(ROOT_PATH, key);
+				copyLocations(included, keyPath, document, childPath(path, key));
+			}
+		}
+
+		return object;
+	}
+
+	private *extend(
+		value: unknown, targets: unknown, path: string,
+		document: SourceDocument, ce: ConfigElement
+	): LoadSteps<unknown> {
+		const directivePath: string = childPath(path, EXTENDS_KEY);
+		const files: [string, string][] = this.getFiles(targets, directivePath, document);
+
+		if (!isObject(value))
+			this.fail("Only an object can extend other files", directivePath, document);
+
+		const documents: SourceDocument[] = [];
+		for (const [target, targetPath] of files) {
+			const base: SourceDocument =
+				yield* this.loadFile(target, targetPath, document, ce);
+
+			if (!isObject(base.value)) {
+				this.fail(
+					`The root of extended file ${target} must be an object`,
+					targetPath, document
+				);
+			}
+			documents.push(base);
+		}
+
+		// The object itself is the last document, so its values override the files.
+		const own: SourceDocument = {
+			value,
+			positions: new Map(),
+			keyPositions: new Map(),
+			sources: new Map()
+		};
+		copyLocations(document, path, own, ROOT_PATH);
+		documents.push(own);
+
+		const merged: SourceDocument = mergeDocuments(ce, documents);
+		removeLocations(document, path);
+		copyLocations(merged, ROOT_PATH, document, path);
+		return merged.value;
+	}
+
+	/**
+	 * Get the files of a directive.
+	 *
+	 * @param targets The value of the directive.
+	 * @param directivePath The path of the directive.
+	 * @param document The document that has the directive.
+	 * @returns The file paths of the directive, with the path of the value of every file path.
+	 */
+	private getFiles(
+		targets: unknown, directivePath: string, document: SourceDocument
+	): [string, string][] {
+		if (typeof targets === "string") return [[targets, directivePath]];
+
+		if (!Array.isArray(targets) || targets.some(t => typeof t !== "string")) {
+			const key: string = directivePath.substring(directivePath.lastIndexOf("$"));
+			const detail: string =
+				`The value of ${key} must be a file path or an array of file paths`;
+			this.fail(detail, directivePath, document);
+		}
+
+		return (targets as string[]).map((t, i) => [t, indexPath(directivePath, i)]);
+	}
+
+	private *loadFile(
+		target: string, targetPath: string, document: SourceDocument, ce: ConfigElement
+	): LoadSteps<SourceDocument> {
+		const source: string = nodePath.join(nodePath.dirname(document.source), target);
+		const file: string = nodePath.resolve(source);
+
+		const cycleStart: number = this.stack.findIndex(f => f.file === file);
+		if (cycleStart >= 0) {
+			const cycle: string[] = this.stack.slice(cycleStart).map(f => f.source);
+			const detail: string = `Include cycle ${[...cycle, source].join(" -> ")}`;
+			this.fail(detail, targetPath, document);
+		}
+
+		let loaded: SourceDocument;
+		try {
+			loaded = yield source;
+		}
+		catch (err) {
+			if (!(err instanceof ConfigFileError)) throw err;
+			this.fail(`Cannot read ${target}, ${err.detail}`, targetPath, document);
+		}
+
+		return yield* this.resolve(loaded, ce);
+	}
+
+	private fail(detail: string, path: string, document: SourceDocument): never {
+		throw new ConfigIncludeError(
+			detail, path, document.positions.get(path), document.source
+		);
+	}
+}
+
+function takeProperty(object: object, key: string): unknown {
+	const value: unknown = getOwnValue(object, key);
+	delete object[key as keyof object];
+	return value;
+}
+
+/**
+ * Error thrown in case an **$include** or **$extends** directive cannot be resolved.
+ */
+export class ConfigIncludeError extends Error {
+	public readonly code: string = "INCLUDE_ERROR";
+	public readonly detail: string;
+	public readonly path: string;
+	public readonly position: SourcePosition;
+	public readonly source: string;
+
+	constructor(detail: string, path: string, position: SourcePosition, source: string) {
+		const location: string = position ? formatPosition(position, source) : source;
+		super(`${location} ${path}: ${detail}`);
+		this.detail = detail;
+		this.path = path;
+		this.position = position;
+		this.source = source;
+	}
+}
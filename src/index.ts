@@ -1,2 +1,23 @@
+export * from "./args";
+export * from "./convert";
+export * from "./diff";
 export * from "./elements";
+export * from "./env";
+export * from "./file";
+export * from "./formats";
+export * from "./include";
+export * from "./interpolation";
+export * from "./ini";
+export * from "./json";
+export * from "./loader";
+export * from "./merge";
+export * from "./migration";
 export * from "./parser";
+export * from "./path";
+export * from "./properties";
+export * from "./reader";
+export * from "./secret";
+export * from "./suggest";
+export * from "./toml";
+export * from "./watcher";
+export * from "./yaml";
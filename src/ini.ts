@@ -0,0 +1,123 @@
+/**
+ * INI reader module.
+ *
+ * This module contains a reader for INI text that keeps track of the line and column of every
+ * key and value in the text.
+ */
+import {
+	ConfigReader,
+	ConfigSyntaxError,
+	NestedObjectBuilder,
+	SourceDocument,
+	SourcePosition
+} from "./reader";
+
+/**
+ * Reader for INI text.
+ *
+ * Every **[section]** becomes an object in the root object, and every **key = value** or
+ * **key: value** line a string value in the object of its section, or in the root object for
+ * keys before the first section. Dots in section names and keys create nested objects, so
+ * **[database.primary]** with **port = 5432** gives the same value tree as the JSON
+ * **{"database": {"primary": {"port": "5432"}}}**.
+ *
+ * Lines that start with a **;** or **#** are comments. Values are trimmed, and quotes around a
+ * value are removed. As INI has no types, the values are converted to the type of their element
+ * by the parser, see {@link SourceDocument.stringValues}.
+ */
+export class IniReader implements ConfigReader {
+	public read(text: string, source?: string): SourceDocument {
+		return new IniDocumentParser(text, source).parseDocument();
+	}
+}
+
+/**
+ * Parser for a single INI text. A new instance is used for every text that is read.
+ */
+class IniDocumentParser {
+	private lines: string[];
+	private source: string;
+	private builder: NestedObjectBuilder;
+
+	private lineNumber: number = 0;
+	private section: string[] = [];
+	private sections: Set<string> = new Set();
+
+	constructor(text: string, source?: string) {
+		this.lines = text.split(/\r\n|\n|\r/);
+		this.source = source;
+		this.builder = new NestedObjectBuilder(source);
+	}
+
+	public parseDocument(): SourceDocument {
+		this.lines.forEach((line, i) => {
+			this.lineNumber = i + 1;
+
+			const start: number = line.length - line.trimStart().length;
+			const c: string = line[start];
+			if (c === undefined || c === ";" || c === "#") return;
+
+			if (c === "[") this.parseSectionHeader(line, start);
+			else this.parseKeyValue(line, start);
+		});
+
+		return this.builder.getDocument();
+	}
+
+	private parseSectionHeader(line: string, start: number) {
+		const end: number = line.trimEnd().length - 1;
+		if (line[end] !== "]" || end === start)
+			this.fail("Unterminated section header", end + 1);
+
+		this.section = this.splitKey(line.substring(start + 1, end), start + 1);
+
+		const name: string = this.section.join(".");
+		if (this.sections.has(name)) this.fail(`Duplicate section ${name}`, start + 1);
+		this.sections.add(name);
+
+		this.builder.getObject(this.section, this.getPosition(start));
+	}
+
+	private parseKeyValue(line: string, start: number) {
+		const separator: number = line.search(/[=:]/);
+		if (separator < 0)
+			this.fail("Expected '=' or ':' after the key", line.trimEnd().length);
+
+		const key: string[] = this.splitKey(line.substring(start, separator), start);
+		const value: string = line.substring(separator + 1);
+		const valueStart: number = line.length - value.trimStart().length;
+
+		this.builder.setValue(
+			[...this.section, ...key], unquote(value.trim()),
+			this.getPosition(start), this.getPosition(valueStart)
+		);
+	}
+
+	/**
+	 * Split a dotted key in its parts.
+	 *
+	 * @param key The dotted key.
+	 * @param offset Offset of the key in the line.
+	 * @returns The trimmed parts of the key.
+	 */
+	private splitKey(key: string, offset: number): string[] {
+		const parts: string[] = key.split(".").map(part => part.trim());
+		if (parts.some(part => !part)) this.fail(`Invalid key '${key.trim()}'`, offset);
+		return parts;
+	}
+
+	private getPosition(offset: number): SourcePosition {
+		return {line: this.lineNumber, column: offset + 1};
+	}
+
+	private fail(detail: string, offset: number): never {
+		throw new ConfigSyntaxError(detail, this.getPosition(offset), this.source);
+	}
+}
+
+function unquote(value: string): string {
+	const quote: string = value[0];
+	if ((quote === "\"" || quote === "'") && value.length > 1 && value.endsWith(quote))
+		return value.substring(1, value.length - 1);
+	return value;
+}
@@ -0,0 +1,52 @@
+/**
+ * Interpolation module.
+ *
+ * String values can contain references, like **${env:HOME}**, **${ref:paths.base}/logs** and
+ * **${file:./secret.txt}**, that the parser replaces before the values are validated. This
+ * module finds the references in a string and the keys of the values they refer to.
+ */
+
+/**
+ * Matches an escaped **$${**, or a reference with its kind and name.
+ */
+const REFERENCE_REGEX: RegExp = /\$\$\{|\$\{([A-Za-z]+):([^}]*)\}/g;
+
+/**
+ * Function that resolves a reference of a kind, like **env**, and a name, like **HOME**, to
+ * the string that replaces it.
+ */
+export type ReferenceResolver = (kind: string, name: string) => string;
+
+/**
+ * Replace all references in a string. A reference is **${kind:name}**, and **$${** is replaced
+ * with a literal **${**.
+ *
+ * @param value The string with references.
+ * @param resolve The function that resolves a reference.
+ * @returns The string with the references replaced.
+ */
+export function interpolateString(value: string, resolve: ReferenceResolver): string {
+	return value.replace(REFERENCE_REGEX, (match: string, kind: string, name: string) =>
+		match === "$${" ? "${" : resolve(kind, name)
+	);
+}
+
+/**
+ * Get the keys of the value that a **ref** reference refers to, from the root of the
+ * configuration. Keys are separated by dots, and array indexes are in square brackets, like
+ * **servers[0].host**.
+ *
+ * @param name The name of the reference.
+ * @returns The keys and indexes, or **undefined** in case the name is not valid.
+ */
+export function parseReferenceKeys(name: string): (string | number)[] {
+	const keys: (string | number)[] = [];
+	for (const part of name.split(".")) {
+		const match: RegExpExecArray = /^([^[\]]*)((?:\[[0-9]+\])*)$/.exec(part);
+		if (!match || (!match[1] && !match[2])) return undefined;
+
+		if (match[1]) keys.push(match[1]);
+		for (const index of match[2].matchAll(/\[([0-9]+)\]/g)) keys.push(Number(index[1]));
+	}
+	return keys;
+}
@@ -0,0 +1,488 @@
+/**
+ * JSON reader module.
+ *
+ * This module contains a JSON reader that, unlike **JSON.parse()**, keeps track of the line and
+ * column of every key and value in the text. The reader can also read JSONC, JSON with comments
+ * and trailing commas as used by for example **tsconfig.json** files, and JSON5.
+ */
+import { ROOT_PATH, childPath, indexPath } from "./path";
+import {
+	ConfigReader,
+	ConfigSyntaxError,
+	LineIndex,
+	MAX_NESTING_DEPTH,
+	SourceDocument,
+	SourcePosition
+} from "./reader";
+import { setProperty } from "./value";
+
+/**
+ * Options of the {@link JsonReader}, to accept extensions of JSON.
+ */
+export interface JsonReaderOptions {
+	/**
+	 * Allow JavaScript style line and block comments wherever whitespace is allowed. Default
+	 * is **false**.
+	 */
+	allowComments?: boolean;
+
+	/**
+	 * Allow a comma after the last element of an array or the last key of an object. Default is
+	 * **false**.
+	 */
+	allowTrailingCommas?: boolean;
+}
+
+/**
+ * Reader for JSON text.
+ *
+ * By default the reader accepts exactly the same input as **JSON.parse()** and produces the same
+ * value tree, but throws a {@link ConfigSyntaxError} with the position of the problem in case the
+ * text is not valid JSON.
+ */
+export class JsonReader implements ConfigReader {
+	private options: Required<JsonReaderOptions>;
+
+	/**
+	 * Creates a JsonReader.
+	 *
+	 * @param options Options to accept extensions of JSON.
+	 */
+	constructor(options?: JsonReaderOptions) {
+		this.options = {
+			allowComments: !!options?.allowComments,
+			allowTrailingCommas: !!options?.allowTrailingCommas
+		};
+	}
+
+	public read(text: string, source?: string): SourceDocument {
+		const settings: ParserSettings = {...this.options, json5: false};
+		return new JsonDocumentParser(text, settings, source).parseDocument();
+	}
+}
+
+/**
+ * Reader for JSONC text, which is JSON with comments and trailing commas.
+ */
+export class JsoncReader extends JsonReader {
+	constructor() {
+		super({allowComments: true, allowTrailingCommas: true});
+	}
+}
+
+/**
+ * Reader for JSON5 text, see https://spec.json5.org.
+ *
+ * On top of JSONC, JSON5 allows unquoted keys, single quoted strings, strings that continue on
+ * the next line after a backslash, more escape sequences, hexadecimal numbers, numbers with a
+ * leading or trailing decimal point or a plus sign, and the **Infinity** and **NaN** numbers.
+ * The non-finite numbers are only accepted by a {@link NumberElement} that allows them.
+ */
+export class Json5Reader implements ConfigReader {
+	public read(text: string, source?: string): SourceDocument {
+		const settings: ParserSettings = {
+			allowComments: true,
+			allowTrailingCommas: true,
+			json5: true
+		};
+		return new JsonDocumentParser(text, settings, source).parseDocument();
+	}
+}
+
+/**
+ * Settings of a single parse, the reader options plus the JSON5 flag.
+ */
+interface ParserSettings extends Required<JsonReaderOptions> {
+	json5: boolean;
+}
+
+const NUMBER_REGEX: RegExp = /-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?/y;
+
+const JSON5_NUMBER_REGEX: RegExp = new RegExp(
+	"[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|" +
+	"(?:(?:0|[1-9][0-9]*)(?:\\.[0-9]*)?|\\.[0-9]+)(?:[eE][+-]?[0-9]+)?)",
+	"y"
+);
+
+const JSON5_IDENTIFIER_REGEX: RegExp = new RegExp(
+	"(?:[\\p{ID_Start}$_]|\\\\u[0-9a-fA-F]{4})" +
+	"(?:[\\p{ID_Continue}$\\u200c\\u200d]|\\\\u[0-9a-fA-F]{4})*",
+	"uy"
+);
+
+const JSON5_WHITESPACE_REGEX: RegExp = /[\t\n\v\f\r\u2028\u2029\ufeff\p{Zs}]/u;
+
+const JSON5_LINE_TERMINATORS: string = "\n\r\u2028\u2029";
+
+const ESCAPES: Map<string, string> = new Map([
+	["\"", "\""],
+	["\\", "\\"],
+	["/", "/"],
+	["b", "\b"],
+	["f", "\f"],
+	["n", "\n"],
+	["r", "\r"],
+	["t", "\t"],
+]);
+
+const JSON5_ESCAPES: Map<string, string> = new Map([
+	...ESCAPES,
+	["'", "'"],
+	["v", "\v"],
+]);
+
+/**
+ * Recursive descent parser for a single JSON text. A new instance is used for every text that
+ * is read.
+ */
+class JsonDocumentParser {
+	private text: string;
+	private settings: ParserSettings;
+	private source: string;
+	private index: number = 0;
+	private depth: number = 0;
+	private lineIndex: LineIndex;
+
+	private positions: Map<string, SourcePosition> = new Map();
+	private keyPositions: Map<string, SourcePosition> = new Map();
+
+	constructor(text: string, settings: ParserSettings, source?: string) {
+		this.text = text;
+		this.settings = settings;
+		this.source = source;
+		this.lineIndex = new LineIndex(text);
+	}
+
+	public parseDocument(): SourceDocument {
+		this.skipWhitespace();
+		const value: unknown = this.parseValue(ROOT_PATH);
+		this.skipWhitespace();
+
+		if (this.index < this.text.length)
+			this.fail(`Unexpected ${this.describeCurrent()} after JSON value`);
+
+		return {
+			value,
+			positions: this.positions,
+			keyPositions: this.keyPositions,
+			source: this.source
+		};
+	}
+
+	private parseValue(path: string): unknown {
+		this.positions.set(path, this.currentPosition());
+
+		const c: string = this.text[this.index];
+		switch (c) {
+			case "{":
+				return this.parseNested(() => this.parseObject(path));
+			case "[":
+				return this.parseNested(() => this.parseArray(path));
+			case "\"":
+				return this.parseString();
+			case "'":
+				if (!this.settings.json5) break;
+				return this.parseString();
+			case "t":
+				return this.parseLiteral("true", true);
+			case "f":
+				return this.parseLiteral("false", false);
+			case "n":
+				return this.parseLiteral("null", null);
+		}
+
+		if (c === "-" || (c >= "0" && c <= "9"))
+			return this.settings.json5 ? this.parseJson5Number() : this.parseNumber();
+		if (this.settings.json5 && c !== undefined && "+.IN".includes(c))
+			return this.parseJson5Number();
+		this.fail(`Unexpected ${this.describeCurrent()}, expected a value`);
+	}
+
+	/**
+	 * Parse a nested object or array, in case the nesting is not too deep.
+	 */
+	private parseNested<T>(parse: () => T): T {
+		if (this.depth >= MAX_NESTING_DEPTH)
+			this.fail(`Nesting is deeper than ${MAX_NESTING_DEPTH} levels`);
+
+		this.depth++;
+		const value: T = parse();
+		this.depth--;
+		return value;
+	}
+
+	private parseObject(path: string): object {
+		const obj: object = {};
+		this.index++;
+		this.skipWhitespace();
+
+		if (this.text[this.index] === "}") {
+			this.index++;
+			return obj;
+		}
+
+		for (;;) {
+			const keyPosition: SourcePosition = this.currentPosition();
+			const key: string = this.parseKey();
+			const valuePath: string = childPath(path, key);
+			this.keyPositions.set(valuePath, keyPosition);
+
+			this.skipWhitespace();
+			this.expect(":");
+			this.skipWhitespace();
+
+			setProperty(obj, key, this.parseValue(valuePath));
+
+			this.skipWhitespace();
+			if (this.text[this.index] === ",") {
+				this.index++;
+				this.skipWhitespace();
+				if (this.skipTrailingComma("}")) return obj;
+				continue;
+			}
+
+			this.expect("}");
+			return obj;
+		}
+	}
+
+	private parseArray(path: string): unknown[] {
+		const array: unknown[] = [];
+		this.index++;
+		this.skipWhitespace();
+
+		if (this.text[this.index] === "]") {
+			this.index++;
+			return array;
+		}
+
+		for (;;) {
+			array.push(this.parseValue(indexPath(path, array.length)));
+
+			this.skipWhitespace();
+			if (this.text[this.index] === ",") {
+				this.index++;
+				this.skipWhitespace();
+				if (this.skipTrailingComma("]")) return array;
+				continue;
+			}
+
+			this.expect("]");
+			return array;
+		}
+	}
+
+	private parseKey(): string {
+		const c: string = this.text[this.index];
+		if (c === "\"" || (this.settings.json5 && c === "'"))
+			return this.parseString();
+
+		if (this.settings.json5) {
+			JSON5_IDENTIFIER_REGEX.lastIndex = this.index;
+			const match: RegExpExecArray = JSON5_IDENTIFIER_REGEX.exec(this.text);
+			if (match) {
+				this.index += match[0].length;
+				return match[0].replace(
+					/\\u([0-9a-fA-F]{4})/g,
+					(_, hex: string) => String.fromCharCode(parseInt(hex, 16))
+				);
+			}
+		}
+
+		this.fail(`Unexpected ${this.describeCurrent()}, expected a key`);
+	}
+
+	private parseString(): string {
+		const start: number = this.index;
+		const quote: string = this.text[this.index];
+		let result: string = "";
+		this.index++;
+
+		for (;;) {
+			if (this.index >= this.text.length) {
+				this.index = start;
+				this.fail("Unterminated string");
+			}
+
+			const c: string = this.text[this.index];
+
+			if (c === quote) {
+				this.index++;
+				return result;
+			}
+
+			if (this.settings.json5 && "\n\r".includes(c))
+				this.fail("Line break in string");
+			if (!this.settings.json5 && c < " ")
+				this.fail("Control character in string");
+
+			if (c !== "\\") {
+				result += c;
+				this.index++;
+				continue;
+			}
+
+			if (this.settings.json5)
+				result += this.parseJson5Escape();
+			else
+				result += this.parseEscape();
+		}
+	}
+
+	private parseEscape(): string {
+		const escape: string = this.text[this.index + 1];
+		if (ESCAPES.has(escape)) {
+			this.index += 2;
+			return ESCAPES.get(escape);
+		}
+
+		if (escape === "u") return this.parseHexEscape(4);
+
+		this.fail("Invalid escape sequence");
+	}
+
+	private parseJson5Escape(): string {
+		const escape: string = this.text[this.index + 1];
+		if (JSON5_ESCAPES.has(escape)) {
+			this.index += 2;
+			return JSON5_ESCAPES.get(escape);
+		}
+
+		if (escape === "u") return this.parseHexEscape(4);
+		if (escape === "x") return this.parseHexEscape(2);
+
+		if (escape === "0" && !/[0-9]/.test(this.text[this.index + 2] ?? "")) {
+			this.index += 2;
+			return "\0";
+		}
+
+		if (escape === undefined || /[0-9]/.test(escape))
+			this.fail("Invalid escape sequence");
+
+		// A backslash before a line terminator continues the string on the next line.
+		this.index += 2;
+		if (JSON5_LINE_TERMINATORS.includes(escape)) {
+			if (escape === "\r" && this.text[this.index] === "\n") this.index++;
+			return "";
+		}
+
+		// Any other character is escaped to itself.
+		return escape;
+	}
+
+	private parseHexEscape(length: number): string {
+		const hex: string = this.text.substring(this.index + 2, this.index + 2 + length);
+		if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+			const kind: string = length === 4 ? "unicode" : "hexadecimal";
+			this.fail(`Invalid ${kind} escape sequence`);
+		}
+
+		this.index += 2 + length;
+		return String.fromCharCode(parseInt(hex, 16));
+	}
+
+	private parseNumber(): number {
+		NUMBER_REGEX.lastIndex = this.index;
+		const match: RegExpExecArray = NUMBER_REGEX.exec(this.text);
+
+		if (!match || /[0-9.eE+-]/.test(this.text[this.index + match[0].length] ?? ""))
+			this.fail("Invalid number");
+
+		this.index += match[0].length;
+		return Number(match[0]);
+	}
+
+	private parseJson5Number(): number {
+		JSON5_NUMBER_REGEX.lastIndex = this.index;
+		const match: RegExpExecArray = JSON5_NUMBER_REGEX.exec(this.text);
+
+		if (!match || /[0-9A-Za-z_$.]/.test(this.text[this.index + match[0].length] ?? ""))
+			this.fail("Invalid number");
+
+		this.index += match[0].length;
+
+		const sign: number = match[0].startsWith("-") ? -1 : 1;
+		const unsigned: string = match[0].replace(/^[+-]/, "");
+		if (unsigned === "Infinity") return sign * Infinity;
+		if (/^0[xX]/.test(unsigned)) return sign * parseInt(unsigned.substring(2), 16);
+		return sign * Number(unsigned);
+	}
+
+	private parseLiteral(literal: string, value: boolean | null): boolean | null {
+		if (!this.text.startsWith(literal, this.index))
+			this.fail(`Unexpected ${this.describeCurrent()}, expected a value`);
+
+		this.index += literal.length;
+		return value;
+	}
+
+	private expect(c: string) {
+		if (this.text[this.index] !== c)
+			this.fail(`Unexpected ${this.describeCurrent()}, expected '${c}'`);
+		this.index++;
+	}
+
+	/**
+	 * Skip the closing character after a trailing comma, if trailing commas are allowed.
+	 *
+	 * @param close The closing character of the array or object.
+	 * @returns **true** if the closing character was skipped.
+	 */
+	private skipTrailingComma(close: string): boolean {
+		if (!this.settings.allowTrailingCommas || this.text[this.index] !== close)
+			return false;
+
+		this.index++;
+		return true;
+	}
+
+	private skipWhitespace() {
+		while (this.index < this.text.length) {
+			if (this.isWhitespace(this.text[this.index]))
+				this.index++;
+			else if (this.settings.allowComments && this.text[this.index] === "/")
+				this.skipComment();
+			else
+				break;
+		}
+	}
+
+	private isWhitespace(c: string): boolean {
+		if (this.settings.json5) return JSON5_WHITESPACE_REGEX.test(c);
+		return " \t\n\r".includes(c);
+	}
+
+	private skipComment() {
+		const next: string = this.text[this.index + 1];
+
+		if (next === "/") {
+			while (
+				this.index < this.text.length &&
+				!JSON5_LINE_TERMINATORS.includes(this.text[this.index])
+			) {
+				this.index++;
+			}
+			return;
+		}
+
+		if (next !== "*")
+			this.fail(`Unexpected ${this.describeCurrent()}, expected a comment`);
+
+		const end: number = this.text.indexOf("*/", this.index + 2);
+		if (end < 0) this.fail("Unterminated comment");
+		this.index = end + 2;
+	}
+
+	private describeCurrent(): string {
+		if (this.index >= this.text.length) return "end of input";
+		return `character '${this.text[this.index]}'`;
+	}
+
+	private currentPosition(): SourcePosition {
+		return this.lineIndex.getPosition(this.index);
+	}
+
+	private fail(detail: string): never {
+		throw new ConfigSyntaxError(detail, this.currentPosition(), this.source);
+	}
+}
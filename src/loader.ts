@@ -0,0 +1,174 @@
+/**
+ * Configuration loader module.
+ *
+ * The configuration of an application is often built from multiple layers, like built-in
+ * defaults, a shipped file, a site specific file and runtime overrides. The loader reads these
+ * sources, merges them in order, and validates the merged configuration once.
+ */
+import { ConfigElement, Infer } from "./elements";
+import { ConfigFileError } from "./file";
+import { ConfigFormat, createReader } from "./formats";
+import { mergeDocuments } from "./merge";
+import { ConfigParser, ConfigParserOptions } from "./parser";
+import { ConfigReader, SourceDocument } from "./reader";
+
+/**
+ * Source with a value that is already parsed, like built-in defaults or runtime overrides.
+ */
+export interface ValueSource {
+	/**
+	 * The value of the source.
+	 */
+	value: unknown;
+
+	/**
+	 * Optional name of the source, used in error messages.
+	 */
+	name?: string;
+}
+
+/**
+ * Source with a configuration text.
+ */
+export interface TextSource {
+	/**
+	 * The configuration text.
+	 */
+	text: string;
+
+	/**
+	 * The format of the text. Default is the format, or the reader, of the loader.
+	 */
+	format?: ConfigFormat;
+
+	/**
+	 * Optional name of the source, used in error messages.
+	 */
+	name?: string;
+}
+
+/**
+ * Source with the path of a configuration file, which is read like
+ * {@link ConfigParser.parseFile()} reads a file.
+ */
+export interface FileSource {
+	/**
+	 * Path of the configuration file.
+	 */
+	file: string;
+
+	/**
+	 * Skip the source in case the file does not exist. Default is **false**.
+	 */
+	optional?: boolean;
+}
+
+/**
+ * A source of configuration for a {@link ConfigLoader}.
+ */
+export type ConfigSource = ValueSource | TextSource | FileSource;
+
+/**
+ * Configuration loader.
+ *
+ * The loader merges an ordered list of sources with {@link mergeDocuments()}, where every
+ * source overrides the sources before it, and validates the merged configuration like
+ * {@link ConfigParser.parse()}. Errors carry the position and name of the source that the
+ * offending value comes from.
+ */
+export class ConfigLoader<E extends ConfigElement = ConfigElement, D extends boolean = true> {
+	private root: E;
+	private sources: ConfigSource[];
+	private parser: ConfigParser<E, D>;
+	private reader: ConfigReader;
+
+	/**
+	 * Creates a ConfigLoader instance. The sources are read every time the configuration is
+	 * loaded.
+	 *
+	 * @param root The root element that is used to merge and validate the configuration.
+	 * @param sources The sources, in order of increasing precedence.
+	 * @param options Configuration parser options, used to validate the merged configuration.
+	 */
+	constructor(
+		root: E, sources: ConfigSource[],
+		options?: ConfigParserOptions & {applyDefaultValues?: D}
+	) {
+		this.root = root;
+		this.sources = [...sources];
+		this.parser = new ConfigParser(root, options);
+		this.reader = options?.reader ?? createReader(options?.format ?? "json");
+	}
+
+	/**
+	 * Read and merge all sources, and validate the merged configuration.
+	 *
+	 * @returns An object representation of the merged configuration.
+	 * @throws ConfigFileError: A file cannot be read, or is not correctly encoded.
+	 * @throws ConfigIncludeError: A directive in a file cannot be resolved.
+	 * @throws ConfigParseFailureError: The merged configuration is invalid.
+	 * @throws ConfigSyntaxError: The text of a source could not be read.
+	 */
+	public load(): Infer<E, D> {
+		const documents: SourceDocument[] = [];
+		for (const source of this.sources) {
+			if (!("file" in source)) {
+				documents.push(this.readSource(source));
+				continue;
+			}
+
+			try {
+				documents.push(this.parser.readFile(source.file));
+			}
+			catch (err) {
+				if (!source.optional || !isMissingFile(err)) throw err;
+			}
+		}
+
+		return this.parser.parseDocument(mergeDocuments(this.root, documents));
+	}
+
+	/**
+	 * Read and merge all sources like {@link load()}, but read the files asynchronously.
+	 *
+	 * @returns A promise of an object representation of the merged configuration.
+	 */
+	public async loadAsync(): Promise<Infer<E, D>> {
+		const documents: SourceDocument[] = [];
+		for (const source of this.sources) {
+			if (!("file" in source)) {
+				documents.push(this.readSource(source));
+				continue;
+			}
+
+			try {
+				documents.push(await this.parser.readFileAsync(source.file));
+			}
+			catch (err) {
+				if (!source.optional || !isMissingFile(err)) throw err;
+			}
+		}
+
+		return this.parser.parseDocument(mergeDocuments(this.root, documents));
+	}
+
+	private readSource(source: ValueSource | TextSource): SourceDocument {
+		if ("text" in source) {
+			const reader: ConfigReader =
+				source.format ? createReader(source.format) : this.reader;
+			return reader.read(source.text, source.name);
+		}
+
+		return {
+			value: source.value,
+			positions: new Map(),
+			keyPositions: new Map(),
+			source: source.name
+		};
+	}
+}
+
+function isMissingFile(err: unknown): boolean {
+	if (!(err instanceof ConfigFileError)) return false;
+	return (err.cause as NodeJS.ErrnoException)?.code === "ENOENT";
+}
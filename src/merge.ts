@@ -0,0 +1,235 @@
+/**
+ * Configuration merge module.
+ *
+ * Configuration is often built from multiple layers, like built-in defaults, a shipped file, a
+ * site specific file and runtime overrides. This module merges these layers into a single value
+ * tree, following the elements of the configuration.
+ */
+import { convertStringValue } from "./convert";
+import { ArrayElement, ConfigElement, ObjectElement } from "./elements";
+import { ROOT_PATH, childPath, indexPath } from "./path";
+import {
+	SourceDocument,
+	SourcePosition,
+	copyLocations,
+	findSource,
+	removeLocations
+} from "./reader";
+import { copyValue, getOwnValue, isObject, setProperty } from "./value";
+
+/**
+ * Merge documents into a single document, where the values of a document override the values
+ * of the documents before it.
+ *
+ * The merge follows the elements of the configuration:
+ *
+ * - An object of an **ObjectElement** is merged key by key with the object of the documents
+ *   before it. Keys that are absent keep their value.
+ * - An array of an **ArrayElement** is merged with the array of the documents before it with
+ *   the merge strategy of the element, see {@link ArrayElement.setMergeStrategy()}. By default
+ *   the array replaces the array before it.
+ * - All other values, including objects without an element, replace the value of the
+ *   documents before it.
+ * - **null** is a value like any other, so it replaces the value of the documents before it,
+ *   also if that is an object. An object that overrides **null** is not merged with anything.
+ * - **undefined**, which can only occur in documents that are not read from a text, is the
+ *   same as an absent key, and keeps the value of the documents before it.
+ *
+ * Without an element, all objects are merged key by key, and all other values are replaced.
+ *
+ * The documents themselves are not changed, and the merged document has the positions and
+ * sources of every value of the document that the value comes from. A merged object or array
+ * has the position of the last document that has one for it. Strings of documents with only
+ * string values are converted to the type of their element.
+ *
+ * @param element The root element of the configuration, or **undefined** to merge without
+ *                elements.
+ * @param documents The documents to merge, in order of increasing precedence.
+ * @returns The merged document.
+ */
+export function mergeDocuments(
+	element: ConfigElement, documents: SourceDocument[]
+): SourceDocument {
+	const merged: SourceDocument = {
+		value: undefined,
+		positions: new Map(),
+		keyPositions: new Map(),
+		sources: new Map()
+	};
+
+	for (const document of documents) {
+		const merger: DocumentMerger = new DocumentMerger(merged, document, !element);
+		merged.value =
+			merger.merge(ROOT_PATH, ROOT_PATH, element, merged.value, document.value);
+	}
+
+	return merged;
+}
+
+/**
+ * Merge values into a single value, like {@link mergeDocuments()}, for values that are not read
+ * from a text.
+ *
+ * @param element The root element of the configuration, or **undefined** to merge without
+ *                elements.
+ * @param values The values to merge, in order of increasing precedence.
+ * @returns The merged value.
+ */
+export function mergeValues(element: ConfigElement, ...values: unknown[]): unknown {
+	return mergeDocuments(element, values.map(value => ({
+		value,
+		positions: new Map(),
+		keyPositions: new Map()
+	}))).value;
+}
+
+/**
+ * Merger of the values of a single document over the merged document.
+ */
+class DocumentMerger {
+	private to: SourceDocument;
+	private from: SourceDocument;
+	private mergeAllObjects: boolean;
+
+	/**
+	 * @param to The merged document.
+	 * @param from The document to merge.
+	 * @param mergeAllObjects Merge objects without an element key by key.
+	 */
+	constructor(to: SourceDocument, from: SourceDocument, mergeAllObjects: boolean) {
+		this.to = to;
+		this.from = from;
+		this.mergeAllObjects = mergeAllObjects;
+	}
+
+	/**
+	 * Merge a value of the document over a value of the merged document.
+	 *
+	 * @param toPath Path of the value in the merged document.
+	 * @param fromPath Path of the value in the document.
+	 * @param ce The element of the value, or **undefined** if the value has no element.
+	 * @param base The value in the merged document.
+	 * @param value The value in the document.
+	 * @returns The merged value.
+	 */
+	public merge(
+		toPath: string, fromPath: string, ce: ConfigElement, base: unknown, value: unknown
+	): unknown {
+		if (value === undefined) return base;
+
+		if (isObject(value) && (ce instanceof ObjectElement || this.mergeAllObjects))
+			return this.mergeObject(toPath, fromPath, ce, base, value as object);
+
+		if (ce instanceof ArrayElement && ce.getMergeStrategy() !== "replace" &&
+			Array.isArray(base) && Array.isArray(value))
+			return this.mergeArray(toPath, fromPath, ce, base, value);
+
+		return this.replace(toPath, fromPath, ce, value);
+	}
+
+	private mergeObject(
+		toPath: string, fromPath: string, ce: ConfigElement,
+		base: unknown, value: object
+	): object {
+		let object = base as object;
+		if (!isObject(base)) {
+			removeLocations(this.to, toPath);
+			object = {};
+			this.copyLocation(toPath, fromPath);
+		}
+		else if (this.from.positions.has(fromPath)) {
+			this.keepSources(Object.keys(object).map(key => childPath(toPath, key)));
+			this.copyLocation(toPath, fromPath);
+		}
+
+		for (const key of Object.keys(value)) {
+			const childCe: ConfigElement =
+				ce instanceof ObjectElement ? ce.getChild(key) : undefined;
+			const merged: unknown = this.merge(
+				childPath(toPath, key), childPath(fromPath, key), childCe,
+				getOwnValue(object, key), value[key as keyof object]
+			);
+			if (merged !== undefined) setProperty(object, key, merged);
+		}
+
+		return object;
+	}
+
+	private mergeArray(
+		toPath: string, fromPath: string, ce: ArrayElement,
+		base: unknown[], value: unknown[]
+	): unknown[] {
+		if (this.from.positions.has(fromPath)) {
+			this.keepSources(base.map((_, i) => indexPath(toPath, i)));
+			this.copyLocation(toPath, fromPath);
+		}
+
+		const baseLength: number = base.length;
+		value.forEach((item, i) => {
+			const itemFromPath: string = indexPath(fromPath, i);
+			const match: number = ce.getMergeStrategy() === "mergeByKey" ?
+				findByKey(base.slice(0, baseLength), item, ce.getMergeKey()) : -1;
+
+			if (match >= 0) {
+				base[match] = this.merge(
+					indexPath(toPath, match), itemFromPath,
+					ce.getItemElement(item, match), base[match], item
+				);
+				return;
+			}
+
+			const index: number = base.length;
+			const itemCe: ConfigElement = ce.getItemElement(item, index);
+			const itemToPath: string = indexPath(toPath, index);
+			base.push(this.replace(itemToPath, itemFromPath, itemCe, item));
+		});
+
+		return base;
+	}
+
+	private replace(
+		toPath: string, fromPath: string, ce: ConfigElement, value: unknown
+	): unknown {
+		removeLocations(this.to, toPath);
+		copyLocations(this.from, fromPath, this.to, toPath);
+		// Strings of documents that only have strings get the type of their element.
+		const copy: unknown = copyValue(value);
+		return this.from.stringValues && ce ? convertStringValue(copy, ce) : copy;
+	}
+
+	/**
+	 * Record the current source of values, so they keep it when their parent gets another
+	 * source.
+	 */
+	private keepSources(paths: string[]) {
+		paths.filter(path => !this.to.sources.has(path))
+			.forEach(path => this.to.sources.set(path, findSource(this.to, path)));
+	}
+
+	/**
+	 * Copy the position and source of a value, without the values below it.
+	 */
+	private copyLocation(toPath: string, fromPath: string) {
+		const position: SourcePosition = this.from.positions.get(fromPath);
+		const keyPosition: SourcePosition = this.from.keyPositions.get(fromPath);
+
+		this.to.sources.set(toPath, findSource(this.from, fromPath));
+		if (position) this.to.positions.set(toPath, position);
+		if (keyPosition) this.to.keyPositions.set(toPath, keyPosition);
+	}
+}
+
+/**
+ * Find the object in an array that has the same value for a key as an object.
+ *
+ * @returns The index of the object in the array, or -1 if there is none.
+ */
+function findByKey(array: unknown[], item: unknown, key: string): number {
+	const id: unknown = getKeyValue(item, key);
+	if (id === undefined) return -1;
+	return array.findIndex(other => getKeyValue(other, key) === id);
+}
+
+function getKeyValue(item: unknown, key: string): unknown {
+	return isObject(item) ? getOwnValue(item as object, key) : undefined;
+}
@@ -0,0 +1,169 @@
+/**
+ * Configuration migration module.
+ *
+ * The format of a configuration changes between releases of an application. A root element
+ * can declare the key and the current version of the configuration, and the migrations from
+ * every version to the next, see {@link ObjectElement.setVersion()}. This module migrates a
+ * configuration with an older version before it is validated.
+ */
+import { isDeepStrictEqual } from "node:util";
+
+import { ConfigElement, ConfigMigration, ObjectElement } from "./elements";
+import { ROOT_PATH, childPath, indexPath } from "./path";
+import { SourceDocument, SourcePosition, findSource, formatPosition } from "./reader";
+import { copyValue, getOwnValue, hasOwnKey, isObject, setProperty } from "./value";
+
+/**
+ * The version of a configuration without a version key.
+ */
+export const INITIAL_VERSION: number = 1;
+
+/**
+ * A configuration that is migrated to the current version.
+ */
+export interface ConfigMigrationResult {
+	/**
+	 * The version of the configuration before the migration.
+	 */
+	fromVersion: number;
+
+	/**
+	 * The version of the configuration after the migration, the current version.
+	 */
+	toVersion: number;
+
+	/**
+	 * The migrated configuration, before it is validated, so without default values and with
+	 * all fields. This can be written back to upgrade the configuration file.
+	 */
+	value: unknown;
+}
+
+/**
+ * Migrate the value of a document to the current version of the root element, in case the
+ * root element has a version, and the document has an older version.
+ *
+ * The migrations of all versions from the version of the document up to the current version
+ * run in order, on a copy of the value, and the version key of the migrated value is set to
+ * the current version. Values that are not objects are not migrated, which leaves them to the
+ * validation.
+ *
+ * @param document The document to migrate.
+ * @param element The root element of the configuration.
+ * @returns The migrated value, or **undefined** in case the document does not need a
+ *          migration.
+ * @throws ConfigVersionError: The version of the document is not valid, or newer than the
+ *         current version, or a migration is missing or does not return an object.
+ */
+export function migrateDocument(
+	document: SourceDocument, element: ConfigElement
+): ConfigMigrationResult {
+	if (!(element instanceof ObjectElement) || element.getVersionKey() === undefined)
+		return undefined;
+	if (!isObject(document.value)) return undefined;
+
+	const key: string = element.getVersionKey();
+	const current: number = element.getVersion();
+	const path: string = childPath(ROOT_PATH, key);
+	const fail = (detail: string): ConfigVersionError => new ConfigVersionError(
+		detail, path, document.positions.get(path), findSource(document, path)
+	);
+
+	const object = document.value as Record<string, unknown>;
+	const version: unknown = hasOwnKey(object, key) ? object[key] : INITIAL_VERSION;
+	if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+		throw fail(
+			`Invalid version ${JSON.stringify(version)}, expected a positive integer`
+		);
+	}
+	if (version > current)
+		throw fail(`Version ${version} is newer than the supported version ${current}`);
+	if (version === current) return undefined;
+
+	let value = copyValue(object) as Record<string, unknown>;
+	for (let from: number = version; from < current; from++) {
+		const migration: ConfigMigration = element.getMigration(from);
+		if (!migration) throw fail(`No migration from version ${from} to ${from + 1}`);
+
+		// A migration that changes the configuration in place does not need to return it.
+		const migrated: unknown = migration(value) ?? value;
+		if (!isObject(migrated)) {
+			throw fail(`Migration from version ${from} to ${from + 1} did not return ` +
+				"an object");
+		}
+		value = migrated as Record<string, unknown>;
+	}
+	setProperty(value, key, current);
+
+	return {fromVersion: version, toVersion: current, value};
+}
+
+/**
+ * Create the document of a migrated value. The text of a document does not follow values that
+ * a migration renames, moves or changes, so only the positions of values that are the same
+ * before and after the migration, at the same path, are kept. Errors in other values only name
+ * the source of the document.
+ *
+ * @param document The document before the migration.
+ * @param value The migrated value, see {@link migrateDocument()}.
+ * @returns The document with the migrated value.
+ */
+export function createMigratedDocument(
+	document: SourceDocument, value: unknown
+): SourceDocument {
+	const migrated: SourceDocument = {
+		...document,
+		value,
+		positions: new Map(),
+		keyPositions: new Map()
+	};
+	keepPositions(document, migrated, document.value, value, ROOT_PATH);
+	return migrated;
+}
+
+function keepPositions(
+	document: SourceDocument, migrated: SourceDocument,
+	original: unknown, value: unknown, path: string
+) {
+	if (isDeepStrictEqual(original, value)) {
+		if (document.positions.has(path))
+			migrated.positions.set(path, document.positions.get(path));
+		if (document.keyPositions.has(path))
+			migrated.keyPositions.set(path, document.keyPositions.get(path));
+	}
+
+	if (Array.isArray(original) && Array.isArray(value)) {
+		value.slice(0, original.length).forEach((item, i) => keepPositions(
+			document, migrated, original[i], item, indexPath(path, i)
+		));
+	}
+	else if (isObject(original) && isObject(value)) {
+		for (const key of Object.keys(value)) {
+			if (!hasOwnKey(original as object, key)) continue;
+			keepPositions(
+				document, migrated, getOwnValue(original as object, key),
+				getOwnValue(value as object, key), childPath(path, key)
+			);
+		}
+	}
+}
+
+/**
+ * Error thrown in case a configuration cannot be migrated to the current version.
+ */
+export class ConfigVersionError extends Error {
+	public readonly code: string = "UNSUPPORTED_VERSION";
+	public readonly detail: string;
+	public readonly path: string;
+	public readonly position: SourcePosition;
+	public readonly source: string;
+
+	constructor(detail: string, path: string, position?: SourcePosition, source?: string) {
+		const location: string = position ? formatPosition(position, source) : source;
+		super(`${location ? `${location} ` : ""}${path}: ${detail}`);
+		this.detail = detail;
+		this.path = path;
+		this.position = position;
+		this.source = source;
+	}
+}
@@ -6,16 +6,52 @@
  * user input string which can be any string, it disables a lot of eslint rules and expects a few
  * ts errors.
  */
+import * as nodePath from "node:path";
+
+import { ConfigArgumentError, ParsedArguments, parseArguments } from "./args";
+import { coerceArrayItem, coerceValue, convertStringValue } from "./convert";
 import {
 	ArrayElement,
 	BooleanElement,
 	ConfigElement,
 	ConfigElementType,
+	Infer,
 	JSONType,
 	NumberElement,
 	ObjectElement,
+	PrimitiveElement,
 	StringElement
 } from "./elements";
+import { Environment, readEnvironment } from "./env";
+import {
+	ConfigFileError,
+	getFileFormat,
+	readConfigFile,
+	readConfigFileAsync
+} from "./file";
+import { ConfigFormat, createReader } from "./formats";
+import { resolveDirectives, resolveDirectivesAsync } from "./include";
+import { interpolateString, parseReferenceKeys } from "./interpolation";
+import { JsonReader } from "./json";
+import { mergeDocuments } from "./merge";
+import {
+	ConfigMigrationResult,
+	ConfigVersionError,
+	createMigratedDocument,
+	migrateDocument
+} from "./migration";
+import { ROOT_PATH, childPath, indexPath, parentPath } from "./path";
+import {
+	ConfigReader,
+	ConfigSyntaxError,
+	SourceDocument,
+	SourcePosition,
+	findSource,
+	formatPosition
+} from "./reader";
+import { SECRET_MASK, redactSecrets } from "./secret";
+import { findSuggestion } from "./suggest";
+import { copyValue, getOwnValue, hasOwnKey, isExtensibleValue, isObject } from "./value";
 
 /**
  * Configuration parser options.
@@ -28,9 +64,9 @@ export interface ConfigParserOptions {
 	 * Throw an error when the first error occurs. Default is **false**.
 	 * 
 	 * If **true**, the parse will throw an error when the first error is encountered. If
-	 * ** false**, the parser will attempt to parse the entire configuration, and store
-	 * all errors that occur. The {@link ConfigParser.getErrors()} method can be used to
-	 * get the list of errors that occurred.
+	 * ** false**, the parser will attempt to parse the entire configuration, and collect
+	 * all errors that occur in the {@link ConfigParseFailureError} that is thrown, or in the
+	 * {@link ParseResult} that is returned.
 	 */
 	throwOnFirstError?: boolean;
 
@@ -43,6 +79,13 @@ export interface ConfigParserOptions {
 	 */
 	pruneUnknownElements?: boolean;
 
+	/**
+	 * Report unknown fields as errors instead of warnings. Default is **false**. Objects can
+	 * override this with {@link ObjectElement.setStrict()}, which also applies to the objects
+	 * below them.
+	 */
+	strict?: boolean;
+
 	/**
 	 * Prune all elements that as a key start with a $.
 	 * 
@@ -53,32 +96,304 @@ export interface ConfigParserOptions {
 	 * be achieved. The default value for this setting is **true**.
 	 */
 	pruneDollarElements?: boolean;
+
+	/**
+	 * Apply default values of optional elements that are absent. Default is **true**.
+	 * 
+	 * If set to **true**, the parser will add the default value of every optional
+	 * **PrimitiveElement** that is missing from its parent object to the parsed configuration.
+	 * The default value is validated like any other value, so it has to satisfy the ranges,
+	 * valid values and custom validators of the element.
+	 */
+	applyDefaultValues?: boolean;
+
+	/**
+	 * The format of the configuration text. Default is **json**.
+	 * 
+	 * The format selects the reader that turns the text into a value tree, in case no
+	 * {@link reader} is given. Use **jsonc** to allow comments and trailing commas.
+	 */
+	format?: ConfigFormat;
+
+	/**
+	 * The reader that turns the configuration text into a value tree. Default is the reader of
+	 * the {@link format}, a {@link JsonReader} if no format is given.
+	 */
+	reader?: ConfigReader;
+
+	/**
+	 * The environment variables that override values of the configuration. Default is
+	 * **process.env**.
+	 * 
+	 * Elements with an environment variable, see
+	 * {@link ConfigElement.setEnvironmentVariable()}, and all elements in case an
+	 * {@link envPrefix} is given, are overridden by their environment variable before the
+	 * configuration is validated, see {@link readEnvironment()}.
+	 */
+	env?: Environment;
+
+	/**
+	 * Prefix of the environment variables of elements that do not have one, like **APP_**,
+	 * see {@link deriveVariableName()}. Default is **undefined**, which only reads the
+	 * environment variables that are set on elements.
+	 */
+	envPrefix?: string;
+
+	/**
+	 * Command line arguments that override values of the configuration, like
+	 * **process.argv.slice(2)**. Default is **undefined**, which does not read arguments.
+	 * 
+	 * The options of the arguments, see {@link parseArguments()}, override the values of the
+	 * configuration and of the environment variables before the configuration is validated.
+	 * Only a root {@link ObjectElement} has options. The **--help** and **-h** options are
+	 * rejected, so check the **help** of {@link parseArguments()} before the configuration
+	 * is parsed.
+	 */
+	argv?: string[];
+
+	/**
+	 * Replace references in the values of all string elements before they are validated, like
+	 * **${env:HOME}**, **${ref:paths.base}** and **${file:./secret.txt}**. Default is
+	 * **false**. Elements can override this with {@link StringElement.setInterpolation()}.
+	 */
+	interpolate?: boolean;
+
+	/**
+	 * Coerce strings to the type of their element before validation, like **"42"** for a
+	 * {@link NumberElement}, see {@link coerceValue()}. Default is **false**. Every coercion
+	 * is recorded in the {@link ParseResult}.
+	 */
+	coerceTypes?: boolean;
+
+	/**
+	 * Validate a copy of the input, so the input is never changed. Default is **false**.
+	 * 
+	 * Without this option, the parser prunes fields, adds default values and replaces coerced
+	 * and interpolated values in the value it validates, and returns that same value. With
+	 * this option, a value passed to {@link ConfigParser.validate()} or
+	 * {@link ConfigParser.parseDocument()} is left as is, and the parser returns a fresh
+	 * object. A value that is frozen, or has frozen objects or arrays in it, is always copied.
+	 */
+	copyInput?: boolean;
+
+	/**
+	 * Deep freeze the parsed configuration, so it cannot be changed at runtime. Default is
+	 * **false**. Without the {@link copyInput} option, this freezes the value that is passed
+	 * to {@link ConfigParser.validate()}.
+	 */
+	freeze?: boolean;
 }
 
-export class ConfigParser {
 
-	private errors: Error[] = [];
-	private throwOnFirstError: boolean = false;
-	private pruneUnknownElements: boolean = false;
-	private pruneDollarElements: boolean = true;
+/**
+ * Location of an error in the parsed configuration.
+ * 
+ * The parser attaches this information to every error it collects, including errors that are
+ * thrown by custom validators.
+ */
+export interface ErrorLocation {
+	/**
+	 * JSON path of the offending value, for example **$.books[3].year**.
+	 */
+	path: string;
 
-	private root: ConfigElement;
+	/**
+	 * The ConfigElement that rejected the value.
+	 */
+	element: ConfigElement;
+
+	/**
+	 * The offending value, or **undefined** in case the value is missing.
+	 */
+	value: unknown;
+
+	/**
+	 * Position of the offending value in the source text. For a missing value this is the
+	 * position of the closest ancestor that is present.
+	 */
+	position?: SourcePosition;
+
+	/**
+	 * Name of the source, as passed to {@link ConfigParser.parse()}.
+	 */
+	source?: string;
+}
+
+/**
+ * An error collected by the parser, which always carries its {@link ErrorLocation}.
+ */
+export type LocatedError = Error & ErrorLocation;
+
+/**
+ * Plain description of an error or warning found while parsing a configuration.
+ */
+export interface ConfigIssue {
+	/**
+	 * Code that identifies the kind of issue, for example **INVALID_TYPE**. Errors thrown by
+	 * custom validators have the **VALIDATOR_ERROR** code.
+	 */
+	code: string;
+
+	/**
+	 * The message of the error, including the location.
+	 */
+	message: string;
+
+	/**
+	 * JSON path of the offending value.
+	 */
+	path: string;
+
+	/**
+	 * Position of the offending value, if known.
+	 */
+	position?: SourcePosition;
+
+	/**
+	 * Name of the source, if known.
+	 */
+	source?: string;
+
+	/**
+	 * The error that describes the issue.
+	 */
+	error: Error;
+}
+
+/**
+ * A string that is coerced to the type of its element, with the **coerceTypes** parser option.
+ */
+export interface TypeCoercion {
+	/**
+	 * JSON path of the value.
+	 */
+	path: string;
+
+	/**
+	 * The string before coercion, or {@link SECRET_MASK} for a secret value.
+	 */
+	original: string;
+
+	/**
+	 * The coerced value, or {@link SECRET_MASK} for a secret value.
+	 */
+	value: unknown;
+
+	/**
+	 * Position of the string in the source text, if known.
+	 */
+	position?: SourcePosition;
+
+	/**
+	 * Name of the source, if known.
+	 */
+	source?: string;
+}
+
+/**
+ * Result of a successful {@link ConfigParser.safeParse()} or {@link ConfigParser.validate()}.
+ */
+export interface ParseSuccess<T = unknown> {
+	success: true;
+	value: T;
+	warnings: ConfigIssue[];
+	coercions: TypeCoercion[];
+	migration?: ConfigMigrationResult;
+}
+
+/**
+ * Result of a failed {@link ConfigParser.safeParse()} or {@link ConfigParser.validate()}.
+ */
+export interface ParseFailure {
+	success: false;
+	errors: ConfigIssue[];
+	warnings: ConfigIssue[];
+	coercions: TypeCoercion[];
+	migration?: ConfigMigrationResult;
+}
+
+/**
+ * Result of the non-throwing parse methods. Check the **success** flag to narrow the type.
+ */
+export type ParseResult<T = unknown> = ParseSuccess<T> | ParseFailure;
+
+/**
+ * Result of {@link ConfigParser.check()}.
+ */
+export interface CheckResult {
+	success: boolean;
+	errors: ConfigIssue[];
+	warnings: ConfigIssue[];
+}
+
+/**
+ * Configuration parser.
+ * 
+ * The parser validates configurations against a root ConfigElement. In case the root element is
+ * created with the {@link ConfigElementBuilder}, the parse methods return the {@link Infer} type
+ * of the root element. The type parameter **D** follows the **applyDefaultValues** option.
+ */
+export class ConfigParser<E extends ConfigElement = ConfigElement, D extends boolean = true> {
+
+	private options: Required<ConfigParserOptions> = {
+		throwOnFirstError: false,
+		pruneUnknownElements: false,
+		strict: false,
+		pruneDollarElements: true,
+		applyDefaultValues: true,
+		format: "json",
+		reader: new JsonReader(),
+		env: process.env,
+		envPrefix: undefined,
+		argv: undefined,
+		interpolate: false,
+		coerceTypes: false,
+		copyInput: false,
+		freeze: false
+	};
+
+	private root: E;
+
+	/**
+	 * Errors of the most recent parse, only kept for {@link getErrors()}.
+	 */
+	private lastErrors: LocatedError[] = [];
 
 	/**
 	 * Creates a ConfigParser instance.
 	 * 
+	 * A ConfigParser instance does not keep any state between parses, so one instance can be
+	 * used to parse any number of configurations.
+	 * 
 	 * @param root The root element that is used to validate the parsed configuration.
 	 * @param options Configuration parser options
 	 */
-	constructor(root: ConfigElement, options?: ConfigParserOptions) {
+	constructor(root: E, options?: ConfigParserOptions & {applyDefaultValues?: D}) {
 		this.root = root;
 
 		if (!options) return;
 
-		this.pruneUnknownElements = !!options.pruneUnknownElements;
-		this.throwOnFirstError = !!options.throwOnFirstError;
+		this.options.pruneUnknownElements = !!options.pruneUnknownElements;
+		this.options.strict = !!options.strict;
+		this.options.throwOnFirstError = !!options.throwOnFirstError;
 		if (options.pruneDollarElements !== undefined)
-			this.pruneDollarElements = options.pruneDollarElements;
+			this.options.pruneDollarElements = options.pruneDollarElements;
+		if (options.applyDefaultValues !== undefined)
+			this.options.applyDefaultValues = options.applyDefaultValues;
+		if (options.format) {
+			this.options.format = options.format;
+			this.options.reader = createReader(options.format);
+		}
+		if (options.reader)
+			this.options.reader = options.reader;
+		if (options.env)
+			this.options.env = options.env;
+		this.options.envPrefix = options.envPrefix;
+		this.options.argv = options.argv;
+		this.options.interpolate = !!options.interpolate;
+		this.options.coerceTypes = !!options.coerceTypes;
+		this.options.copyInput = !!options.copyInput;
+		this.options.freeze = !!options.freeze;
 	}
 
 	/**
@@ -86,27 +401,407 @@ export class ConfigParser {
 	 * on the options, unknown elements can be pruned from the object.
 	 * 
 	 * In case the option to throw on the first error is set, the actual validation error is
-	 * thrown. If the option is not set to true, a ConfigParseFailureError will be thrown, and
-	 * the {@link getErrors()} method can be used to get the list of errors that was encountered
-	 * during parsing.
+	 * thrown. If the option is not set to true, a ConfigParseFailureError will be thrown, which
+	 * holds all errors that were encountered during parsing.
+	 * 
+	 * Text that cannot be read at all, like invalid JSON, results in a ConfigSyntaxError with
+	 * the position of the problem.
 	 * 
 	 * @param jsonString The JSON string to parse.
+	 * @param source Optional name of the source, like a file name, used in error messages.
 	 * @returns An object representation of the passed JSON string.
+	 * @throws ConfigArgumentError: The command line arguments cannot be parsed.
+	 * @throws ConfigParseFailureError: Failed to parse configuration.
+	 * @throws ConfigSyntaxError: The text could not be read.
+	 * @throws ConfigVersionError: The configuration cannot be migrated to the current version.
+	 */
+	public parse(jsonString: string, source?: string): Infer<E, D> {
+		return this.parseDocument(this.options.reader.read(jsonString, source));
+	}
+
+	/**
+	 * Read and parse a configuration file like {@link parse()}, with the path of the file as
+	 * source in all errors.
+	 * 
+	 * The reader is selected from the extension of the file, see {@link getFileFormat()}.
+	 * Files with an unknown extension are read with the reader of the parser. The file is
+	 * decoded as UTF-8, or as UTF-16 in case it starts with a UTF-16 byte order mark.
+	 * 
+	 * The **$include** and **$extends** directives in the file are resolved before the
+	 * configuration is validated, see {@link resolveDirectives()}.
+	 * 
+	 * @param path Path of the configuration file.
+	 * @returns An object representation of the configuration file.
+	 * @throws ConfigArgumentError: The command line arguments cannot be parsed.
+	 * @throws ConfigFileError: The file cannot be read, or is not correctly encoded.
+	 * @throws ConfigIncludeError: A directive cannot be resolved.
+	 * @throws ConfigParseFailureError: Failed to parse configuration.
+	 * @throws ConfigSyntaxError: The text could not be read.
+	 * @throws ConfigVersionError: The configuration cannot be migrated to the current version.
+	 */
+	public parseFile(path: string): Infer<E, D> {
+		return this.parseDocument(this.readFile(path));
+	}
+
+	/**
+	 * Read and parse a configuration file like {@link parseFile()}, but read the file
+	 * asynchronously.
+	 * 
+	 * @param path Path of the configuration file.
+	 * @returns A promise of an object representation of the configuration file.
+	 */
+	public async parseFileAsync(path: string): Promise<Infer<E, D>> {
+		return this.parseDocument(await this.readFileAsync(path));
+	}
+
+	/**
+	 * Read a configuration file like {@link parseFile()}, and resolve its directives, but do
+	 * not validate it.
+	 * 
+	 * @param path Path of the configuration file.
+	 * @param files Optional array that receives the absolute paths of the file and all files
+	 *        that it includes, in the order they are read, also in case reading fails.
+	 * @returns The document of the configuration file.
+	 * @throws ConfigFileError: The file cannot be read, or is not correctly encoded.
+	 * @throws ConfigIncludeError: A directive cannot be resolved.
+	 * @throws ConfigSyntaxError: The text could not be read.
+	 */
+	public readFile(path: string, files?: string[]): SourceDocument {
+		return resolveDirectives(
+			this.readSingleFile(path, files),
+			file => this.readSingleFile(file, files),
+			this.root
+		);
+	}
+
+	/**
+	 * Read a configuration file like {@link readFile()}, but read the file asynchronously.
+	 * 
+	 * @param path Path of the configuration file.
+	 * @param files Optional array that receives the absolute paths of the files that are read.
+	 * @returns A promise of the document of the configuration file.
+	 */
+	public async readFileAsync(path: string, files?: string[]): Promise<SourceDocument> {
+		return resolveDirectivesAsync(
+			await this.readSingleFileAsync(path, files),
+			file => this.readSingleFileAsync(file, files),
+			this.root
+		);
+	}
+
+	private readSingleFile(path: string, files: string[]): SourceDocument {
+		files?.push(nodePath.resolve(path));
+		return this.getFileReader(path).read(readConfigFile(path), path);
+	}
+
+	private async readSingleFileAsync(path: string, files: string[]): Promise<SourceDocument> {
+		files?.push(nodePath.resolve(path));
+		const text: string = await readConfigFileAsync(path);
+		return this.getFileReader(path).read(text, path);
+	}
+
+	/**
+	 * Get the reader of a file from its extension. A JSON file is read with the reader of the
+	 * parser in case its format extends JSON, so a tsconfig style file can have comments.
+	 */
+	private getFileReader(path: string): ConfigReader {
+		const format: ConfigFormat = getFileFormat(path);
+		if (format === "json" && ["jsonc", "json5"].includes(this.options.format))
+			return this.options.reader;
+		return format ? createReader(format) : this.options.reader;
+	}
+
+	/**
+	 * Validate a document that was read by a {@link ConfigReader}, or built in another way,
+	 * like {@link parse()} validates the document of a text.
+	 * 
+	 * @param document The document to validate.
+	 * @returns An object representation of the document.
+	 * @throws ConfigArgumentError: The command line arguments cannot be parsed.
 	 * @throws ConfigParseFailureError: Failed to parse configuration.
+	 * @throws ConfigVersionError: The configuration cannot be migrated to the current version.
+	 */
+	public parseDocument(document: SourceDocument): Infer<E, D> {
+		[document] = this.prepareDocument(document, this.options.copyInput);
+		const run: ValidationRun = new ValidationRun(this.root, this.options, document);
+
+		try {
+			run.validate();
+		}
+		finally {
+			this.lastErrors = run.errors;
+		}
+
+		if (run.errors.length) {
+			const source: string = document.source ? ` ${document.source}` : "";
+			throw new ConfigParseFailureError(
+				`Failed to parse configuration${source}`,
+				sortIssues(run.errors.map(toIssue)),
+				sortIssues(run.warnings.map(toIssue))
+			);
+		}
+		return this.finishValue(document.value);
+	}
+
+	/**
+	 * Prepare a document for validation: migrate it to the current version, copy its value in
+	 * case the input must not be changed, or cannot be changed as it is frozen, and merge the
+	 * overrides over it. The overrides follow the current version, so they are merged after
+	 * the migration.
+	 * 
+	 * @returns The prepared document, and the migration of the document, if any.
+	 * @throws ConfigArgumentError: The command line arguments cannot be parsed.
+	 * @throws ConfigVersionError: The document cannot be migrated to the current version.
+	 */
+	private prepareDocument(
+		document: SourceDocument, copy: boolean
+	): [SourceDocument, ConfigMigrationResult] {
+		// The value of the migration is a copy already, which is copied again, so the
+		// migration keeps the value before validation.
+		const migration: ConfigMigrationResult = migrateDocument(document, this.root);
+		if (migration)
+			document = createMigratedDocument(document, copyValue(migration.value));
+		else if (copy || !isExtensibleValue(document.value))
+			document = {...document, value: copyValue(document.value)};
+		return [this.applyOverrides(document), migration];
+	}
+
+	private finishValue(value: unknown): Infer<E, D> {
+		if (this.options.freeze) deepFreeze(value);
+		return value as Infer<E, D>;
+	}
+
+	/**
+	 * Merge the environment variables and command line arguments of the elements over a
+	 * document.
+	 * 
+	 * @returns The merged document, or the document itself in case no environment variable
+	 *          is set and no option is given.
+	 * @throws ConfigArgumentError: The command line arguments cannot be parsed.
+	 */
+	private applyOverrides(document: SourceDocument): SourceDocument {
+		const overrides: SourceDocument[] = [
+			readEnvironment(this.root, this.options.env, this.options.envPrefix)
+		];
+		if (this.options.argv && this.root instanceof ObjectElement) {
+			const {argv} = this.options;
+			const parsed: ParsedArguments = parseArguments(argv, this.root);
+			if (parsed.help) {
+				throw new ConfigArgumentError(
+					"Help is only returned by parseArguments()", "--help"
+				);
+			}
+			overrides.push(parsed.overrides);
+		}
+		if (overrides.every(override => override.value === undefined)) return document;
+
+		const merged: SourceDocument = mergeDocuments(this.root, [document, ...overrides]);
+		merged.source = document.source;
+		return merged;
+	}
+
+	/**
+	 * Parse a configuration text like {@link parse()}, but return the outcome instead of
+	 * throwing errors. The errors in the result are ordered by their position in the text.
+	 * Invalid command line arguments, see the **argv** option, are also returned as errors.
+	 * 
+	 * In case the option to throw on the first error is set, the parser stops at the first
+	 * error, and the result only contains that error.
+	 * 
+	 * @param text The configuration text to parse.
+	 * @param source Optional name of the source, like a file name, used in error messages.
+	 * @returns The parse result, with either the value or the errors.
+	 */
+	public safeParse(text: string, source?: string): ParseResult<Infer<E, D>> {
+		let document: SourceDocument;
+		try {
+			document = this.options.reader.read(text, source);
+		}
+		catch (err) {
+			if (!(err instanceof ConfigSyntaxError)) throw err;
+			return {
+				success: false,
+				errors: [toIssue(err)],
+				warnings: [],
+				coercions: []
+			};
+		}
+
+		return this.validateDocument(document);
+	}
+
+	/**
+	 * Validate a document like {@link parseDocument()}, but return the outcome instead of
+	 * throwing errors, like {@link safeParse()}. Together with {@link readFile()}, this gives
+	 * the migration of a configuration file, so a tool can write the upgraded file back.
+	 * 
+	 * @param document The document to validate.
+	 * @returns The parse result, with either the value or the errors.
+	 */
+	public safeParseDocument(document: SourceDocument): ParseResult<Infer<E, D>> {
+		return this.validateDocument(document);
+	}
+
+	/**
+	 * Validate a value that was already parsed, for example by **JSON.parse()**. Errors of
+	 * values that do not come from a text do not have a position.
+	 * 
+	 * @param value The value to validate.
+	 * @returns The parse result, with either the value or the errors.
+	 */
+	public validate(value: unknown): ParseResult<Infer<E, D>> {
+		return this.validateDocument(toDocument(value));
+	}
+
+	/**
+	 * Check whether a value is a valid configuration, without changing the value, like
+	 * {@link validate()} with the **copyInput** option. Use this for values that are owned
+	 * by other code.
+	 * 
+	 * @param value The value to check.
+	 * @returns The errors and warnings of the value.
+	 */
+	public check(value: unknown): CheckResult {
+		const result: ParseResult<Infer<E, D>> =
+			this.validateDocument(toDocument(value), true);
+		// Without strict null checks, only a comparison narrows the result.
+		if (result.success === false)
+			return {success: false, errors: result.errors, warnings: result.warnings};
+		return {success: true, errors: [], warnings: result.warnings};
+	}
+
+	/**
+	 * Validate a document, and return the outcome.
+	 * 
+	 * @param check Only check the document: always validate a copy, and do not freeze it.
+	 */
+	private validateDocument(
+		document: SourceDocument, check: boolean = false
+	): ParseResult<Infer<E, D>> {
+		let migration: ConfigMigrationResult;
+		try {
+			[document, migration] =
+				this.prepareDocument(document, check || this.options.copyInput);
+		}
+		catch (err) {
+			if (!(err instanceof ConfigArgumentError) &&
+				!(err instanceof ConfigVersionError))
+				throw err;
+			this.lastErrors = [];
+			return {
+				success: false,
+				errors: [toIssue(err)],
+				warnings: [],
+				coercions: []
+			};
+		}
+
+		const run: ValidationRun = new ValidationRun(this.root, this.options, document);
+
+		try {
+			run.validate();
+		}
+		catch (err) {
+			// Only the first error can be thrown, as custom validators are guarded.
+			if (!this.options.throwOnFirstError) throw err;
+		}
+		finally {
+			this.lastErrors = run.errors;
+		}
+
+		const warnings: ConfigIssue[] = sortIssues(run.warnings.map(toIssue));
+		const coercions: TypeCoercion[] = run.coercions;
+		if (run.errors.length) {
+			return {
+				success: false,
+				errors: sortIssues(run.errors.map(toIssue)),
+				warnings,
+				coercions,
+				migration
+			};
+		}
+
+		const value: Infer<E, D> = check ?
+			document.value as Infer<E, D> : this.finishValue(document.value);
+		return {success: true, value, warnings, coercions, migration};
+	}
+
+	/**
+	 * Get the list of Error objects that were thrown during the most recent validation.
+	 * 
+	 * @deprecated The errors of a parse are part of the {@link ParseResult} of the
+	 * {@link safeParse()} and {@link validate()} methods, and of the ConfigParseFailureError
+	 * thrown by the {@link parse()} method. This method is not reliable in case the same
+	 * parser instance is used from multiple places.
+	 * @returns The list of validation errors.
 	 */
-	public parse(jsonString: string): unknown {
-		const json = JSON.parse(jsonString);
-		this.validate(json);
-		if (this.errors.length)
-			throw new ConfigParseFailureError("Failed to parse configuration");
-		return json;
+	public getErrors(): LocatedError[] {
+		return [...this.lastErrors];
 	}
+}
+
+/**
+ * The state of a single validation of a document. A new instance is created for every parse,
+ * which keeps the ConfigParser itself free of state.
+ */
+class ValidationRun {
+	public readonly errors: LocatedError[] = [];
+	public readonly warnings: LocatedError[] = [];
+	public readonly coercions: TypeCoercion[] = [];
+
+	private root: ConfigElement;
+	private options: Required<ConfigParserOptions>;
+	private document: SourceDocument;
+
+	/**
+	 * Interpolated strings by path, the paths of strings that cannot be interpolated, and the
+	 * paths of the strings that are being interpolated, to detect cycles.
+	 */
+	private interpolated: Map<string, string> = new Map();
+	private failedInterpolations: Set<string> = new Set();
+	private interpolating: string[] = [];
+
+	/**
+	 * The values that are being validated are secret, see {@link ConfigElement.isSensitive()}.
+	 */
+	private secret: boolean = false;
+
+	/**
+	 * Unknown fields of the object that is being validated are errors, see
+	 * {@link ObjectElement.setStrict()}.
+	 */
+	private strict: boolean;
+
+	constructor(
+		root: ConfigElement,
+		options: Required<ConfigParserOptions>,
+		document: SourceDocument
+	) {
+		this.root = root;
+		this.options = options;
+		this.document = document;
+		this.strict = options.strict;
+	}
+
+	/**
+	 * Validate the document against the root element. Depending on the options, this can
+	 * throw the first error that is found.
+	 */
+	public validate() {
+		this.document.value =
+			this.interpolateValue(this.document.value, this.root, ROOT_PATH);
+		this.withContext(this.root, () => this.validateRoot());
+	}
+
+	private validateRoot() {
+		const json: unknown = this.document.value;
+		const path: string = ROOT_PATH;
 
-	private validate(json: unknown) {
 		// If root is wrong, just abort fast, cannot attempt validating at all.
 		if (!this.root.isCorrectType(json)) {
 			this.addError(
-				new InvalidRootTypeError("Root element has incorrect type")
+				new InvalidRootTypeError("Root element has incorrect type"),
+				path, this.root, json
 			);
 			return;
 		}
@@ -114,58 +809,258 @@ export class ConfigParser {
 		if (typeof json !== "object") {
 			this.addError(new InvalidRootTypeError(
 				"Parsed JSON string should have object as root type"
-			));
+			), path, this.root, json);
 			return;
 		}
 
 		if (this.root instanceof ObjectElement) {
-			this.validateObject(json, this.root);
+			this.validateObject(json, this.root, path);
 		}
 		else if (this.root instanceof ArrayElement) {
 			if (!Array.isArray(json)) {
 				this.addError(new InvalidRootTypeError(
 					"Expected root element to be an array"
-				));
+				), path, this.root, json);
 				return;
 			}
-			this.validateArray(json, this.root);
+			this.validateArray(json, this.root, path);
 		}
 		else {
 			this.addError(
 				new InvalidRootTypeError(
 					"Root configuration element has incorrect type"
-				)
+				),
+				path, this.root, json
 			);
 			return;
 		}
 	}
 
-	private runCustomValidations(ce: ConfigElement, value: JSONType) {
+	/**
+	 * Replace the references in all strings of elements that interpolate, before any value is
+	 * validated, so the validation applies to the final strings. Strings that cannot be
+	 * interpolated are kept as is.
+	 * 
+	 * @returns The value with the strings interpolated.
+	 */
+	private interpolateValue(value: unknown, ce: ConfigElement, path: string): unknown {
+		return this.withContext(ce, () => this.interpolateChildren(value, ce, path));
+	}
+
+	private interpolateChildren(value: unknown, ce: ConfigElement, path: string): unknown {
+		if (ce instanceof ObjectElement && isObject(value)) {
+			const object = value as Record<string, unknown>;
+			for (const key of ce.getChildFieldNames()) {
+				if (!hasOwnKey(object, key)) continue;
+
+				const child: unknown = this.interpolateValue(
+					object[key], ce.getChild(key), childPath(path, key)
+				);
+				if (child !== object[key]) object[key] = child;
+			}
+		}
+		else if (ce instanceof ArrayElement && Array.isArray(value)) {
+			value.forEach((item: unknown, i: number) => {
+				value[i] = this.interpolateValue(
+					item, ce.getItemElement(item, i), indexPath(path, i)
+				);
+			});
+		}
+		else if (typeof value === "string" && this.isInterpolated(ce)) {
+			return this.interpolateString(value, ce, path) ?? value;
+		}
+		return value;
+	}
+
+	private isInterpolated(ce: ConfigElement): boolean {
+		return ce instanceof StringElement &&
+			(ce.getInterpolation() ?? this.options.interpolate);
+	}
+
+	/**
+	 * Interpolate a string, or get the string that is already interpolated.
+	 * 
+	 * @returns The interpolated string, or **undefined** in case a reference cannot be
+	 *          resolved, or the string is part of a cycle.
+	 */
+	private interpolateString(value: string, ce: ConfigElement, path: string): string {
+		if (this.interpolated.has(path)) return this.interpolated.get(path);
+		if (this.failedInterpolations.has(path)) return undefined;
+
+		const cycleStart: number = this.interpolating.indexOf(path);
+		if (cycleStart >= 0) {
+			const cycle: string[] = [...this.interpolating.slice(cycleStart), path];
+			cycle.forEach(p => this.failedInterpolations.add(p));
+			this.addError(new InterpolationCycleError(cycle), path, ce, value);
+			return undefined;
+		}
+
+		let failed: boolean = false;
+		this.interpolating.push(path);
+		const interpolated: string = interpolateString(value, (kind, name) => {
+			const text: string = this.resolveReference(kind, name, value, ce, path);
+			if (text === undefined) failed = true;
+			return text ?? "";
+		});
+		this.interpolating.pop();
+
+		if (failed) {
+			this.failedInterpolations.add(path);
+			return undefined;
+		}
+		this.interpolated.set(path, interpolated);
+		return interpolated;
+	}
+
+	/**
+	 * Resolve a reference in the string of an element. An unresolved reference is reported at
+	 * the path of the string. A secret value can only be referenced from a secret string, so
+	 * it is not copied into a value that is not masked.
+	 * 
+	 * @returns The string that replaces the reference, or **undefined** in case it cannot be
+	 *          resolved.
+	 */
+	private resolveReference(
+		kind: string, name: string, value: string, ce: ConfigElement, path: string
+	): string {
+		const reference: string = `\${${kind}:${name}}`;
+		let target: [unknown, ConfigElement, string, boolean];
+		try {
+			if (kind === "env") return this.readVariable(reference, name);
+			if (kind === "file") return this.readReferencedFile(reference, name, path);
+			if (kind !== "ref") {
+				throw new UnresolvedReferenceError(
+					reference, `unknown kind ${kind}`
+				);
+			}
+			target = this.findReferencedValue(reference, name);
+			if (target[3] && !this.secret) {
+				throw new UnresolvedReferenceError(
+					reference, "value is secret, and the string is not"
+				);
+			}
+		}
+		catch (err) {
+			if (!(err instanceof UnresolvedReferenceError)) throw err;
+			this.addError(err, path, ce, value);
+			return undefined;
+		}
+
+		const [targetValue, targetCe, targetPath, targetSecret] = target;
+		if (typeof targetValue !== "string" || !this.isInterpolated(targetCe))
+			return String(targetValue);
+
+		// The referenced string is interpolated as secret as it would be on its own.
+		const secret: boolean = this.secret;
+		this.secret = targetSecret;
+		try {
+			return this.interpolateString(targetValue, targetCe, targetPath);
+		}
+		finally {
+			this.secret = secret;
+		}
+	}
+
+	private readVariable(reference: string, name: string): string {
+		const text: string = this.options.env[name];
+		if (text === undefined) {
+			throw new UnresolvedReferenceError(
+				reference, "environment variable is not set"
+			);
+		}
+		return text;
+	}
+
+	/**
+	 * Read a referenced file. A relative path is relative to the directory of the source of
+	 * the string. One line break at the end of the file is removed.
+	 */
+	private readReferencedFile(reference: string, name: string, path: string): string {
+		const source: string = findSource(this.document, path) ?? "";
+		try {
+			const file: string = nodePath.resolve(nodePath.dirname(source), name);
+			return readConfigFile(file).replace(/\r?\n$/, "");
+		}
+		catch (err) {
+			if (!(err instanceof ConfigFileError)) throw err;
+			throw new UnresolvedReferenceError(reference, err.detail);
+		}
+	}
+
+	/**
+	 * Find the value that a **ref** reference refers to, with its element and path, and
+	 * whether the value is secret, because its element or an element above it is sensitive.
+	 */
+	private findReferencedValue(
+		reference: string, name: string
+	): [unknown, ConfigElement, string, boolean] {
+		const keys: (string | number)[] = parseReferenceKeys(name);
+		if (!keys) throw new UnresolvedReferenceError(reference, "invalid path");
+
+		let value: unknown = this.document.value;
+		let ce: ConfigElement = this.root;
+		let path: string = ROOT_PATH;
+		let secret: boolean = !!ce?.isSensitive();
+		for (const key of keys) {
+			if (typeof key === "number") {
+				value = Array.isArray(value) ? value[key] : undefined;
+				ce = ce instanceof ArrayElement ?
+					ce.getItemElement(value, key) : undefined;
+				path = indexPath(path, key);
+			}
+			else {
+				value = isObject(value) ?
+					getOwnValue(value as object, key) : undefined;
+				ce = ce instanceof ObjectElement ? ce.getChild(key) : undefined;
+				path = childPath(path, key);
+			}
+			secret = secret || !!ce?.isSensitive();
+
+			if (value === undefined) {
+				throw new UnresolvedReferenceError(
+					reference, "value does not exist"
+				);
+			}
+		}
+
+		if (!["string", "number", "boolean"].includes(typeof value)) {
+			throw new UnresolvedReferenceError(
+				reference, "value is not a string, number or boolean"
+			);
+		}
+		return [value, ce, path, secret];
+	}
+
+	private runCustomValidations(ce: ConfigElement, value: JSONType, path: string) {
 		ce.getValidators().forEach(validator => {
 			try {
 				if (!validator.validate(ce, value)) {
 					this.addError(
-						new ValidationError("Custom validation failed")
+						new ValidationError("Custom validation failed"),
+						path, ce, value
 					);
 				}
 			}
 			catch (err) {
-				this.addError(err as Error);
+				this.addError(err as Error, path, ce, value);
 			}
 		});
 	}
 
-	private validateObject(inputObject: unknown, ce: ObjectElement) {
+	private validateObject(inputObject: unknown, ce: ObjectElement, path: string) {
 
 		if (inputObject === null) {
 			if (!ce.canBeNull()) this.addError(
-				new NullValueError(ce.getName())
+				new NullValueError(ce.getName()), path, ce, inputObject
 			);
 			return;
 		}
 
 		if (!ce.isCorrectType(inputObject)) {
-			this.addError(new InvalidTypeError(typeof inputObject, "object"));
+			this.addError(
+				new InvalidTypeError(typeof inputObject, "object"),
+				path, ce, inputObject
+			);
 			return;
 		}
 
@@ -196,34 +1091,70 @@ export class ConfigParser {
 
 		/**
 		 * An array of all fields that exist in the **jsonFields** array, but not in the
-		 * **allFields** array.
+		 * **allFields** array, other than the version key of the root.
 		*/
-		const extraFields: string[] = jsonFields.filter(f => !allFields.includes(f));
+		const extraFields: string[] = jsonFields.filter(f => !allFields.includes(f) &&
+			!(ce === this.root && f === ce.getVersionKey()));
+
+		extraFields.filter(f => !f.startsWith("$")).forEach(f => {
+			const fieldPath: string = childPath(path, f);
+			const error = new UnknownFieldError(f, findSuggestion(f, allFields));
+			// @ts-expect-error See extraFields description.
+			const value: unknown = json[f];
+			const position: SourcePosition = this.document.keyPositions.get(fieldPath);
+
+			if (this.strict) this.addError(error, fieldPath, ce, value, position);
+			else this.addWarning(error, fieldPath, ce, value, position);
+		});
 
 		requiredFields.filter(f => !requiredFieldsFound.includes(f)).forEach(f => {
-			this.addError(new MissingRequiredFieldError(f));
+			this.addError(
+				new MissingRequiredFieldError(f),
+				childPath(path, f), ce.getChild(f), undefined
+			);
 		});
 
 		jsonFields.filter(f => allFields.includes(f)).forEach(f => {
-			// @ts-expect-error See jsonFields description.
-			const jsonElement: unknown = json[f];
 			const childCe: ConfigElement = ce.getChild(f);
+			let jsonElement: unknown = this.document.stringValues ?
+				// @ts-expect-error See jsonFields description.
+				convertStringValue(json[f], childCe) : json[f];
+			if (this.options.coerceTypes)
+				jsonElement = this.coerce(jsonElement, childCe, childPath(path, f));
+			// @ts-expect-error See jsonFields description.
+			if (jsonElement !== json[f]) json[f] = jsonElement;
 
-			this.validateUnknownElement(jsonElement, childCe);
+			this.validateUnknownElement(jsonElement, childCe, childPath(path, f));
 		});
 
+		if (this.options.applyDefaultValues) {
+			allFields.filter(f => !jsonFields.includes(f)).forEach(f => {
+				const childCe: ConfigElement = ce.getChild(f);
+				if (childCe.isRequired() || !(childCe instanceof PrimitiveElement))
+					return;
+
+				const defaultValue = childCe.getDefaultValue();
+				if (defaultValue === undefined) return;
+
+				const defaultPath: string = childPath(path, f);
+				this.validateUnknownElement(defaultValue, childCe, defaultPath);
+				// @ts-expect-error See jsonFields description.
+				json[f] = defaultValue;
+			});
+		}
+
 		// Custom validators run before potential pruning.
-		this.runCustomValidations(ce, json);
+		this.runCustomValidations(ce, json, path);
 
 		// All is validated, now prune if no errors are found.
-		if (this.pruneUnknownElements && !this.errors.length) {
+		if (this.options.pruneUnknownElements && !this.errors.length) {
 			extraFields.forEach(f => {
 				// @ts-expect-error See extraFields description.
 				delete json[f];
 			});
 		}
 
-		if (this.pruneDollarElements) {
+		if (this.options.pruneDollarElements) {
 			dollarFields.forEach(f => {
 				// @ts-expect-error See dollarFields description.
 				delete json[f];
@@ -231,30 +1162,97 @@ export class ConfigParser {
 		}
 	}
 
-	private validateUnknownElement(elem: unknown, ce: ConfigElement) {
-		if (ce instanceof ObjectElement)
-			this.validateObject(elem, ce);
-		else if (ce instanceof ArrayElement)
-			this.validateArray(elem, ce);
-		else if (ce instanceof BooleanElement)
-			this.validateBoolean(elem, ce);
-		else if (ce instanceof NumberElement)
-			this.validateNumber(elem, ce);
-		else if (ce instanceof StringElement)
-			this.validateString(elem, ce);
+	private validateUnknownElement(elem: unknown, ce: ConfigElement, path: string) {
+		this.withContext(ce, () => {
+			if (ce instanceof ObjectElement)
+				this.validateObject(elem, ce, path);
+			else if (ce instanceof ArrayElement)
+				this.validateArray(elem, ce, path);
+			else if (ce instanceof BooleanElement)
+				this.validateBoolean(elem, ce, path);
+			else if (ce instanceof NumberElement)
+				this.validateNumber(elem, ce, path);
+			else if (ce instanceof StringElement)
+				this.validateString(elem, ce, path);
+		});
+	}
+
+	/**
+	 * Coerce a value to the type of its element, see {@link coerceValue()}.
+	 */
+	private coerce(value: unknown, ce: ConfigElement, path: string): unknown {
+		return this.recordCoercion(value, coerceValue(value, ce), ce, path);
+	}
+
+	/**
+	 * Coerce a string in an array that does not allow strings, see {@link coerceArrayItem()}.
+	 */
+	private coerceItem(value: string, ce: ArrayElement, index: number, path: string): unknown {
+		const coerced: unknown = coerceArrayItem(value, ce, index);
+		const itemCe: ConfigElement = ce.getItemElement(coerced, index) ?? ce;
+		return this.recordCoercion(value, coerced, itemCe, indexPath(path, index));
 	}
 
-	private validateArray(inputArray: unknown, ce: ArrayElement) {
+	/**
+	 * Record the coercion of a value to the type of its element, in case the value changed.
+	 * 
+	 * @returns The coerced value.
+	 */
+	private recordCoercion(
+		original: unknown, value: unknown, ce: ConfigElement, path: string
+	): unknown {
+		if (value === original) return value;
+
+		const secret: boolean = this.secret || ce.isSensitive();
+		this.coercions.push({
+			path,
+			original: secret ? SECRET_MASK : original as string,
+			value: secret ? SECRET_MASK : value,
+			position: this.document.positions.get(path),
+			source: findSource(this.document, path)
+		});
+		return value;
+	}
+
+	/**
+	 * Run a function with the values of an element, and all values below it, marked as secret
+	 * in case the element is sensitive, and with the strictness of an object element.
+	 */
+	private withContext<T>(ce: ConfigElement, fn: () => T): T {
+		const secret: boolean = this.secret;
+		const strict: boolean = this.strict;
+		this.secret = secret || !!ce?.isSensitive();
+		if (ce instanceof ObjectElement) this.strict = ce.getStrict() ?? strict;
+		try {
+			return fn();
+		}
+		finally {
+			this.secret = secret;
+			this.strict = strict;
+		}
+	}
+
+	/**
+	 * Format a value for an error message, masked in case it is secret.
+	 */
+	private formatValue(value: unknown): string {
+		return this.secret ? SECRET_MASK : String(value);
+	}
+
+	private validateArray(inputArray: unknown, ce: ArrayElement, path: string) {
 
 		if (inputArray === null) {
 			if (!ce.canBeNull()) this.addError(
-				new NullValueError(ce.getName())
+				new NullValueError(ce.getName()), path, ce, inputArray
 			);
 			return;
 		}
 
 		if (!ce.isCorrectType(inputArray)) {
-			this.addError(new InvalidTypeError(typeof inputArray, "array"));
+			this.addError(
+				new InvalidTypeError(typeof inputArray, "array"),
+				path, ce, inputArray
+			);
 			return;
 		}
 
@@ -262,14 +1260,16 @@ export class ConfigParser {
 		const array = inputArray as unknown[];
 
 		if (ce.allowAnyElement()) {
-			if (
-				!ce.allowNullElements() &&
-				array.filter(v => v === null).length > 0
-			) {
-				this.addError(new NullArrayElementError());
+			if (!ce.allowNullElements()) {
+				array.forEach((elem, i) => {
+					if (elem === null) this.addError(
+						new NullArrayElementError(),
+						indexPath(path, i), ce, elem
+					);
+				});
 			}
 
-			this.runCustomValidations(ce, array);
+			this.runCustomValidations(ce, array, path);
 
 			return;
 		}
@@ -279,28 +1279,39 @@ export class ConfigParser {
 			if (oe.length !== array.length) {
 				this.addError(new InvalidArrayContentsError(
 					"Array and ordered elements list have unequal lengths"
-				));
+				), path, ce, array);
 				// TODO: (Mischa Reitsma) Return vs just keep on checking what we have
 				return;
 			}
 			oe.forEach((cce, i) => {
+				if (this.options.coerceTypes)
+					array[i] = this.coerce(array[i], cce, indexPath(path, i));
+
 				const arrayElem: unknown = array[i];
 				// Null, if allowed, will fit all the bills.
 				if (arrayElem === null) {
-					if (!ce.allowNullElements())
-						this.addError(new NullArrayElementError());
+					if (!ce.allowNullElements()) this.addError(
+						new NullArrayElementError(),
+						indexPath(path, i), ce, arrayElem
+					);
 					return;
 				}
-				this.validateUnknownElement(arrayElem, cce);
+				this.validateUnknownElement(arrayElem, cce, indexPath(path, i));
 			});
 		}
 		else {
-			array.forEach(elem => {
+			array.forEach((item, i) => {
+				let elem: unknown = item;
+				if (this.options.coerceTypes && typeof elem === "string" &&
+					!ce.isValidElementType("string"))
+					elem = array[i] = this.coerceItem(elem, ce, i, path);
 
 				// Again null, if allowed, fits all the bills.
 				if (elem === null) {
-					if (!ce.allowNullElements())
-						this.addError(new NullArrayElementError());
+					if (!ce.allowNullElements()) this.addError(
+						new NullArrayElementError(),
+						indexPath(path, i), ce, elem
+					);
 					return;
 				}
 
@@ -310,62 +1321,81 @@ export class ConfigParser {
 					elemType = "array";
 
 				if (!ce.isValidElementType(elemType)) {
-					this.addError(new InvalidArrayElementTypeError(elemType));
+					this.addError(
+						new InvalidArrayElementTypeError(elemType),
+						indexPath(path, i), ce, elem
+					);
 					return;
 				}
 
-				this.validateUnknownElement(elem, ce.getElementConfig(elemType));
+				this.validateUnknownElement(
+					elem, ce.getElementConfig(elemType), indexPath(path, i)
+				);
 			});
 		}
 
-		this.runCustomValidations(ce, array);
+		this.runCustomValidations(ce, array, path);
 	}
 
-	private validateBoolean(inputBool: unknown, ce: BooleanElement) {
+	private validateBoolean(inputBool: unknown, ce: BooleanElement, path: string) {
 		if (inputBool === null) {
 			if (!ce.canBeNull()) this.addError(
-				new NullValueError(ce.getName())
+				new NullValueError(ce.getName()), path, ce, inputBool
 			);
 			return;
 		}
 
 		if (!ce.isCorrectType(inputBool)) {
-			this.addError(new InvalidTypeError(typeof inputBool, "boolean"));
+			this.addError(
+				new InvalidTypeError(typeof inputBool, "boolean"),
+				path, ce, inputBool
+			);
 			return;
 		}
 
-		this.runCustomValidations(ce, inputBool as boolean);
+		this.runCustomValidations(ce, inputBool as boolean, path);
 	}
 
-	private validateNumber(inputNumber: unknown, ce: NumberElement) {
+	private validateNumber(inputNumber: unknown, ce: NumberElement, path: string) {
 		if (inputNumber === null) {
 			if (!ce.canBeNull()) this.addError(
-				new NullValueError(ce.getName())
+				new NullValueError(ce.getName()), path, ce, inputNumber
 			);
 			return;
 		}
 
 		if (!ce.isCorrectType(inputNumber)) {
-			this.addError(new InvalidTypeError(typeof inputNumber, "number"));
+			this.addError(
+				new InvalidTypeError(typeof inputNumber, "number"),
+				path, ce, inputNumber
+			);
 			return;
 		}
 
 		const n = inputNumber as number;
-		this.checkRange(n, ce.getMinValue(), ce.getMaxValue());
+		if (!Number.isFinite(n) && !ce.allowNonFiniteValues()) {
+			this.addError(new NonFiniteNumberError(this.formatValue(n)), path, ce, n);
+			return;
+		}
+
+		this.checkRange(n, ce.getMinValue(), ce.getMaxValue(), path, ce, n);
 
-		this.runCustomValidations(ce, n);
+		this.runCustomValidations(ce, n, path);
 	}
 
-	private validateString(inputString: unknown, ce: StringElement) {
+	private validateString(inputString: unknown, ce: StringElement, path: string) {
 		if (inputString === null) {
 			if (!ce.canBeNull()) this.addError(
-				new NullValueError(ce.getName())
+				new NullValueError(ce.getName()), path, ce, inputString
 			);
 			return;
 		}
 
 		if (!ce.isCorrectType(inputString)) {
-			this.addError(new InvalidTypeError(typeof inputString, "string"));
+			this.addError(
+				new InvalidTypeError(typeof inputString, "string"),
+				path, ce, inputString
+			);
 			return;
 		}
 
@@ -373,87 +1403,300 @@ export class ConfigParser {
 
 		const validValues = ce.getValidValues();
 		if ((validValues.length > 0) && !validValues.includes(s)) {
+			const valid: string = validValues.toString();
 			this.addError(new InvalidValueError(
-				`Invalid value ${s}, valid values: ${validValues.toString()}`
-			));
+				`Invalid value ${this.formatValue(s)}, valid values: ${valid}`
+			), path, ce, s);
 			return;
 		}
 
-		this.checkRange(s.length, ce.getMinLength(), ce.getMaxLength());
+		this.checkRange(s.length, ce.getMinLength(), ce.getMaxLength(), path, ce, s);
 
-		this.runCustomValidations(ce, s);
+		this.runCustomValidations(ce, s, path);
 	}
 
-	private checkRange(n: number, min: number | undefined, max: number | undefined) {
+	private checkRange(
+		n: number, min: number | undefined, max: number | undefined,
+		path: string, ce: ConfigElement, value: unknown
+	) {
+		// Strings are checked by their length, which is not secret.
+		const shown: string = typeof value === "number" ? this.formatValue(n) : String(n);
+
 		if (max && n > max) {
 			this.addError(
 				new InvalidValueError(
-					`Value ${n} is greater then maximum ${max}`
-				)
+					`Value ${shown} is greater then maximum ${max}`
+				),
+				path, ce, value
 			);
 		}
 
 		if (min && n < min) {
 			this.addError(
 				new InvalidValueError(
-					`Value ${n} is less then minimum ${min}`
-				)
+					`Value ${shown} is less then minimum ${min}`
+				),
+				path, ce, value
 			);
 		}
 	}
 
-	private addError(error: Error) {
-		this.errors.push(error);
-		if (this.throwOnFirstError) throw error;
+	/**
+	 * Find the position of a value, or of its closest ancestor that has a position.
+	 * 
+	 * @returns The position, and the path of the value that has the position.
+	 */
+	private findPosition(path: string): [SourcePosition, string] {
+		for (let p: string = path; p !== undefined; p = parentPath(p)) {
+			const position: SourcePosition = this.document.positions.get(p);
+			if (position) return [position, p];
+		}
+		return [undefined, path];
+	}
+
+	private locate(
+		error: Error, path: string, ce: ConfigElement, value: unknown,
+		position: SourcePosition
+	): LocatedError {
+		const source: string = findSource(this.document, path);
+		if (!position) {
+			let positionPath: string;
+			[position, positionPath] = this.findPosition(path);
+			// The position of an ancestor from another source, like the file of a
+			// value that an environment variable overrides, does not apply.
+			if (findSource(this.document, positionPath) !== source)
+				position = undefined;
+		}
+
+		// The value of a sensitive element is masked, also in the value of its ancestors.
+		value = this.secret ? SECRET_MASK : redactSecrets(value, ce);
+		const location: ErrorLocation = {path, element: ce, value, position, source};
+
+		if (error instanceof ConfigValidationError)
+			error.setLocation(location);
+		else
+			Object.assign(error, location);
+
+		return error as LocatedError;
+	}
+
+	private addError(
+		error: Error, path: string, ce: ConfigElement, value: unknown,
+		position?: SourcePosition
+	) {
+		this.errors.push(this.locate(error, path, ce, value, position));
+		if (this.options.throwOnFirstError) throw error;
+	}
+
+	private addWarning(
+		error: Error, path: string, ce: ConfigElement, value: unknown,
+		position?: SourcePosition
+	) {
+		this.warnings.push(this.locate(error, path, ce, value, position));
+	}
+}
+
+function toDocument(value: unknown): SourceDocument {
+	return {value, positions: new Map(), keyPositions: new Map()};
+}
+
+/**
+ * Freeze a value, and all objects and arrays in it.
+ */
+function deepFreeze(value: unknown, frozen: Set<object> = new Set()) {
+	if (value === null || typeof value !== "object" || frozen.has(value)) return;
+
+	frozen.add(value);
+	Object.freeze(value);
+	Object.values(value).forEach(child => deepFreeze(child, frozen));
+}
+
+function toIssue(error: Error): ConfigIssue {
+	const located = error as Partial<LocatedError>;
+	let code: string = "VALIDATOR_ERROR";
+	if (error instanceof ConfigValidationError || error instanceof ConfigSyntaxError ||
+		error instanceof ConfigArgumentError || error instanceof ConfigVersionError)
+		code = error.code;
+
+	return {
+		code,
+		message: error.message,
+		path: located.path,
+		position: located.position,
+		source: located.source,
+		error
+	};
+}
+
+/**
+ * Sort issues by source and position. Issues without a position keep their relative order,
+ * and come after the issues with a position of the same source.
+ */
+function sortIssues(issues: ConfigIssue[]): ConfigIssue[] {
+	return [...issues].sort((a, b) => {
+		const sourceA: string = a.source ?? "";
+		const sourceB: string = b.source ?? "";
+		if (sourceA !== sourceB) return sourceA < sourceB ? -1 : 1;
+
+		if (!a.position || !b.position)
+			return (a.position ? 0 : 1) - (b.position ? 0 : 1);
+
+		return (a.position.line - b.position.line) ||
+			(a.position.column - b.position.column);
+	});
+}
+
+/**
+ * Base class of all errors that the parser raises for invalid configuration.
+ * 
+ * The message of the error is prefixed with the position and path of the offending value as
+ * soon as the parser attaches the location, for example **config.json:42:17 $.books[3].year:
+ * Invalid type string, expected type number**. The original message is available in the
+ * {@link detail} field.
+ */
+export class ConfigValidationError extends Error implements ErrorLocation {
+	public readonly code: string = "VALIDATION_ERROR";
+	public readonly detail: string;
+	public path: string;
+	public element: ConfigElement;
+	public value: unknown;
+	public position?: SourcePosition;
+	public source?: string;
+
+	constructor(message?: string) {
+		super(message);
+		this.detail = this.message;
 	}
 
 	/**
-	 * Get the list of Error objects that were thrown during the validation.
+	 * Attach the location of the offending value to this error.
 	 * 
-	 * @returns The list of validation errors.
+	 * @param location Location of the offending value.
 	 */
-	public getErrors(): Error[] {
-		return [...this.errors];
+	public setLocation(location: ErrorLocation): void {
+		this.path = location.path;
+		this.element = location.element;
+		this.value = location.value;
+		this.position = location.position;
+		this.source = location.source;
+
+		this.message = `${this.path}: ${this.detail}`;
+		if (this.position) {
+			const position: string = formatPosition(this.position, this.source);
+			this.message = `${position} ${this.message}`;
+		}
+		else if (this.source) {
+			this.message = `${this.source} ${this.message}`;
+		}
 	}
 }
 
-export class InvalidRootTypeError extends Error {}
+export class InvalidRootTypeError extends ConfigValidationError {
+	public override readonly code: string = "INVALID_ROOT_TYPE";
+}
+
+export class InvalidTypeError extends ConfigValidationError {
+	public override readonly code: string = "INVALID_TYPE";
 
-export class InvalidTypeError extends Error {
 	constructor(actualType: string, expectedType: string) {
 		super(`Invalid type ${actualType}, expected type ${expectedType}`);
 	}
 }
 
-export class InvalidArrayElementTypeError extends Error {
+export class InvalidArrayElementTypeError extends ConfigValidationError {
+	public override readonly code: string = "INVALID_ARRAY_ELEMENT_TYPE";
+
 	constructor(actualType: string) {
 		super(`Invalid array element type ${actualType}`);
 	}
 }
 
-export class MissingRequiredFieldError extends Error {
+export class MissingRequiredFieldError extends ConfigValidationError {
+	public override readonly code: string = "MISSING_REQUIRED_FIELD";
+
 	constructor(field: string) {
 		super(`Missing required field ${field}`);
 	}
 }
 
-export class InvalidValueError extends Error {}
+export class UnknownFieldError extends ConfigValidationError {
+	public override readonly code: string = "UNKNOWN_FIELD";
+	public readonly suggestion?: string;
+
+	constructor(field: string, suggestion?: string) {
+		const hint: string = suggestion ? `, did you mean ${suggestion}?` : "";
+		super(`Unknown field ${field}${hint}`);
+		this.suggestion = suggestion;
+	}
+}
+
+export class InvalidValueError extends ConfigValidationError {
+	public override readonly code: string = "INVALID_VALUE";
+}
 
 export class NullValueError extends InvalidValueError {
+	public override readonly code: string = "NULL_VALUE";
+
 	constructor(fieldName: string) {
 		super(`Field ${fieldName} is null, null fields not allowed`);
 	}
 }
 
-export class InvalidArrayContentsError extends Error {}
+export class NonFiniteNumberError extends InvalidValueError {
+	public override readonly code: string = "NON_FINITE_NUMBER";
+
+	constructor(value: number | string) {
+		super(`Value ${value} is not a finite number, non-finite numbers not allowed`);
+	}
+}
+
+export class UnresolvedReferenceError extends ConfigValidationError {
+	public override readonly code: string = "UNRESOLVED_REFERENCE";
+	public readonly reference: string;
+
+	constructor(reference: string, reason: string) {
+		super(`Cannot resolve ${reference}, ${reason}`);
+		this.reference = reference;
+	}
+}
+
+export class InterpolationCycleError extends ConfigValidationError {
+	public override readonly code: string = "INTERPOLATION_CYCLE";
+	public readonly cycle: string[];
+
+	constructor(cycle: string[]) {
+		super(`Reference cycle ${cycle.join(" -> ")}`);
+		this.cycle = cycle;
+	}
+}
+
+export class InvalidArrayContentsError extends ConfigValidationError {
+	public override readonly code: string = "INVALID_ARRAY_CONTENTS";
+}
 
 export class NullArrayElementError extends InvalidArrayContentsError {
+	public override readonly code: string = "NULL_ARRAY_ELEMENT";
+
 	constructor() {
 		super("Null array elements not allowed");
 	}
 }
 
 
-export class ConfigParseFailureError extends Error {}
+/**
+ * Error thrown by {@link ConfigParser.parse()} in case the configuration is invalid.
+ */
+export class ConfigParseFailureError extends Error {
+	public readonly errors: ConfigIssue[];
+	public readonly warnings: ConfigIssue[];
+
+	constructor(message: string, errors: ConfigIssue[] = [], warnings: ConfigIssue[] = []) {
+		super(message);
+		this.errors = errors;
+		this.warnings = warnings;
+	}
+}
 
-export class ValidationError extends Error {}
+export class ValidationError extends ConfigValidationError {
+	public override readonly code: string = "CUSTOM_VALIDATION_FAILED";
+}
@@ -0,0 +1,59 @@
+/**
+ * Configuration path module.
+ *
+ * Every value in a configuration is identified by a JSON path, for example **$.books[3].year**.
+ * The root of the configuration is **$**, object keys are appended with a dot, or in bracket
+ * notation if the key is not a valid identifier, and array indices are appended in brackets.
+ */
+
+/**
+ * The path of the root element of a configuration.
+ */
+export const ROOT_PATH: string = "$";
+
+const IDENTIFIER_REGEX: RegExp = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Get the path of a child of an object.
+ *
+ * @param objectPath Path of the object.
+ * @param key Key of the child in the object.
+ * @returns Path of the child.
+ */
+export function childPath(objectPath: string, key: string): string {
+	if (IDENTIFIER_REGEX.test(key))
+		return `${objectPath}.${key}`;
+
+	return `${objectPath}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Get the path of an element of an array.
+ *
+ * @param arrayPath Path of the array.
+ * @param index Index of the element in the array.
+ * @returns Path of the array element.
+ */
+export function indexPath(arrayPath: string, index: number): string {
+	return `${arrayPath}[${index}]`;
+}
+
+/**
+ * Get the path of the parent of a value.
+ *
+ * @param path Path of the value.
+ * @returns Path of the parent, or **undefined** for the root path.
+ */
+export function parentPath(path: string): string {
+	if (path === ROOT_PATH) return undefined;
+
+	// Keys in bracket notation are JSON strings, in which a quote is always escaped, so the
+	// last '["' is always the start of the last key.
+	if (path.endsWith("\"]"))
+		return path.substring(0, path.lastIndexOf("[\""));
+
+	if (path.endsWith("]"))
+		return path.substring(0, path.lastIndexOf("["));
+
+	return path.substring(0, path.lastIndexOf("."));
+}
@@ -0,0 +1,176 @@
+/**
+ * Java properties reader module.
+ *
+ * This module contains a reader for the text of Java **.properties** files that keeps track of
+ * the line and column of every key and value in the text.
+ */
+import {
+	ConfigReader,
+	ConfigSyntaxError,
+	LineIndex,
+	NestedObjectBuilder,
+	SourceDocument,
+	SourcePosition
+} from "./reader";
+
+const ESCAPES: Map<string, string> = new Map([
+	["t", "\t"],
+	["n", "\n"],
+	["r", "\r"],
+	["f", "\f"],
+]);
+
+/**
+ * Reader for the text of Java **.properties** files.
+ *
+ * The text is read like **java.util.Properties** does: keys and values are separated by a
+ * **=**, a **:** or whitespace, lines that end with a backslash continue on the next line, and
+ * lines that start with a **#** or **!** are comments. Dots in keys create nested objects, so
+ * **database.port=5432** gives the same value tree as the JSON
+ * **{"database": {"port": "5432"}}**.
+ *
+ * As properties have no types, the values are converted to the type of their element by the
+ * parser, see {@link SourceDocument.stringValues}.
+ */
+export class PropertiesReader implements ConfigReader {
+	public read(text: string, source?: string): SourceDocument {
+		return new PropertiesDocumentParser(text, source).parseDocument();
+	}
+}
+
+/**
+ * Parser for a single properties text. A new instance is used for every text that is read.
+ */
+class PropertiesDocumentParser {
+	private text: string;
+	private source: string;
+	private index: number = 0;
+	private lineIndex: LineIndex;
+	private builder: NestedObjectBuilder;
+
+	constructor(text: string, source?: string) {
+		this.text = text;
+		this.source = source;
+		this.lineIndex = new LineIndex(text);
+		this.builder = new NestedObjectBuilder(source);
+	}
+
+	public parseDocument(): SourceDocument {
+		while (this.index < this.text.length) {
+			this.skipWhitespace();
+			const c: string = this.text[this.index];
+
+			if (c === "#" || c === "!") {
+				while (this.index < this.text.length && !this.atLineEnd())
+					this.index++;
+			}
+			else if (!this.atLineEnd()) {
+				this.parseProperty();
+			}
+
+			this.skipLineEnd();
+		}
+
+		return this.builder.getDocument();
+	}
+
+	private parseProperty() {
+		const keyPosition: SourcePosition = this.currentPosition();
+		const key: string = this.parseString(true);
+
+		this.skipWhitespace();
+		const c: string = this.text[this.index];
+		if (c === "=" || c === ":") {
+			this.index++;
+			this.skipWhitespace();
+		}
+
+		const valuePosition: SourcePosition = this.currentPosition();
+		const value: string = this.parseString(false);
+
+		const parts: string[] = key.split(".");
+		if (parts.some(part => !part)) {
+			const detail: string = `Invalid key '${key}'`;
+			throw new ConfigSyntaxError(detail, keyPosition, this.source);
+		}
+
+		this.builder.setValue(parts, value, keyPosition, valuePosition);
+	}
+
+	/**
+	 * Parse a key or value up to the end of its logical line.
+	 *
+	 * @param isKey Stop at the separator between a key and a value.
+	 * @returns The key or value without escapes.
+	 */
+	private parseString(isKey: boolean): string {
+		let result: string = "";
+
+		for (;;) {
+			const c: string = this.text[this.index];
+			if (c === undefined || this.atLineEnd()) return result;
+			if (isKey && (c === "=" || c === ":" || this.isWhitespace(c)))
+				return result;
+
+			if (c !== "\\") {
+				result += c;
+				this.index++;
+				continue;
+			}
+
+			this.index++;
+			if (this.atLineEnd()) {
+				// The line continues after the leading whitespace of the next line.
+				this.skipLineEnd();
+				this.skipWhitespace();
+			}
+			else if (this.index < this.text.length) {
+				result += this.parseEscape();
+			}
+		}
+	}
+
+	private parseEscape(): string {
+		const escape: string = this.text[this.index];
+
+		if (escape === "u") {
+			const hex: string = this.text.substring(this.index + 1, this.index + 5);
+			if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+				this.index--;
+				throw new ConfigSyntaxError(
+					"Invalid unicode escape sequence",
+					this.currentPosition(),
+					this.source
+				);
+			}
+			this.index += 5;
+			return String.fromCharCode(parseInt(hex, 16));
+		}
+
+		// Any other escaped character stands for itself.
+		this.index++;
+		return ESCAPES.get(escape) ?? escape;
+	}
+
+	private isWhitespace(c: string): boolean {
+		return c === " " || c === "\t" || c === "\f";
+	}
+
+	private skipWhitespace() {
+		while (this.isWhitespace(this.text[this.index])) this.index++;
+	}
+
+	private atLineEnd(): boolean {
+		const c: string = this.text[this.index];
+		return c === "\n" || c === "\r";
+	}
+
+	private skipLineEnd() {
+		if (this.text.startsWith("\r\n", this.index)) this.index += 2;
+		else if (this.atLineEnd()) this.index++;
+	}
+
+	private currentPosition(): SourcePosition {
+		return this.lineIndex.getPosition(this.index);
+	}
+}
@@ -0,0 +1,321 @@
+/**
+ * Configuration reader module.
+ *
+ * A configuration reader turns the text of a configuration file into a value tree that the
+ * {@link ConfigParser} can validate, and records where in the text every key and value is
+ * located, so errors can point at the exact line and column.
+ */
+import { ROOT_PATH, childPath, parentPath } from "./path";
+import { hasOwnKey, setProperty } from "./value";
+
+/**
+ * Position in the source text. Both the line and the column start at 1.
+ */
+export interface SourcePosition {
+	line: number;
+	column: number;
+}
+
+/**
+ * The result of reading the text of a configuration.
+ */
+export interface SourceDocument {
+	/**
+	 * The value tree of the configuration.
+	 */
+	value: unknown;
+
+	/**
+	 * Positions of all values, with as key the path of the value. See the path module for the
+	 * format of paths.
+	 */
+	positions: Map<string, SourcePosition>;
+
+	/**
+	 * Positions of all object keys, with as key the path of the value that belongs to the key.
+	 */
+	keyPositions: Map<string, SourcePosition>;
+
+	/**
+	 * Name of the source, normally a file name, that is used in error messages.
+	 */
+	source?: string;
+
+	/**
+	 * Sources of values that come from another source than the document, like an included
+	 * file, with as key the path of the value. Values below such a path come from the same
+	 * source, unless they have an entry of their own.
+	 */
+	sources?: Map<string, string>;
+
+	/**
+	 * All values in the value tree are strings, because the format has no other types, like
+	 * INI and .properties files. The parser converts these strings to the type of their
+	 * element where possible.
+	 */
+	stringValues?: boolean;
+}
+
+/**
+ * The deepest nesting of objects and arrays that the readers of formats with nested
+ * collections, like JSON and YAML, accept. The readers recurse per level, so deeper text
+ * results in a {@link ConfigSyntaxError} instead of a stack overflow.
+ */
+export const MAX_NESTING_DEPTH: number = 1000;
+
+/**
+ * Interface that readers of a specific configuration format implement.
+ */
+export interface ConfigReader {
+	/**
+	 * Read the text of a configuration.
+	 *
+	 * @param text The text to read.
+	 * @param source Optional name of the source, used in error messages.
+	 * @returns The document with the value tree and positions.
+	 * @throws ConfigSyntaxError: The text is not valid in the format of the reader.
+	 */
+	read(text: string, source?: string): SourceDocument;
+}
+
+/**
+ * Format a position for use in messages, for example **config.json:42:17**, or **42:17** in
+ * case the source is unknown.
+ *
+ * @param position The position to format.
+ * @param source Optional name of the source.
+ * @returns The formatted position.
+ */
+export function formatPosition(position: SourcePosition, source?: string): string {
+	const lineAndColumn: string = `${position.line}:${position.column}`;
+	return source ? `${source}:${lineAndColumn}` : lineAndColumn;
+}
+
+/**
+ * Find the source of a value of a document, which is the source of the value or its closest
+ * ancestor in the **sources** of the document, or else the source of the document.
+ *
+ * @param document The document.
+ * @param path Path of the value.
+ * @returns The source of the value.
+ */
+export function findSource(document: SourceDocument, path: string): string {
+	for (let p: string = path; p !== undefined; p = parentPath(p)) {
+		// A value can come from a source without a name, so check the key.
+		if (document.sources?.has(p)) return document.sources.get(p);
+	}
+	return document.source;
+}
+
+/**
+ * Copy the positions and sources of a value and all values below it from one document to
+ * another.
+ *
+ * @param from The document to copy from.
+ * @param fromPath Path of the value in the document to copy from.
+ * @param to The document to copy to, which must have a **sources** map.
+ * @param toPath Path of the value in the document to copy to.
+ */
+export function copyLocations(
+	from: SourceDocument, fromPath: string, to: SourceDocument, toPath: string
+) {
+	const rebase = (path: string): string => toPath + path.substring(fromPath.length);
+
+	to.sources.set(toPath, findSource(from, fromPath));
+	from.sources?.forEach((source, path) => {
+		if (isInSubtree(path, fromPath)) to.sources.set(rebase(path), source);
+	});
+	from.positions.forEach((position, path) => {
+		if (isInSubtree(path, fromPath)) to.positions.set(rebase(path), position);
+	});
+	from.keyPositions.forEach((position, path) => {
+		if (isInSubtree(path, fromPath)) to.keyPositions.set(rebase(path), position);
+	});
+}
+
+/**
+ * Remove the positions and sources of a value and all values below it from a document.
+ *
+ * @param document The document.
+ * @param path Path of the value.
+ */
+export function removeLocations(document: SourceDocument, path: string) {
+	const maps: Map<string, unknown>[] = [document.positions, document.keyPositions];
+	if (document.sources) maps.push(document.sources);
+
+	for (const map of maps) {
+		for (const key of map.keys()) {
+			if (isInSubtree(key, path)) map.delete(key);
+		}
+	}
+}
+
+function isInSubtree(path: string, subtreePath: string): boolean {
+	return path === subtreePath || path.startsWith(`${subtreePath}.`) ||
+		path.startsWith(`${subtreePath}[`);
+}
+
+/**
+ * Helper that translates offsets in a text to line and column positions.
+ */
+export class LineIndex {
+	private lineStarts: number[] = [0];
+
+	/**
+	 * Creates a LineIndex for a text. The **\n**, **\r\n** and **\r** sequences all end a
+	 * line.
+	 *
+	 * @param text The text to index.
+	 */
+	constructor(text: string) {
+		for (let i = 0; i < text.length; i++) {
+			const c: string = text[i];
+			if (c === "\r" && text[i + 1] === "\n") i++;
+			if (c === "\r" || c === "\n") this.lineStarts.push(i + 1);
+		}
+	}
+
+	/**
+	 * Get the position of an offset in the text.
+	 *
+	 * @param offset Offset in the text, starting at 0.
+	 * @returns The position of the offset.
+	 */
+	public getPosition(offset: number): SourcePosition {
+		let low: number = 0;
+		let high: number = this.lineStarts.length - 1;
+
+		while (low < high) {
+			const mid: number = Math.ceil((low + high) / 2);
+			if (this.lineStarts[mid] <= offset) low = mid;
+			else high = mid - 1;
+		}
+
+		return {line: low + 1, column: offset - this.lineStarts[low] + 1};
+	}
+}
+
+/**
+ * Error thrown by readers in case the text is not valid in the format of the reader.
+ */
+export class ConfigSyntaxError extends Error {
+	public readonly code: string = "SYNTAX_ERROR";
+	public readonly detail: string;
+	public readonly position: SourcePosition;
+	public readonly source: string;
+
+	constructor(detail: string, position: SourcePosition, source?: string) {
+		super(`${formatPosition(position, source)} ${detail}`);
+		this.detail = detail;
+		this.position = position;
+		this.source = source;
+	}
+}
+
+/**
+ * Helper for readers of formats with flat keys, like INI and .properties files, that builds
+ * nested objects from dotted keys and records their positions.
+ */
+export class NestedObjectBuilder {
+	public readonly value: object = {};
+	public readonly positions: Map<string, SourcePosition> = new Map();
+	public readonly keyPositions: Map<string, SourcePosition> = new Map();
+
+	private source: string;
+	private objects: Map<string, object> = new Map();
+
+	/**
+	 * Creates a NestedObjectBuilder with an empty root object.
+	 *
+	 * @param source Optional name of the source, used in error messages.
+	 */
+	constructor(source?: string) {
+		this.source = source;
+		this.objects.set(ROOT_PATH, this.value);
+		this.positions.set(ROOT_PATH, {line: 1, column: 1});
+	}
+
+	/**
+	 * Get the object of a dotted key, and create it and its parents if they do not exist.
+	 *
+	 * @param keys The parts of the dotted key.
+	 * @param position Position of the key.
+	 * @returns The path of the object.
+	 * @throws ConfigSyntaxError: The key, or one of its parents, is not an object.
+	 */
+	public getObject(keys: string[], position: SourcePosition): string {
+		let path: string = ROOT_PATH;
+
+		keys.forEach((key, i) => {
+			const parent: object = this.objects.get(path);
+			path = childPath(path, key);
+			if (this.objects.has(path)) return;
+
+			if (hasOwnKey(parent, key)) {
+				throw new ConfigSyntaxError(
+					`Key ${keys.slice(0, i + 1).join(".")} is already defined`,
+					position, this.source
+				);
+			}
+
+			const child: object = {};
+			this.objects.set(path, child);
+			this.define(parent, key, child, path, position, position);
+		});
+
+		return path;
+	}
+
+	/**
+	 * Set the value of a dotted key, and create its parent objects if they do not exist.
+	 *
+	 * @param keys The parts of the dotted key.
+	 * @param value The value.
+	 * @param keyPosition Position of the key.
+	 * @param valuePosition Position of the value.
+	 * @throws ConfigSyntaxError: The key is already defined, or one of its parents is not an
+	 *         object.
+	 */
+	public setValue(
+		keys: string[], value: unknown,
+		keyPosition: SourcePosition, valuePosition: SourcePosition
+	) {
+		const parentPath: string = this.getObject(keys.slice(0, -1), keyPosition);
+		const parent: object = this.objects.get(parentPath);
+		const key: string = keys[keys.length - 1];
+
+		if (hasOwnKey(parent, key)) {
+			throw new ConfigSyntaxError(
+				`Key ${keys.join(".")} is already defined`, keyPosition, this.source
+			);
+		}
+
+		this.define(
+			parent, key, value, childPath(parentPath, key), keyPosition, valuePosition
+		);
+	}
+
+	/**
+	 * Get the document with the built value tree. All values of the document are strings.
+	 *
+	 * @returns The document.
+	 */
+	public getDocument(): SourceDocument {
+		return {
+			value: this.value,
+			positions: this.positions,
+			keyPositions: this.keyPositions,
+			source: this.source,
+			stringValues: true
+		};
+	}
+
+	private define(
+		parent: object, key: string, value: unknown, path: string,
+		keyPosition: SourcePosition, valuePosition: SourcePosition
+	) {
+		setProperty(parent, key, value);
+		this.positions.set(path, valuePosition);
+		this.keyPositions.set(path, keyPosition);
+	}
+}
@@ -0,0 +1,61 @@
+/**
+ * Secret module.
+ *
+ * Values of elements that are marked as sensitive, like passwords, must not end up in logs.
+ * This module masks these values in a copy of a configuration, which can be printed or
+ * serialized safely.
+ */
+import { ArrayElement, ConfigElement, ObjectElement } from "./elements";
+import { setProperty } from "./value";
+
+/**
+ * The text that replaces secret values.
+ */
+export const SECRET_MASK: string = "******";
+
+/**
+ * Copy a configuration with all values of sensitive elements, and all values below them,
+ * replaced with {@link SECRET_MASK}. Values without an element are copied as is.
+ *
+ * @param value The configuration, or a value in it.
+ * @param element The element of the value.
+ * @returns The copy with the secret values masked.
+ */
+export function redactSecrets(value: unknown, element: ConfigElement): unknown {
+	if (element?.isSensitive() && value !== undefined) return SECRET_MASK;
+
+	if (Array.isArray(value)) {
+		return value.map((item: unknown, i: number) => {
+			const itemElement: ConfigElement = element instanceof ArrayElement ?
+				element.getItemElement(item, i) : undefined;
+			return redactSecrets(item, itemElement);
+		});
+	}
+
+	if (value !== null && typeof value === "object") {
+		const copy: object = {};
+		for (const [key, child] of Object.entries(value)) {
+			const childElement: ConfigElement = element instanceof ObjectElement ?
+				element.getChild(key) : undefined;
+			setProperty(copy, key, redactSecrets(child, childElement));
+		}
+		return copy;
+	}
+
+	return value;
+}
+
+/**
+ * Format a configuration as JSON with the secret values masked, see {@link redactSecrets()},
+ * for example to log the configuration that an application runs with.
+ *
+ * @param value The configuration.
+ * @param element The element of the configuration.
+ * @param space Optional indentation, like the **space** argument of **JSON.stringify()**.
+ * @returns The JSON text.
+ */
+export function formatConfig(
+	value: unknown, element: ConfigElement, space?: string | number
+): string {
+	return JSON.stringify(redactSecrets(value, element), null, space);
+}
@@ -0,0 +1,61 @@
+/**
+ * Suggestion module.
+ *
+ * A typo in a key, like **tiemout**, makes the key unknown. This module finds the known key that
+ * was most likely meant, so errors can suggest it.
+ */
+
+/**
+ * Get the edit distance between two strings: the number of inserted, deleted and replaced
+ * characters, and of swapped adjacent characters, that turn one string into the other.
+ *
+ * @param a The first string.
+ * @param b The second string.
+ * @returns The edit distance.
+ */
+export function editDistance(a: string, b: string): number {
+	// Distances between the prefixes of a and b, of the current and two previous rows.
+	let previous2: number[] = [];
+	let previous: number[] = Array.from({length: b.length + 1}, (_, j) => j);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current: number[] = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost: number = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + cost
+			);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1])
+				current[j] = Math.min(current[j], previous2[j - 2] + 1);
+		}
+		previous2 = previous;
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Find the candidate that is closest to a name, ignoring case. A candidate is only close in
+ * case at most a third of the characters of the longest of both differ.
+ *
+ * @param name The name, like an unknown key.
+ * @param candidates The candidates, like the known keys.
+ * @returns The closest candidate, the first one in case multiple candidates are equally close,
+ *          or **undefined** in case no candidate is close.
+ */
+export function findSuggestion(name: string, candidates: string[]): string {
+	let suggestion: string;
+	let suggestionDistance: number = Infinity;
+
+	for (const candidate of candidates) {
+		const distance: number = editDistance(name.toLowerCase(), candidate.toLowerCase());
+		const maxDistance: number = Math.floor(Math.max(name.length, candidate.length) / 3);
+		if (distance <= maxDistance && distance < suggestionDistance) {
+			suggestion = candidate;
+			suggestionDistance = distance;
+		}
+	}
+	return suggestion;
+}
@@ -0,0 +1,688 @@
+/**
+ * TOML reader module.
+ *
+ * This module contains a reader for TOML 1.0 text that keeps track of the line and column of
+ * every key and value in the text.
+ */
+import { ROOT_PATH, childPath, indexPath } from "./path";
+import {
+	ConfigReader,
+	ConfigSyntaxError,
+	LineIndex,
+	MAX_NESTING_DEPTH,
+	SourceDocument,
+	SourcePosition
+} from "./reader";
+import { getOwnValue, isObject, setProperty } from "./value";
+
+/**
+ * Reader for TOML text.
+ *
+ * Tables and inline tables become objects, and arrays and arrays of tables become arrays, so a
+ * TOML document is validated with the same {@link ObjectElement} and {@link ArrayElement}
+ * schema as a JSON document. Integers that cannot be represented exactly by a JavaScript number
+ * are rejected.
+ *
+ * Offset date-times, local date-times, local dates and local times become strings in RFC 3339
+ * format, for example **1979-05-27T07:32:00Z**, **1979-05-27T07:32:00**, **1979-05-27** and
+ * **07:32:00**, and are validated with a {@link StringElement}. A space between the date and the
+ * time is replaced by a **T**, and a lowercase **z** by an uppercase **Z**.
+ */
+export class TomlReader implements ConfigReader {
+	public read(text: string, source?: string): SourceDocument {
+		return new TomlDocumentParser(text, source).parseDocument();
+	}
+}
+
+const BARE_KEY_REGEX: RegExp = /[A-Za-z0-9_-]+/y;
+
+const VALUE_TOKEN_REGEX: RegExp = /[0-9A-Za-z_+\-.:]+/y;
+
+const DATE_TIME_REGEX: RegExp = new RegExp(
+	"^([0-9]{4})-([0-9]{2})-([0-9]{2})" +
+	"(?:[Tt ]([0-9]{2}):([0-9]{2}):([0-9]{2})(\\.[0-9]+)?" +
+	"([Zz]|[+-]([0-9]{2}):([0-9]{2}))?)?$"
+);
+
+const TIME_REGEX: RegExp = /^([0-9]{2}):([0-9]{2}):([0-9]{2})(\.[0-9]+)?$/;
+
+const DECIMAL_INTEGER_REGEX: RegExp = /^[+-]?(?:0|[1-9](?:_?[0-9])*)$/;
+
+const PREFIXED_INTEGER_REGEXES: Map<string, [RegExp, number]> = new Map([
+	["0x", [/^0x[0-9a-fA-F](?:_?[0-9a-fA-F])*$/, 16]],
+	["0o", [/^0o[0-7](?:_?[0-7])*$/, 8]],
+	["0b", [/^0b[01](?:_?[01])*$/, 2]],
+]);
+
+const FLOAT_REGEX: RegExp = new RegExp(
+	"^[+-]?(?:0|[1-9](?:_?[0-9])*)" +
+	"(?:\\.[0-9](?:_?[0-9])*(?:[eE][+-]?[0-9](?:_?[0-9])*)?|[eE][+-]?[0-9](?:_?[0-9])*)$"
+);
+
+const SPECIAL_FLOAT_REGEX: RegExp = /^[+-]?(?:inf|nan)$/;
+
+const ESCAPES: Map<string, string> = new Map([
+	["b", "\b"],
+	["t", "\t"],
+	["n", "\n"],
+	["f", "\f"],
+	["r", "\r"],
+	["\"", "\""],
+	["\\", "\\"],
+]);
+
+/**
+ * A key, or part of a dotted key, with its position.
+ */
+interface KeyPart {
+	key: string;
+	position: SourcePosition;
+}
+
+/**
+ * Recursive descent parser for a single TOML text. A new instance is used for every text that
+ * is read.
+ */
+class TomlDocumentParser {
+	private text: string;
+	private source: string;
+	private index: number = 0;
+	private depth: number = 0;
+	private lineIndex: LineIndex;
+
+	private positions: Map<string, SourcePosition> = new Map();
+	private keyPositions: Map<string, SourcePosition> = new Map();
+
+	private root: object = {};
+	private currentTable: object;
+	private currentPath: string = ROOT_PATH;
+
+	/**
+	 * Tables that are defined by a table header, and cannot be defined again.
+	 */
+	private definedTables: Set<object> = new Set();
+
+	/**
+	 * Tables that are defined by dotted keys, which can only be extended by other dotted keys.
+	 */
+	private dottedTables: Set<object> = new Set();
+
+	/**
+	 * Inline tables and arrays, which cannot be extended.
+	 */
+	private staticValues: Set<unknown> = new Set();
+
+	/**
+	 * Arrays that are defined by array of tables headers.
+	 */
+	private tableArrays: Set<unknown> = new Set();
+
+	constructor(text: string, source?: string) {
+		this.text = text;
+		this.source = source;
+		this.lineIndex = new LineIndex(text);
+		this.currentTable = this.root;
+	}
+
+	public parseDocument(): SourceDocument {
+		this.positions.set(ROOT_PATH, {line: 1, column: 1});
+
+		while (this.index < this.text.length) {
+			this.skipWhitespace();
+
+			const c: string = this.text[this.index];
+			if (c === "[")
+				this.parseTableHeader();
+			else if (c !== undefined && c !== "#" && !this.atNewline())
+				this.parseKeyValue(this.currentTable, this.currentPath);
+
+			this.skipWhitespace();
+			this.skipComment();
+			if (this.index < this.text.length) {
+				if (!this.atNewline()) this.failUnexpected("a new line");
+				this.skipNewline();
+			}
+		}
+
+		return {
+			value: this.root,
+			positions: this.positions,
+			keyPositions: this.keyPositions,
+			source: this.source
+		};
+	}
+
+	private parseTableHeader() {
+		const position: SourcePosition = this.currentPosition();
+		const isArray: boolean = this.text[this.index + 1] === "[";
+		this.index += isArray ? 2 : 1;
+
+		this.skipWhitespace();
+		const keys: KeyPart[] = this.parseKey();
+		this.expect("]");
+		if (isArray) this.expect("]");
+
+		// Find or create the tables of all but the last key.
+		let table: object = this.root;
+		let path: string = ROOT_PATH;
+
+		for (const [i, part] of keys.slice(0, -1).entries()) {
+			path = childPath(path, part.key);
+			const next: unknown = getOwnValue(table, part.key);
+
+			if (next === undefined) {
+				const created: object = {};
+				this.setValue(table, part, path, created);
+				this.positions.set(path, position);
+				table = created;
+			}
+			else if (this.tableArrays.has(next)) {
+				const array = next as object[];
+				path = indexPath(path, array.length - 1);
+				table = array[array.length - 1];
+			}
+			else if (isObject(next) && !this.staticValues.has(next)) {
+				table = next as object;
+			}
+			else {
+				this.failDefined("Key", keys.slice(0, i + 1));
+			}
+		}
+
+		const last: KeyPart = keys[keys.length - 1];
+		path = childPath(path, last.key);
+		const existing: unknown = getOwnValue(table, last.key);
+
+		if (isArray) {
+			let array = existing as object[];
+			if (existing === undefined) {
+				array = [];
+				this.tableArrays.add(array);
+				this.setValue(table, last, path, array);
+				this.positions.set(path, position);
+			}
+			else if (!this.tableArrays.has(existing)) {
+				this.failDefined("Key", keys);
+			}
+
+			table = {};
+			path = indexPath(path, array.length);
+			array.push(table);
+			this.positions.set(path, position);
+		}
+		else if (existing === undefined) {
+			const created: object = {};
+			this.setValue(table, last, path, created);
+			this.positions.set(path, position);
+			table = created;
+		}
+		else if (this.isImplicitTable(existing)) {
+			// A table that was created by the header of one of its sub-tables.
+			table = existing as object;
+			this.positions.set(path, position);
+			this.keyPositions.set(path, last.position);
+		}
+		else {
+			this.failDefined("Table", keys);
+		}
+
+		this.definedTables.add(table);
+		this.currentTable = table;
+		this.currentPath = path;
+	}
+
+	private isImplicitTable(value: unknown): boolean {
+		return isObject(value) && !this.definedTables.has(value as object) &&
+			!this.dottedTables.has(value as object) && !this.staticValues.has(value);
+	}
+
+	private parseKeyValue(table: object, tablePath: string) {
+		const keys: KeyPart[] = this.parseKey();
+		this.expect("=");
+		this.skipWhitespace();
+
+		// Find or create the tables of all but the last key.
+		let path: string = tablePath;
+		for (const [i, part] of keys.slice(0, -1).entries()) {
+			path = childPath(path, part.key);
+			const next: unknown = getOwnValue(table, part.key);
+
+			if (next === undefined) {
+				const created: object = {};
+				this.dottedTables.add(created);
+				this.setValue(table, part, path, created);
+				this.positions.set(path, part.position);
+				table = created;
+			}
+			else if (this.dottedTables.has(next as object)) {
+				table = next as object;
+			}
+			else {
+				this.failDefined("Key", keys.slice(0, i + 1));
+			}
+		}
+
+		const last: KeyPart = keys[keys.length - 1];
+		path = childPath(path, last.key);
+		if (getOwnValue(table, last.key) !== undefined)
+			this.failDefined("Key", keys);
+
+		this.setValue(table, last, path, this.parseValue(path));
+	}
+
+	/**
+	 * Parse a key, and the whitespace after it.
+	 *
+	 * @returns The parts of the key, more than one for a dotted key.
+	 */
+	private parseKey(): KeyPart[] {
+		const parts: KeyPart[] = [];
+
+		for (;;) {
+			const position: SourcePosition = this.currentPosition();
+			const c: string = this.text[this.index];
+			let key: string;
+
+			if (c === "\"" && !this.text.startsWith("\"\"\"", this.index)) {
+				key = this.parseBasicString();
+			}
+			else if (c === "'" && !this.text.startsWith("'''", this.index)) {
+				key = this.parseLiteralString();
+			}
+			else {
+				BARE_KEY_REGEX.lastIndex = this.index;
+				const match: RegExpExecArray = BARE_KEY_REGEX.exec(this.text);
+				if (!match) this.failUnexpected("a key");
+				key = match[0];
+				this.index += key.length;
+			}
+
+			parts.push({key, position});
+			this.skipWhitespace();
+			if (this.text[this.index] !== ".") return parts;
+
+			this.index++;
+			this.skipWhitespace();
+		}
+	}
+
+	private parseValue(path: string): unknown {
+		this.positions.set(path, this.currentPosition());
+
+		switch (this.text[this.index]) {
+			case "\"":
+				if (this.text.startsWith("\"\"\"", this.index))
+					return this.parseMultiLineString("\"");
+				return this.parseBasicString();
+			case "'":
+				if (this.text.startsWith("'''", this.index))
+					return this.parseMultiLineString("'");
+				return this.parseLiteralString();
+			case "[":
+				return this.parseNested(() => this.parseArray(path));
+			case "{":
+				return this.parseNested(() => this.parseInlineTable(path));
+			default:
+				return this.parseToken();
+		}
+	}
+
+	/**
+	 * Parse a nested array or inline table, in case the nesting is not too deep.
+	 */
+	private parseNested<T>(parse: () => T): T {
+		if (this.depth >= MAX_NESTING_DEPTH)
+			this.fail(`Nesting is deeper than ${MAX_NESTING_DEPTH} levels`);
+
+		this.depth++;
+		const value: T = parse();
+		this.depth--;
+		return value;
+	}
+
+	private parseArray(path: string): unknown[] {
+		const array: unknown[] = [];
+		this.index++;
+
+		for (;;) {
+			this.skipArraySpace();
+			if (this.text[this.index] === "]") break;
+
+			array.push(this.parseValue(indexPath(path, array.length)));
+
+			this.skipArraySpace();
+			if (this.text[this.index] !== ",") break;
+			this.index++;
+		}
+
+		this.expect("]");
+		this.staticValues.add(array);
+		return array;
+	}
+
+	private parseInlineTable(path: string): object {
+		const table: object = {};
+		this.index++;
+		this.skipWhitespace();
+
+		if (this.text[this.index] !== "}") {
+			for (;;) {
+				this.parseKeyValue(table, path);
+				this.skipWhitespace();
+				if (this.text[this.index] !== ",") break;
+				this.index++;
+				this.skipWhitespace();
+			}
+		}
+
+		this.expect("}");
+		this.staticValues.add(table);
+		return table;
+	}
+
+	/**
+	 * Parse a boolean, number or date-time.
+	 */
+	private parseToken(): unknown {
+		const start: number = this.index;
+		VALUE_TOKEN_REGEX.lastIndex = start;
+		const match: RegExpExecArray = VALUE_TOKEN_REGEX.exec(this.text);
+		if (!match) this.failUnexpected("a value");
+
+		let token: string = match[0];
+		this.index += token.length;
+
+		// The date and time of a date-time can be separated by a space.
+		if (
+			/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/.test(token) &&
+			this.text[this.index] === " " &&
+			/^[0-9]{2}:/.test(this.text.substring(this.index + 1, this.index + 4))
+		) {
+			VALUE_TOKEN_REGEX.lastIndex = this.index + 1;
+			const time: string = VALUE_TOKEN_REGEX.exec(this.text)[0];
+			token += ` ${time}`;
+			this.index += time.length + 1;
+		}
+
+		if (token === "true") return true;
+		if (token === "false") return false;
+
+		if (DECIMAL_INTEGER_REGEX.test(token))
+			return this.toSafeInteger(Number(token.replace(/_/g, "")), start);
+
+		const prefix: string = token.substring(0, 2);
+		const prefixed: [RegExp, number] = PREFIXED_INTEGER_REGEXES.get(prefix);
+		if (prefixed && prefixed[0].test(token)) {
+			const digits: string = token.substring(2).replace(/_/g, "");
+			return this.toSafeInteger(parseInt(digits, prefixed[1]), start);
+		}
+
+		if (FLOAT_REGEX.test(token)) return Number(token.replace(/_/g, ""));
+
+		if (SPECIAL_FLOAT_REGEX.test(token)) {
+			if (token.endsWith("nan")) return NaN;
+			return token.startsWith("-") ? -Infinity : Infinity;
+		}
+
+		const dateTime: string = this.toDateTime(token);
+		// The errors do not repeat the value, which can be a secret.
+		if (dateTime === undefined) this.failAt("Invalid value", start);
+		return dateTime;
+	}
+
+	private toSafeInteger(n: number, start: number): number {
+		if (!Number.isSafeInteger(n))
+			this.failAt("Integer cannot be represented exactly", start);
+		return n;
+	}
+
+	/**
+	 * Convert a date-time, date or time token to RFC 3339 format.
+	 *
+	 * @param token The token.
+	 * @returns The date-time in RFC 3339 format, or **undefined** if the token is not a valid
+	 *          date-time, date or time.
+	 */
+	private toDateTime(token: string): string {
+		const time: RegExpExecArray = TIME_REGEX.exec(token);
+		if (time) return isValidTime(time[1], time[2], time[3]) ? token : undefined;
+
+		const match: RegExpExecArray = DATE_TIME_REGEX.exec(token);
+		if (!match) return undefined;
+
+		const [, year, month, day, hour, minute, second, fraction, offset] = match;
+		const date: string = `${year}-${month}-${day}`;
+		if (!isValidDate(year, month, day)) return undefined;
+		if (hour === undefined) return date;
+		if (!isValidTime(hour, minute, second)) return undefined;
+		if (offset && offset.length > 1 && !isValidTime(match[9], match[10], "00"))
+			return undefined;
+
+		return `${date}T${hour}:${minute}:${second}${fraction ?? ""}${(offset ?? "")
+			.toUpperCase()}`;
+	}
+
+	private parseBasicString(): string {
+		const start: number = this.index;
+		let result: string = "";
+		this.index++;
+
+		for (;;) {
+			const c: string = this.text[this.index];
+
+			if (c === undefined || this.atNewline()) {
+				this.index = start;
+				this.fail("Unterminated string");
+			}
+
+			if (c === "\"") {
+				this.index++;
+				return result;
+			}
+
+			if (c === "\\") {
+				result += this.parseEscape();
+				continue;
+			}
+
+			this.checkControlCharacter(c, "string");
+			result += c;
+			this.index++;
+		}
+	}
+
+	private parseLiteralString(): string {
+		const start: number = this.index;
+		this.index++;
+
+		for (;;) {
+			const c: string = this.text[this.index];
+
+			if (c === undefined || this.atNewline()) {
+				this.index = start;
+				this.fail("Unterminated string");
+			}
+
+			if (c === "'") {
+				this.index++;
+				return this.text.substring(start + 1, this.index - 1);
+			}
+
+			this.checkControlCharacter(c, "string");
+			this.index++;
+		}
+	}
+
+	private parseMultiLineString(quote: string): string {
+		const start: number = this.index;
+		let result: string = "";
+		this.index += 3;
+
+		// A new line directly after the opening quotes is not part of the string.
+		if (this.atNewline()) this.skipNewline();
+
+		for (;;) {
+			const c: string = this.text[this.index];
+
+			if (c === undefined) {
+				this.index = start;
+				this.fail("Unterminated string");
+			}
+
+			if (this.text.startsWith(quote.repeat(3), this.index)) {
+				// Up to two extra quotes are part of the string.
+				let quotes: number = 3;
+				while (quotes < 5 && this.text[this.index + quotes] === quote)
+					quotes++;
+				this.index += quotes;
+				return result + quote.repeat(quotes - 3);
+			}
+
+			if (this.atNewline()) {
+				this.skipNewline();
+				result += "\n";
+			}
+			else if (c === "\\" && quote === "\"") {
+				if (this.atLineEndingBackslash()) {
+					this.index++;
+					this.skipArraySpace(false);
+				}
+				else {
+					result += this.parseEscape();
+				}
+			}
+			else {
+				this.checkControlCharacter(c, "string");
+				result += c;
+				this.index++;
+			}
+		}
+	}
+
+	/**
+	 * Check for a backslash that is followed by whitespace up to the end of the line, which
+	 * removes all whitespace and new lines up to the next character in a multi-line string.
+	 */
+	private atLineEndingBackslash(): boolean {
+		let i: number = this.index + 1;
+		while (this.text[i] === " " || this.text[i] === "\t") i++;
+		return this.text[i] === "\n" || this.text.startsWith("\r\n", i);
+	}
+
+	private parseEscape(): string {
+		const escape: string = this.text[this.index + 1];
+
+		if (ESCAPES.has(escape)) {
+			this.index += 2;
+			return ESCAPES.get(escape);
+		}
+
+		if (escape !== "u" && escape !== "U") this.fail("Invalid escape sequence");
+
+		const length: number = escape === "u" ? 4 : 8;
+		const hex: string = this.text.substring(this.index + 2, this.index + 2 + length);
+		const codePoint: number = parseInt(hex, 16);
+		const valid: boolean = new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex) &&
+			codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+		if (!valid) this.fail("Invalid unicode escape sequence");
+
+		this.index += 2 + length;
+		return String.fromCodePoint(codePoint);
+	}
+
+	private checkControlCharacter(c: string, context: string) {
+		if ((c < " " && c !== "\t") || c === "\x7f")
+			this.fail(`Control character in ${context}`);
+	}
+
+	private setValue(table: object, key: KeyPart, path: string, value: unknown) {
+		this.keyPositions.set(path, key.position);
+		setProperty(table, key.key, value);
+	}
+
+	private formatKey(keys: KeyPart[]): string {
+		return keys.map(k => /^[A-Za-z0-9_-]+$/.test(k.key) ? k.key : JSON.stringify(k.key))
+			.join(".");
+	}
+
+	private expect(c: string) {
+		if (this.text[this.index] !== c) this.failUnexpected(`'${c}'`);
+		this.index++;
+	}
+
+	private skipWhitespace() {
+		while (this.text[this.index] === " " || this.text[this.index] === "\t")
+			this.index++;
+	}
+
+	private skipComment() {
+		if (this.text[this.index] !== "#") return;
+
+		this.index++;
+		while (this.index < this.text.length && !this.atNewline()) {
+			this.checkControlCharacter(this.text[this.index], "comment");
+			this.index++;
+		}
+	}
+
+	/**
+	 * Skip whitespace and new lines, and optionally comments, as in an array.
+	 *
+	 * @param comments Also skip comments.
+	 */
+	private skipArraySpace(comments: boolean = true) {
+		for (;;) {
+			this.skipWhitespace();
+			if (comments) this.skipComment();
+			if (!this.atNewline()) return;
+			this.skipNewline();
+		}
+	}
+
+	private atNewline(): boolean {
+		return this.text[this.index] === "\n" || this.text.startsWith("\r\n", this.index);
+	}
+
+	private skipNewline() {
+		this.index += this.text[this.index] === "\r" ? 2 : 1;
+	}
+
+	private describeCurrent(): string {
+		if (this.index >= this.text.length) return "end of input";
+		if (this.atNewline()) return "end of line";
+		return `character '${this.text[this.index]}'`;
+	}
+
+	private currentPosition(): SourcePosition {
+		return this.lineIndex.getPosition(this.index);
+	}
+
+	private fail(detail: string): never {
+		throw new ConfigSyntaxError(detail, this.currentPosition(), this.source);
+	}
+
+	private failUnexpected(expected: string): never {
+		this.fail(`Unexpected ${this.describeCurrent()}, expected ${expected}`);
+	}
+
+	private failDefined(kind: string, keys: KeyPart[]): never {
+		const detail: string = `${kind} ${this.formatKey(keys)} is already defined`;
+		this.failAt(detail, keys[keys.length - 1].position);
+	}
+
+	private failAt(detail: string, position: SourcePosition | number): never {
+		if (typeof position === "number") position = this.lineIndex.getPosition(position);
+		throw new ConfigSyntaxError(detail, position, this.source);
+	}
+}
+
+function isValidDate(year: string, month: string, day: string): boolean {
+	const m: number = Number(month);
+	const daysInMonth: number = new Date(Date.UTC(Number(year), m, 0)).getUTCDate();
+	return m >= 1 && m <= 12 && Number(day) >= 1 && Number(day) <= daysInMonth;
+}
+
+function isValidTime(hour: string, minute: string, second: string): boolean {
+	// A second of 60 is allowed for leap seconds.
+	return Number(hour) <= 23 && Number(minute) <= 59 && Number(second) <= 60;
+}
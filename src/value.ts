@@ -0,0 +1,71 @@
+/**
+ * Value tree module.
+ *
+ * This module has the helpers that the readers, the parser and the other modules use to build,
+ * inspect and copy the plain value trees of configurations. It is internal, and not exported by
+ * the package.
+ */
+
+/**
+ * Check whether a value is an object, and not **null** or an array.
+ */
+export function isObject(value: unknown): boolean {
+	return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Check whether an object has an own property, so keys like **constructor** do not find
+ * properties of the prototype.
+ */
+export function hasOwnKey(object: object, key: string): boolean {
+	return Object.prototype.hasOwnProperty.call(object, key) as boolean;
+}
+
+/**
+ * Get an own property of an object, or **undefined** if the object does not have it, see
+ * {@link hasOwnKey()}.
+ */
+export function getOwnValue(object: object, key: string): unknown {
+	if (!hasOwnKey(object, key)) return undefined;
+	return object[key as keyof object];
+}
+
+/**
+ * Set a property of an object. The property is defined rather than assigned, so a **__proto__**
+ * key does not change the prototype of the object, in line with **JSON.parse()**.
+ */
+export function setProperty(object: object, key: string, value: unknown) {
+	Object.defineProperty(object, key, {
+		value,
+		enumerable: true,
+		configurable: true,
+		writable: true
+	});
+}
+
+/**
+ * Check whether properties can be added to all objects and arrays of a value, so they are not
+ * frozen, sealed or otherwise not extensible.
+ */
+export function isExtensibleValue(value: unknown): boolean {
+	if (value === null || typeof value !== "object") return true;
+	if (!Object.isExtensible(value)) return false;
+	return Object.values(value).every(isExtensibleValue);
+}
+
+/**
+ * Deep copy the objects and arrays of a value. Other values, like class instances, are not
+ * copied.
+ */
+export function copyValue(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(copyValue);
+	if (!isObject(value)) return value;
+
+	const prototype: unknown = Object.getPrototypeOf(value);
+	if (prototype !== Object.prototype && prototype !== null) return value;
+
+	const copy: object = {};
+	for (const key of Object.keys(value))
+		setProperty(copy, key, copyValue(value[key as keyof object]));
+	return copy;
+}
@@ -0,0 +1,193 @@
+/**
+ * Configuration watcher module.
+ *
+ * Long running processes, like daemons, can pick up a changed configuration file without a
+ * restart. This module watches a configuration file, and the files it includes, and validates
+ * the file again every time one of them changes.
+ */
+import { EventEmitter } from "node:events";
+import * as fs from "node:fs";
+import * as nodePath from "node:path";
+import { isDeepStrictEqual } from "node:util";
+
+import { ConfigElement, Infer } from "./elements";
+import { ConfigParser, ConfigParserOptions } from "./parser";
+
+/**
+ * Options of a {@link ConfigWatcher}, which are the options of the parser that validates the
+ * file, and the options of the watcher itself.
+ */
+export interface ConfigWatcherOptions extends ConfigParserOptions {
+	/**
+	 * Milliseconds to wait after a change before the file is read, so a burst of changes
+	 * results in a single reload. Default is **100**.
+	 */
+	debounce?: number;
+}
+
+/**
+ * Listener of the **change** event of a {@link ConfigWatcher}.
+ */
+export type ConfigChangeListener<T> = (config: T, previous: T) => void;
+
+/**
+ * Watcher of a configuration file.
+ *
+ * The watcher reads the file like {@link ConfigParser.parseFile()}, and reads and validates it
+ * again when the file, or a file that it includes with **$include** or **$extends**, changes.
+ * The directories of the files are watched, so files that are replaced by an editor, or
+ * removed and created again, are still picked up.
+ *
+ * The watcher emits the following events:
+ *
+ * - **change**, with the new and the previous configuration, in case the file is valid and
+ *   the configuration differs from the previous one.
+ * - **error**, with the error of the reload, like a {@link ConfigParseFailureError} with all
+ *   errors and warnings, in case the file cannot be read or is invalid. The watcher keeps the
+ *   last valid configuration. Like for any **EventEmitter**, an **error** event without a
+ *   listener is thrown.
+ */
+export class ConfigWatcher<
+	E extends ConfigElement = ConfigElement, D extends boolean = true
+> extends EventEmitter {
+	private path: string;
+	private parser: ConfigParser<E, D>;
+	private debounce: number;
+
+	private config: Infer<E, D>;
+	private files: string[] = [];
+	private watchers: Map<string, fs.FSWatcher> = new Map();
+	private timer: NodeJS.Timeout;
+
+	/**
+	 * Creates a ConfigWatcher instance. The file is not read, or watched, until the watcher is
+	 * started.
+	 *
+	 * @param root The root element that is used to validate the configuration.
+	 * @param path Path of the configuration file.
+	 * @param options Configuration parser options, and the options of the watcher.
+	 */
+	constructor(
+		root: E, path: string, options?: ConfigWatcherOptions & {applyDefaultValues?: D}
+	) {
+		super();
+		this.path = nodePath.resolve(path);
+		this.parser = new ConfigParser(root, options);
+		this.debounce = options?.debounce ?? 100;
+	}
+
+	/**
+	 * Read and validate the file, and start watching it and the files it includes.
+	 *
+	 * @returns An object representation of the configuration file.
+	 * @throws ConfigFileError: The file cannot be read, or is not correctly encoded.
+	 * @throws ConfigIncludeError: A directive cannot be resolved.
+	 * @throws ConfigParseFailureError: Failed to parse configuration.
+	 * @throws ConfigSyntaxError: The text could not be read.
+	 */
+	public start(): Infer<E, D> {
+		const files: string[] = [];
+		this.config = this.read(files);
+		this.watch(files);
+		return this.config;
+	}
+
+	/**
+	 * Get the last valid configuration.
+	 *
+	 * @returns The configuration, or **undefined** in case the watcher is not started.
+	 */
+	public getConfig(): Infer<E, D> {
+		return this.config;
+	}
+
+	/**
+	 * Read and validate the file right away, like after a change, and emit the **change** or
+	 * **error** event.
+	 */
+	public reload() {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+
+		const files: string[] = [];
+		let config: Infer<E, D>;
+		try {
+			config = this.read(files);
+		}
+		catch (err) {
+			// Keep watching the files of the last valid configuration, which are likely
+			// to be fixed, and the files that were read so far.
+			this.watch([...this.files, ...files]);
+			this.emit("error", err);
+			return;
+		}
+
+		this.watch(files);
+		const previous: Infer<E, D> = this.config;
+		this.config = config;
+		if (!isDeepStrictEqual(config, previous)) this.emit("change", config, previous);
+	}
+
+	/**
+	 * Stop watching the files. A reload that is pending is canceled.
+	 */
+	public close() {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+		this.watchers.forEach(watcher => watcher.close());
+		this.watchers.clear();
+	}
+
+	public override on(event: "change", listener: ConfigChangeListener<Infer<E, D>>): this;
+	public override on(event: "error", listener: (error: Error) => void): this;
+	public override on(event: string, listener: (...args: never[]) => void): this {
+		return super.on(event, listener);
+	}
+
+	/**
+	 * Read the file and the files it includes, and validate the configuration.
+	 *
+	 * @param files Array that receives the paths of all files that are read.
+	 */
+	private read(files: string[]): Infer<E, D> {
+		return this.parser.parseDocument(this.parser.readFile(this.path, files));
+	}
+
+	/**
+	 * Watch the directories of files, and stop watching the directories of other files.
+	 */
+	private watch(files: string[]) {
+		this.files = [...new Set(files)];
+		const directories: Set<string> =
+			new Set(this.files.map(file => nodePath.dirname(file)));
+
+		this.watchers.forEach((watcher, directory) => {
+			if (directories.has(directory)) return;
+			watcher.close();
+			this.watchers.delete(directory);
+		});
+
+		directories.forEach(directory => {
+			if (this.watchers.has(directory)) return;
+			try {
+				const watcher: fs.FSWatcher = fs.watch(directory, (_, name) => {
+					const file: string = name && nodePath.join(directory, name);
+					if (!file || this.files.includes(file)) this.schedule();
+				});
+				watcher.on("error", () => {
+					watcher.close();
+					this.watchers.delete(directory);
+				});
+				this.watchers.set(directory, watcher);
+			}
+			catch {
+				// The directory does not exist, which the next read reports.
+			}
+		});
+	}
+
+	private schedule() {
+		clearTimeout(this.timer);
+		this.timer = setTimeout(() => this.reload(), this.debounce);
+	}
+}
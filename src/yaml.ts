@@ -0,0 +1,1093 @@
+/**
+ * YAML reader module.
+ *
+ * This module contains a reader for YAML 1.2 text that resolves plain scalars with the core
+ * schema, and keeps track of the line and column of every key and value in the text. It supports
+ * the YAML that is used in configuration files: block and flow collections, plain and quoted
+ * scalars, literal and folded block scalars, anchors and aliases, the core schema tags and the
+ * **<<** merge key.
+ */
+import { ROOT_PATH, childPath, indexPath } from "./path";
+import {
+	ConfigReader,
+	ConfigSyntaxError,
+	LineIndex,
+	MAX_NESTING_DEPTH,
+	SourceDocument,
+	SourcePosition
+} from "./reader";
+import { hasOwnKey, isObject, setProperty } from "./value";
+
+/**
+ * Reader for YAML text.
+ *
+ * Only single document streams are supported. Plain scalars are resolved to **null**, booleans,
+ * numbers or strings following the YAML 1.2 core schema, so **yes** and **on** are strings, and
+ * mapping keys are always strings. Aliases give a copy of the value of their anchor.
+ */
+export class YamlReader implements ConfigReader {
+	public read(text: string, source?: string): SourceDocument {
+		return new YamlDocumentParser(text, source).parseDocument();
+	}
+}
+
+/**
+ * Maximum number of values that aliases can create, to guard against alias bombs.
+ */
+const MAX_ALIAS_VALUES: number = 100000;
+
+const FLOW_INDICATORS: string = ",[]{}";
+
+const CORE_SCHEMA_TAGS: string[] = [
+	"!", "!!str", "!!null", "!!bool", "!!int", "!!float", "!!map", "!!seq"
+];
+
+const ESCAPES: Map<string, string> = new Map([
+	["0", "\0"],
+	["a", "\x07"],
+	["b", "\b"],
+	["t", "\t"],
+	["\t", "\t"],
+	["n", "\n"],
+	["v", "\v"],
+	["f", "\f"],
+	["r", "\r"],
+	["e", "\x1b"],
+	[" ", " "],
+	["\"", "\""],
+	["/", "/"],
+	["\\", "\\"],
+	["N", "\x85"],
+	["_", "\xa0"],
+	["L", "\u2028"],
+	["P", "\u2029"],
+]);
+
+const HEX_ESCAPE_LENGTHS: Map<string, number> = new Map([
+	["x", 2],
+	["u", 4],
+	["U", 8],
+]);
+
+/**
+ * Type of the parent of a block node, which determines what the node may look like.
+ */
+type BlockContext = "document" | "mapping" | "sequence";
+
+/**
+ * The anchor and tag of a node.
+ */
+interface NodeProperties {
+	anchor?: string;
+	tag?: string;
+	position?: SourcePosition;
+}
+
+/**
+ * A scalar as it is written in the text, before it is resolved to a value.
+ */
+interface ScalarToken {
+	text: string;
+	plain: boolean;
+	position: SourcePosition;
+}
+
+/**
+ * Recursive descent parser for a single YAML text. A new instance is used for every text that
+ * is read.
+ *
+ * Block nodes are parsed with the indentation of their parent. Every method that parses a block
+ * node returns with the index at the first character of the next line with content, so the
+ * parent can continue based on the indentation of that line.
+ */
+class YamlDocumentParser {
+	private text: string;
+	private source: string;
+	private index: number = 0;
+	private depth: number = 0;
+	private lineIndex: LineIndex;
+
+	private positions: Map<string, SourcePosition> = new Map();
+	private keyPositions: Map<string, SourcePosition> = new Map();
+	private anchors: Map<string, unknown> = new Map();
+	private aliasValues: number = 0;
+
+	constructor(text: string, source?: string) {
+		this.text = text;
+		this.source = source;
+		this.lineIndex = new LineIndex(text);
+	}
+
+	public parseDocument(): SourceDocument {
+		if (this.text.startsWith("\ufeff")) this.index++;
+
+		this.skipToContent();
+		const hasDirectives: boolean = this.skipDirectives();
+
+		if (this.atDocumentMarker("---")) this.index += 3;
+		else if (hasDirectives) this.fail("Expected '---' after directives");
+
+		let value: unknown = null;
+		this.skipInline();
+		if (this.atLineEnd()) this.skipToNextContentLine();
+
+		if (this.atDocumentEnd())
+			this.positions.set(ROOT_PATH, this.currentPosition());
+		else
+			value = this.parseBlockNode(ROOT_PATH, -1, "document");
+
+		if (this.atDocumentMarker("...")) {
+			this.index += 3;
+			this.finishLine();
+		}
+
+		if (this.index < this.text.length) {
+			if (this.atDocumentMarker("---"))
+				this.fail("Multiple documents are not supported");
+			this.fail(`Unexpected ${this.describeCurrent()}`);
+		}
+
+		return {
+			value,
+			positions: this.positions,
+			keyPositions: this.keyPositions,
+			source: this.source
+		};
+	}
+
+	private skipDirectives(): boolean {
+		let hasDirectives: boolean = false;
+		while (this.text[this.index] === "%" && this.column() === 0) {
+			hasDirectives = true;
+			while (!this.atLineEnd()) this.index++;
+			this.skipToNextContentLine();
+		}
+		return hasDirectives;
+	}
+
+	/**
+	 * Parse a block node that follows a mapping key, a sequence entry indicator or the start
+	 * of the document.
+	 *
+	 * @param path Path of the node.
+	 * @param indent Indentation of the parent collection, -1 for the document.
+	 * @param context Type of the parent.
+	 * @returns The value of the node.
+	 */
+	private parseBlockNode(path: string, indent: number, context: BlockContext): unknown {
+		this.skipInline();
+		let properties: NodeProperties = {};
+		let sameLine: boolean = !this.atLineEnd();
+
+		// A node on the same line as a mapping key or the document start marker cannot be a
+		// block collection, a node on the same line as a sequence entry indicator can.
+		const lineStart: number = this.lineStart(this.index);
+		const afterParent: boolean = context === "mapping" ||
+			(context === "document" && this.atDocumentMarkerAt(lineStart));
+
+		if (sameLine) {
+			properties = this.parseProperties(false);
+			this.skipInline();
+			sameLine = !this.atLineEnd();
+		}
+
+		let value: unknown;
+		if (sameLine) {
+			value = this.parseBlockContent(path, indent, afterParent, properties);
+		}
+		else {
+			const emptyPosition: SourcePosition = this.currentPosition();
+			this.skipToNextContentLine();
+
+			const column: number = this.column();
+			const compactSequence: boolean = context === "mapping" &&
+				column === indent && this.atSequenceEntry();
+
+			if (!this.atDocumentEnd() && (column > indent || compactSequence)) {
+				value = this.parseBlockContent(path, indent, false, properties);
+			}
+			else {
+				this.positions.set(path, emptyPosition);
+				value = this.resolveEmptyNode(properties);
+			}
+		}
+
+		if (properties.anchor !== undefined) this.anchors.set(properties.anchor, value);
+		return value;
+	}
+
+	/**
+	 * Parse the content of a block node, which starts at the current index.
+	 *
+	 * @param path Path of the node.
+	 * @param indent Indentation of the parent collection.
+	 * @param afterParent The node is on the same line as its parent mapping key, so it cannot
+	 *        be a block collection.
+	 * @param properties The properties of the node.
+	 * @returns The value of the node.
+	 */
+	private parseBlockContent(
+		path: string, indent: number, afterParent: boolean, properties: NodeProperties
+	): unknown {
+		const position: SourcePosition = this.currentPosition();
+		const column: number = this.column();
+		this.positions.set(path, position);
+
+		if (this.atSequenceEntry()) {
+			if (afterParent) this.fail("Block sequence entries are not allowed here");
+			const array: unknown[] =
+				this.parseNested(() => this.parseBlockSequence(path, column));
+			return this.checkCollectionTag(properties, array);
+		}
+
+		const c: string = this.text[this.index];
+		if (c === "|" || c === ">")
+			return this.parseBlockScalar(indent);
+
+		if (c === "?" && this.isBlankOrEnd(this.text[this.index + 1]))
+			this.fail("Complex mapping keys are not supported");
+
+		let value: unknown;
+		let token: ScalarToken;
+		if (c === "[" || c === "{") value = this.parseFlowCollection(path);
+		else if (c === "*") value = this.parseAlias(false);
+		else token = this.parseScalarToken(false, indent);
+
+		this.skipInline(false);
+		if (this.text[this.index] === ":" && this.isBlankOrEnd(this.text[this.index + 1])) {
+			if (!token) this.fail("Only scalars are supported as mapping keys");
+			if (afterParent) this.fail("Mapping values are not allowed here");
+			const obj: object =
+				this.parseNested(() => this.parseBlockMapping(path, column, token));
+			return this.checkCollectionTag(properties, obj);
+		}
+
+		if (token) {
+			if (token.plain) token.text += this.parsePlainContinuation(indent);
+			value = this.resolveScalar(token, properties);
+		}
+		else {
+			value = this.checkCollectionTag(properties, value);
+		}
+
+		this.finishLine();
+		return value;
+	}
+
+	/**
+	 * Parse a nested collection, in case the nesting is not too deep.
+	 */
+	private parseNested<T>(parse: () => T): T {
+		if (this.depth >= MAX_NESTING_DEPTH)
+			this.fail(`Nesting is deeper than ${MAX_NESTING_DEPTH} levels`);
+
+		this.depth++;
+		const value: T = parse();
+		this.depth--;
+		return value;
+	}
+
+	private parseBlockMapping(path: string, indent: number, firstKey: ScalarToken): object {
+		const obj: object = {};
+		const merges: unknown[] = [];
+		let key: ScalarToken = firstKey;
+
+		for (;;) {
+			// Skip the ':' after the key.
+			this.index++;
+
+			const valuePath: string = childPath(path, key.text);
+			const value: unknown = this.parseBlockNode(valuePath, indent, "mapping");
+			this.addEntry(obj, merges, key, valuePath, value);
+
+			if (this.atDocumentEnd() || this.column() < indent) break;
+			if (this.column() > indent) this.fail("Bad indentation of a mapping entry");
+			if (this.atSequenceEntry()) {
+				const current: string = this.describeCurrent();
+				this.fail(`Unexpected ${current}, expected a mapping key`);
+			}
+
+			key = this.parseMappingKey(indent);
+		}
+
+		this.applyMerges(obj, merges);
+		return obj;
+	}
+
+	private parseMappingKey(indent: number): ScalarToken {
+		const c: string = this.text[this.index];
+		if (c === "?" && this.isBlankOrEnd(this.text[this.index + 1]))
+			this.fail("Complex mapping keys are not supported");
+		if (c === "[" || c === "{" || c === "*" || c === "&" || c === "!")
+			this.fail("Only scalars are supported as mapping keys");
+
+		const key: ScalarToken = this.parseScalarToken(false, indent);
+		this.skipInline(false);
+
+		if (this.text[this.index] !== ":" || !this.isBlankOrEnd(this.text[this.index + 1]))
+			this.fail(`Unexpected ${this.describeCurrent()}, expected ':'`);
+
+		return key;
+	}
+
+	private parseBlockSequence(path: string, indent: number): unknown[] {
+		const array: unknown[] = [];
+
+		for (;;) {
+			// Skip the '-' entry indicator.
+			this.index++;
+			const itemPath: string = indexPath(path, array.length);
+			array.push(this.parseBlockNode(itemPath, indent, "sequence"));
+
+			if (this.atDocumentEnd() || this.column() < indent) break;
+			if (this.column() > indent)
+				this.fail("Bad indentation of a sequence entry");
+			if (!this.atSequenceEntry()) break;
+		}
+
+		return array;
+	}
+
+	private parseBlockScalar(indent: number): string {
+		const folded: boolean = this.text[this.index] === ">";
+		let chomping: string = "clip";
+		let indentIndicator: number;
+		this.index++;
+
+		for (let i: number = 0; i < 2; i++) {
+			const c: string = this.text[this.index];
+			if ((c === "-" || c === "+") && chomping === "clip") {
+				chomping = c === "-" ? "strip" : "keep";
+				this.index++;
+			}
+			else if (c >= "1" && c <= "9" && indentIndicator === undefined) {
+				indentIndicator = Number(c);
+				this.index++;
+			}
+		}
+
+		if (!this.isBlankOrEnd(this.text[this.index]))
+			this.fail(`Unexpected ${this.describeCurrent()} in block scalar header`);
+		this.skipInline();
+		if (!this.atLineEnd())
+			this.fail(`Unexpected ${this.describeCurrent()} in block scalar header`);
+		this.skipBreak();
+
+		let contentIndent: number = indentIndicator === undefined ?
+			undefined : Math.max(indent, 0) + indentIndicator;
+		const lines: string[] = [];
+
+		while (this.index < this.text.length) {
+			const lineStart: number = this.index;
+			let spaces: number = 0;
+			while (this.text[lineStart + spaces] === " ") spaces++;
+
+			let lineEnd: number = lineStart + spaces;
+			while (lineEnd < this.text.length && !this.isBreak(this.text[lineEnd]))
+				lineEnd++;
+
+			const line: string = this.text.substring(lineStart, lineEnd);
+			const blank: boolean = /^[ \t]*$/.test(line);
+			if (blank && (contentIndent === undefined || spaces <= contentIndent)) {
+				lines.push("");
+			}
+			else {
+				contentIndent ??= Math.max(spaces, indent + 1);
+				if (spaces < contentIndent || this.atDocumentMarkerAt(lineStart))
+					break;
+				lines.push(line.substring(contentIndent));
+			}
+
+			this.index = lineEnd;
+			this.skipBreak();
+		}
+
+		// Trailing empty lines are only kept with the keep chomping indicator.
+		let trailingEmptyLines: number = 0;
+		while (lines.length && lines[lines.length - 1] === "") {
+			lines.pop();
+			trailingEmptyLines++;
+		}
+
+		const content: string = folded ? this.foldLines(lines) : this.joinLines(lines);
+
+		this.skipToContent();
+
+		if (chomping === "strip" || (!lines.length && chomping === "clip")) return content;
+		if (chomping === "clip") return `${content}\n`;
+		return content + "\n".repeat((lines.length ? 1 : 0) + trailingEmptyLines);
+	}
+
+	private joinLines(lines: string[]): string {
+		return lines.join("\n");
+	}
+
+	private foldLines(lines: string[]): string {
+		let result: string = "";
+		let emptyLines: number = 0;
+		let hasContent: boolean = false;
+		let previousMoreIndented: boolean = false;
+
+		for (const line of lines) {
+			if (line === "") {
+				emptyLines++;
+				continue;
+			}
+
+			// Line breaks around more indented lines are not folded.
+			const moreIndented: boolean = line[0] === " " || line[0] === "\t";
+			if (moreIndented || previousMoreIndented)
+				result += "\n".repeat(emptyLines + (hasContent ? 1 : 0));
+			else if (emptyLines === 0)
+				result += hasContent ? " " : "";
+			else
+				result += "\n".repeat(emptyLines);
+
+			result += line;
+			hasContent = true;
+			emptyLines = 0;
+			previousMoreIndented = moreIndented;
+		}
+
+		return result + "\n".repeat(hasContent ? 0 : emptyLines);
+	}
+
+	private parseFlowCollection(path: string): unknown {
+		return this.parseNested(() => this.text[this.index] === "[" ?
+			this.parseFlowSequence(path) : this.parseFlowMapping(path));
+	}
+
+	private parseFlowSequence(path: string): unknown[] {
+		const array: unknown[] = [];
+		this.index++;
+
+		for (;;) {
+			this.skipFlowSpace();
+			if (this.text[this.index] === "]") {
+				this.index++;
+				return array;
+			}
+
+			array.push(this.parseFlowNode(indexPath(path, array.length)));
+
+			this.skipFlowSpace();
+			if (this.text[this.index] === ":")
+				this.fail("Mappings in flow sequences are not supported");
+			if (this.text[this.index] === ",") {
+				this.index++;
+				continue;
+			}
+			this.expect("]");
+			return array;
+		}
+	}
+
+	private parseFlowMapping(path: string): object {
+		const obj: object = {};
+		const merges: unknown[] = [];
+		this.index++;
+
+		for (;;) {
+			this.skipFlowSpace();
+			if (this.text[this.index] === "}") {
+				this.index++;
+				this.applyMerges(obj, merges);
+				return obj;
+			}
+
+			const c: string = this.text[this.index];
+			if (c === "?" && this.isBlankOrEnd(this.text[this.index + 1]))
+				this.fail("Complex mapping keys are not supported");
+			if (c === "[" || c === "{" || c === "*" || c === "&" || c === "!")
+				this.fail("Only scalars are supported as mapping keys");
+
+			const key: ScalarToken = this.parseScalarToken(true, -1);
+			const valuePath: string = childPath(path, key.text);
+
+			this.skipFlowSpace();
+			let value: unknown = null;
+			if (this.text[this.index] === ":") {
+				this.index++;
+				this.skipFlowSpace();
+				if (this.text[this.index] === "," || this.text[this.index] === "}")
+					this.positions.set(valuePath, this.currentPosition());
+				else
+					value = this.parseFlowNode(valuePath);
+			}
+			else {
+				this.positions.set(valuePath, key.position);
+			}
+			this.addEntry(obj, merges, key, valuePath, value);
+
+			this.skipFlowSpace();
+			if (this.text[this.index] === ",") {
+				this.index++;
+				continue;
+			}
+			this.expect("}");
+			this.applyMerges(obj, merges);
+			return obj;
+		}
+	}
+
+	private parseFlowNode(path: string): unknown {
+		const properties: NodeProperties = this.parseProperties(true);
+		this.skipFlowSpace();
+
+		this.positions.set(path, this.currentPosition());
+		const c: string = this.text[this.index];
+
+		let value: unknown;
+		if (c === "[" || c === "{")
+			value = this.checkCollectionTag(properties, this.parseFlowCollection(path));
+		else if (c === "*")
+			value = this.parseAlias(true);
+		else if (properties.position && (c === undefined || ",]}".includes(c)))
+			value = this.resolveEmptyNode(properties);
+		else
+			value = this.resolveScalar(this.parseScalarToken(true, -1), properties);
+
+		if (properties.anchor !== undefined) this.anchors.set(properties.anchor, value);
+		return value;
+	}
+
+	/**
+	 * Parse a plain or quoted scalar. Plain scalars in block context only cover the current
+	 * line, see {@link parsePlainContinuation}.
+	 *
+	 * @param flow The scalar is in flow context.
+	 * @param indent Indentation of the parent collection.
+	 * @returns The scalar token.
+	 */
+	private parseScalarToken(flow: boolean, indent: number): ScalarToken {
+		const position: SourcePosition = this.currentPosition();
+		const c: string = this.text[this.index];
+
+		if (c === "'" || c === "\"")
+			return {text: this.parseQuotedScalar(), plain: false, position};
+
+		if (
+			c === undefined || "#&*!|>%@`,[]{}".includes(c) || this.isBreak(c) ||
+			("-?:".includes(c) && this.isPlainEnd(this.text[this.index + 1], flow))
+		) {
+			this.fail(`Unexpected ${this.describeCurrent()}, expected a value`);
+		}
+
+		let text: string = this.scanPlainLine(flow);
+		if (flow) text += this.parsePlainContinuation(indent, true);
+		return {text, plain: true, position};
+	}
+
+	private isPlainEnd(c: string, flow: boolean): boolean {
+		return this.isBlankOrEnd(c) || (flow && FLOW_INDICATORS.includes(c));
+	}
+
+	private scanPlainLine(flow: boolean): string {
+		const start: number = this.index;
+		let end: number = this.index;
+
+		while (!this.atLineEnd()) {
+			const c: string = this.text[this.index];
+			if (c === ":" && this.isPlainEnd(this.text[this.index + 1], flow)) break;
+			if (c === "#" && this.isWhite(this.text[this.index - 1])) break;
+			if (flow && FLOW_INDICATORS.includes(c)) break;
+
+			this.index++;
+			if (!this.isWhite(c)) end = this.index;
+		}
+
+		this.index = end;
+		return this.text.substring(start, end);
+	}
+
+	/**
+	 * Parse the lines that continue a plain scalar. A plain scalar continues on the next lines
+	 * as long as these are indented more than the parent collection, and is folded into a
+	 * single line.
+	 *
+	 * @param indent Indentation of the parent collection.
+	 * @param flow The scalar is in flow context.
+	 * @returns The continuation, including the folded line breaks.
+	 */
+	private parsePlainContinuation(indent: number, flow: boolean = false): string {
+		let result: string = "";
+
+		for (;;) {
+			const lineEnd: number = this.index;
+			this.skipInline(false);
+			if (!this.atLineEnd()) {
+				this.index = lineEnd;
+				return result;
+			}
+
+			let emptyLines: number = 0;
+			let next: number = this.index;
+			for (;;) {
+				next = this.skipBreakAt(next);
+				while (this.isWhite(this.text[next])) next++;
+				if (!this.isBreak(this.text[next])) break;
+				emptyLines++;
+			}
+
+			const c: string = this.text[next];
+			const column: number = next - this.lineStart(next);
+			const ends: boolean = c === undefined || c === "#" ||
+				this.atDocumentMarkerAt(next - column) ||
+				(flow ? `${FLOW_INDICATORS}:`.includes(c) : column <= indent);
+
+			if (ends) {
+				this.index = lineEnd;
+				return result;
+			}
+
+			if (!flow && this.hasTabIndentation(next))
+				this.failAt("Tab character in indentation", next);
+
+			this.index = next;
+			const line: string = this.scanPlainLine(flow);
+			if (!flow && this.text[this.index] === ":")
+				this.fail("Mapping values are not allowed in multi-line scalars");
+
+			result += (emptyLines ? "\n".repeat(emptyLines) : " ") + line;
+		}
+	}
+
+	private parseQuotedScalar(): string {
+		const start: number = this.index;
+		const quote: string = this.text[this.index];
+		let result: string = "";
+		// Length of the result without trailing whitespace that is removed when folding.
+		let kept: number = 0;
+		this.index++;
+
+		for (;;) {
+			const c: string = this.text[this.index];
+
+			if (c === undefined) {
+				this.index = start;
+				this.fail("Unterminated string");
+			}
+
+			if (c === quote) {
+				if (quote === "'" && this.text[this.index + 1] === "'") {
+					result += "'";
+					kept = result.length;
+					this.index += 2;
+					continue;
+				}
+				this.index++;
+				return result;
+			}
+
+			if (this.isBreak(c)) {
+				result = result.substring(0, kept) + this.foldQuotedLineBreaks();
+				kept = result.length;
+				continue;
+			}
+
+			if (quote === "\"" && c === "\\") {
+				if (this.isBreak(this.text[this.index + 1])) {
+					// An escaped line break continues without a space.
+					this.index++;
+					this.foldQuotedLineBreaks();
+					kept = result.length;
+					continue;
+				}
+				result += this.parseEscape();
+				kept = result.length;
+				continue;
+			}
+
+			result += c;
+			if (!this.isWhite(c)) kept = result.length;
+			this.index++;
+		}
+	}
+
+	/**
+	 * Skip the line breaks in a quoted scalar, and the whitespace at the start of the next
+	 * line.
+	 *
+	 * @returns The folded line breaks: a space for a single line break, otherwise a newline
+	 *          for every empty line.
+	 */
+	private foldQuotedLineBreaks(): string {
+		let emptyLines: number = -1;
+
+		while (this.isBreak(this.text[this.index])) {
+			this.skipBreak();
+			emptyLines++;
+			if (this.atDocumentMarkerAt(this.index))
+				this.fail("Document marker in quoted string");
+			while (this.isWhite(this.text[this.index])) this.index++;
+		}
+
+		return emptyLines ? "\n".repeat(emptyLines) : " ";
+	}
+
+	private parseEscape(): string {
+		const escape: string = this.text[this.index + 1];
+
+		if (ESCAPES.has(escape)) {
+			this.index += 2;
+			return ESCAPES.get(escape);
+		}
+
+		const length: number = HEX_ESCAPE_LENGTHS.get(escape);
+		const hex: string = this.text.substring(this.index + 2, this.index + 2 + length);
+		if (!length || !/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length)
+			this.fail("Invalid escape sequence");
+
+		const codePoint: number = parseInt(hex, 16);
+		if (codePoint > 0x10ffff) this.fail("Invalid escape sequence");
+
+		this.index += 2 + length;
+		return String.fromCodePoint(codePoint);
+	}
+
+	private parseAlias(flow: boolean): unknown {
+		const start: number = this.index;
+		const name: string = this.parseName(flow);
+
+		if (!this.anchors.has(name)) {
+			this.index = start;
+			this.fail(`Unknown alias *${name}`);
+		}
+
+		return this.copyValue(this.anchors.get(name), start);
+	}
+
+	/**
+	 * Copy the value of an anchor, so changes to the value of an alias do not change the
+	 * value of the anchor or of other aliases.
+	 */
+	private copyValue(value: unknown, aliasIndex: number): unknown {
+		if (++this.aliasValues > MAX_ALIAS_VALUES)
+			this.failAt("Too many values created by aliases", aliasIndex);
+
+		if (Array.isArray(value)) return value.map(v => this.copyValue(v, aliasIndex));
+		if (value === null || typeof value !== "object") return value;
+
+		const copy: object = {};
+		for (const [key, v] of Object.entries(value))
+			setProperty(copy, key, this.copyValue(v, aliasIndex));
+		return copy;
+	}
+
+	/**
+	 * Parse the anchor and tag of a node, if any.
+	 *
+	 * @param flow The node is in flow context.
+	 * @returns The properties of the node.
+	 */
+	private parseProperties(flow: boolean): NodeProperties {
+		const properties: NodeProperties = {};
+
+		for (;;) {
+			if (flow) this.skipFlowSpace();
+			else this.skipInline();
+
+			const c: string = this.text[this.index];
+			if (c === "&" && properties.anchor === undefined) {
+				properties.position ??= this.currentPosition();
+				properties.anchor = this.parseName(flow);
+			}
+			else if (c === "!" && properties.tag === undefined) {
+				properties.position ??= this.currentPosition();
+				properties.tag = this.parseTag(flow);
+			}
+			else {
+				return properties;
+			}
+		}
+	}
+
+	private parseName(flow: boolean): string {
+		this.index++;
+		const start: number = this.index;
+
+		while (!this.isPlainEnd(this.text[this.index], flow)) this.index++;
+
+		if (this.index === start)
+			this.fail(`Unexpected ${this.describeCurrent()}, expected a name`);
+		return this.text.substring(start, this.index);
+	}
+
+	private parseTag(flow: boolean): string {
+		const start: number = this.index;
+		while (!this.isPlainEnd(this.text[this.index], flow)) this.index++;
+
+		const tag: string = this.text.substring(start, this.index)
+			.replace(/^!<tag:yaml\.org,2002:(.*)>$/, "!!$1");
+
+		if (!CORE_SCHEMA_TAGS.includes(tag)) {
+			this.index = start;
+			this.fail(`Unsupported tag ${tag}`);
+		}
+		return tag;
+	}
+
+	/**
+	 * Resolve a scalar to its value, using the tag or else the core schema.
+	 *
+	 * @param token The scalar.
+	 * @param properties The properties of the scalar.
+	 * @returns The value of the scalar.
+	 */
+	private resolveScalar(token: ScalarToken, properties: NodeProperties): unknown {
+		const tag: string = properties.tag ?? (token.plain ? "?" : "!");
+		const text: string = token.text;
+
+		switch (tag) {
+			case "!":
+			case "!!str":
+				return text;
+			case "?":
+				return resolvePlainScalar(text);
+			case "!!map":
+			case "!!seq":
+				if (text === "" && token.plain) return tag === "!!map" ? {} : [];
+				break;
+			default: {
+				const value: unknown = resolvePlainScalar(text);
+				if (tag === "!!null" && value === null) return value;
+				if (tag === "!!bool" && typeof value === "boolean") return value;
+				if (tag === "!!int" && Number.isInteger(value)) return value;
+				if (tag === "!!float" && typeof value === "number") return value;
+			}
+		}
+
+		this.failAt(`A scalar cannot be tagged ${tag}`, properties.position);
+	}
+
+	private resolveEmptyNode(properties: NodeProperties): unknown {
+		return this.resolveScalar({text: "", plain: true, position: null}, properties);
+	}
+
+	/**
+	 * Check that the tag of a collection matches the type of the collection.
+	 *
+	 * @param properties The properties of the collection.
+	 * @param value The collection.
+	 * @returns The collection.
+	 */
+	private checkCollectionTag(properties: NodeProperties, value: unknown): unknown {
+		const tag: string = Array.isArray(value) ? "!!seq" : "!!map";
+		const given: string = properties.tag;
+		if (typeof value === "object" && given && given !== tag && given !== "!") {
+			const kind: string = tag === "!!seq" ? "sequence" : "mapping";
+			this.failAt(`A ${kind} cannot be tagged ${given}`, properties.position);
+		}
+
+		return value;
+	}
+
+	private addEntry(
+		obj: object, merges: unknown[], key: ScalarToken, valuePath: string, value: unknown
+	) {
+		if (key.plain && key.text === "<<") {
+			merges.push(value);
+			return;
+		}
+
+		if (hasOwnKey(obj, key.text))
+			this.failAt(`Duplicate key ${key.text}`, key.position);
+
+		this.keyPositions.set(valuePath, key.position);
+		setProperty(obj, key.text, value);
+	}
+
+	/**
+	 * Apply the values of **<<** merge keys. Keys of the mapping itself take precedence over
+	 * merged keys, and keys of earlier merged mappings over keys of later ones.
+	 */
+	private applyMerges(obj: object, merges: unknown[]) {
+		for (const merge of merges.flat()) {
+			if (!isObject(merge))
+				this.fail("A merge key must have a mapping or a list of mappings");
+
+			for (const [key, value] of Object.entries(merge)) {
+				if (!hasOwnKey(obj, key))
+					setProperty(obj, key, value);
+			}
+		}
+	}
+
+	private expect(c: string) {
+		if (this.text[this.index] !== c)
+			this.fail(`Unexpected ${this.describeCurrent()}, expected '${c}'`);
+		this.index++;
+	}
+
+	/**
+	 * Skip the rest of the current line, which can only contain whitespace and a comment, and
+	 * continue at the next line with content.
+	 */
+	private finishLine() {
+		this.skipInline();
+		if (!this.atLineEnd()) this.fail(`Unexpected ${this.describeCurrent()}`);
+		this.skipToNextContentLine();
+	}
+
+	/**
+	 * Skip whitespace and, optionally, a comment on the current line.
+	 *
+	 * @param comments Also skip a comment.
+	 */
+	private skipInline(comments: boolean = true) {
+		while (this.isWhite(this.text[this.index])) this.index++;
+
+		// A comment must be separated from other content by whitespace.
+		const separated: boolean =
+			this.column() === 0 || this.isWhite(this.text[this.index - 1]);
+		if (comments && this.text[this.index] === "#" && separated) {
+			while (!this.atLineEnd()) this.index++;
+		}
+	}
+
+	/**
+	 * Skip whitespace, line breaks and comments in flow context.
+	 */
+	private skipFlowSpace() {
+		for (;;) {
+			this.skipInline();
+			if (!this.isBreak(this.text[this.index])) return;
+			this.skipBreak();
+			if (this.atDocumentMarkerAt(this.index))
+				this.fail("Document marker in flow collection");
+		}
+	}
+
+	private skipToNextContentLine() {
+		this.skipBreak();
+		this.skipToContent();
+	}
+
+	/**
+	 * Skip empty lines and comment lines from the start of a line, and continue at the first
+	 * character of the next line with content.
+	 */
+	private skipToContent() {
+		for (;;) {
+			const lineStart: number = this.index;
+			while (this.text[this.index] === " ") this.index++;
+
+			const indentEnd: number = this.index;
+			this.skipInline();
+
+			if (this.index >= this.text.length) return;
+			if (!this.isBreak(this.text[this.index])) {
+				if (this.hasTabIndentation(lineStart))
+					this.failAt("Tab character in indentation", indentEnd);
+				this.index = indentEnd;
+				return;
+			}
+
+			this.skipBreak();
+		}
+	}
+
+	private hasTabIndentation(index: number): boolean {
+		const lineStart: number = this.lineStart(index);
+		let i: number = lineStart;
+		while (this.text[i] === " ") i++;
+		return this.text[i] === "\t";
+	}
+
+	private skipBreak() {
+		this.index = this.skipBreakAt(this.index);
+	}
+
+	private skipBreakAt(index: number): number {
+		if (this.text[index] === "\r") index++;
+		if (this.text[index] === "\n") index++;
+		return index;
+	}
+
+	private atLineEnd(): boolean {
+		const c: string = this.text[this.index];
+		return c === undefined || this.isBreak(c);
+	}
+
+	private atSequenceEntry(): boolean {
+		return this.text[this.index] === "-" &&
+			this.isBlankOrEnd(this.text[this.index + 1]);
+	}
+
+	private atDocumentEnd(): boolean {
+		return this.index >= this.text.length || this.atDocumentMarkerAt(this.index);
+	}
+
+	private atDocumentMarker(marker: string): boolean {
+		return this.atDocumentMarkerAt(this.index) &&
+			this.text.startsWith(marker, this.index);
+	}
+
+	private atDocumentMarkerAt(index: number): boolean {
+		const marker: string = this.text.substring(index, index + 3);
+		return (marker === "---" || marker === "...") &&
+			this.lineStart(index) === index && this.isBlankOrEnd(this.text[index + 3]);
+	}
+
+	private isBreak(c: string): boolean {
+		return c === "\n" || c === "\r";
+	}
+
+	private isWhite(c: string): boolean {
+		return c === " " || c === "\t";
+	}
+
+	private isBlankOrEnd(c: string): boolean {
+		return c === undefined || this.isWhite(c) || this.isBreak(c);
+	}
+
+	private lineStart(index: number): number {
+		return index - this.lineIndex.getPosition(index).column + 1;
+	}
+
+	private column(): number {
+		return this.index - this.lineStart(this.index);
+	}
+
+	private describeCurrent(): string {
+		const c: string = this.text[this.index];
+		if (c === undefined) return "end of input";
+		if (this.isBreak(c)) return "end of line";
+		return `character '${c}'`;
+	}
+
+	private currentPosition(): SourcePosition {
+		return this.lineIndex.getPosition(this.index);
+	}
+
+	private fail(detail: string): never {
+		throw new ConfigSyntaxError(detail, this.currentPosition(), this.source);
+	}
+
+	private failAt(detail: string, at: number | SourcePosition): never {
+		const position: SourcePosition = typeof at === "number" ?
+			this.lineIndex.getPosition(at) : at;
+		throw new ConfigSyntaxError(detail, position, this.source);
+	}
+}
+
+/**
+ * Resolve a plain scalar following the YAML 1.2 core schema.
+ *
+ * @param text The text of the scalar.
+ * @returns **null**, a boolean, a number or the text itself.
+ */
+function resolvePlainScalar(text: string): unknown {
+	if (/^(?:~|null|Null|NULL|)$/.test(text)) return null;
+	if (/^(?:true|True|TRUE)$/.test(text)) return true;
+	if (/^(?:false|False|FALSE)$/.test(text)) return false;
+	if (/^[-+]?[0-9]+$/.test(text)) return Number(text);
+	if (/^0o[0-7]+$/.test(text)) return parseInt(text.substring(2), 8);
+	if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.substring(2), 16);
+	if (/^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/.test(text))
+		return Number(text);
+	if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text))
+		return text.startsWith("-") ? -Infinity : Infinity;
+	if (/^\.(?:nan|NaN|NAN)$/.test(text)) return NaN;
+	return text;
+}
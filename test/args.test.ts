@@ -0,0 +1,152 @@
+import { ConfigArgumentError, formatArgumentsHelp, parseArguments } from "../src/args";
+import { ConfigElementBuilder } from "../src/elements";
+
+const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").build(),
+	new ConfigElementBuilder().ofTypeBoolean().withName("verbose").isOptional()
+		.withDefaultValue(false).build(),
+	new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+		new ConfigElementBuilder().ofTypeNumber().withName("port").withMinValue(1)
+			.withMaxValue(65535).build(),
+		new ConfigElementBuilder().ofTypeString().withName("mode")
+			.withValidStringValues("fast", "safe").build()
+	).build(),
+	new ConfigElementBuilder().ofTypeArray().withName("tag").withStringArrayElements()
+		.build(),
+	new ConfigElementBuilder().ofTypeArray().withName("ports").withNumberArrayElements()
+		.build()
+).build();
+
+describe("Parsing command line arguments", () => {
+	test("Reads options with a value after an equals sign or in the next argument", () => {
+		const {overrides, help} = parseArguments(
+			["--db.port=5432", "--name", "app", "--db.mode", "fast"], root
+		);
+
+		expect(help).toBe(false);
+		expect(overrides.value).toEqual({name: "app", db: {port: 5432, mode: "fast"}});
+		expect(overrides.sources.get("$.db.port")).toBe("argument --db.port");
+		expect(overrides.sources.get("$.name")).toBe("argument --name");
+		expect(overrides.positions.size).toBe(0);
+	});
+
+	test.each<[string[], boolean]>([
+		[["--verbose"], true],
+		[["--no-verbose"], false],
+		[["--verbose=FALSE"], false],
+		[["--verbose", "--no-verbose"], false],
+	])("Reads boolean options %j", (argv, verbose) => {
+		expect(parseArguments(argv, root).overrides.value).toEqual({verbose});
+	});
+
+	test("Collects repeated array options", () => {
+		const {overrides} = parseArguments(
+			["--tag", "a", "--tag=b", "--ports", "80", "--ports", "x"], root
+		);
+
+		expect(overrides.value).toEqual({tag: ["a", "b"], ports: [80, "x"]});
+		expect(overrides.sources.get("$.tag")).toBe("argument --tag");
+	});
+
+	test("Uses the last value of repeated options", () => {
+		expect(parseArguments(["--name=a", "--name=b"], root).overrides.value)
+			.toEqual({name: "b"});
+	});
+
+	test("Keeps values that cannot be converted as string", () => {
+		expect(parseArguments(["--db.port=80a", "--verbose=yes"], root).overrides.value)
+			.toEqual({db: {port: "80a"}, verbose: "yes"});
+	});
+
+	test("Ignores the arguments after --", () => {
+		expect(parseArguments(["--name=a", "--", "--other"], root).overrides.value)
+			.toEqual({name: "a"});
+	});
+
+	test("Has no value without options", () => {
+		expect(parseArguments([], root).overrides.value).toBeUndefined();
+	});
+
+	test.each<[string[]]>([
+		[["--help"]],
+		[["--db.port=1", "-h", "--other"]],
+	])("Requests help with %j", argv => {
+		const {overrides, help} = parseArguments(argv, root);
+
+		expect(help).toBe(true);
+		expect(overrides.value).toBeUndefined();
+	});
+
+	test.each<[string[], string]>([
+		[["--other=1"], "--other: Unknown option"],
+		[["--db"], "--db: Unknown option"],
+		[["--no-name"], "--no-name: Unknown option"],
+		[["--no-verbose=true"], "--no-verbose: Unknown option"],
+		[["--name"], "--name: Option needs a value"],
+		[["--name", "--verbose"], "--name: Option needs a value"],
+		[["app"], "argument 1: Unexpected argument"],
+		[["-v"], "argument 1: Unexpected argument"],
+		[["--verbose", "hunter2"], "argument 2: Unexpected argument"],
+		[["--name=a", "--verbose", "hunter2"], "argument 3: Unexpected argument"],
+	])("Rejects %j", (argv, message) => {
+		expect(() => parseArguments(argv, root)).toThrow(ConfigArgumentError);
+		expect(() => parseArguments(argv, root)).toThrow(message);
+	});
+
+	test("Does not repeat values in errors", () => {
+		expect(() => parseArguments(["--name=a", "hunter2"], root))
+			.toThrow(/^argument 2: Unexpected argument$/);
+		expect(() => parseArguments(["--bogus=hunter2"], root))
+			.toThrow(/^--bogus: Unknown option$/);
+	});
+
+	test("Reports the code and argument of errors", () => {
+		let error: ConfigArgumentError;
+		try {
+			parseArguments(["--other"], root);
+		}
+		catch (err) {
+			error = err as ConfigArgumentError;
+		}
+
+		expect(error.code).toBe("ARGUMENT_ERROR");
+		expect(error.argument).toBe("--other");
+		expect(error.detail).toBe("Unknown option");
+	});
+});
+
+describe("Formatting command line help", () => {
+	test("Lists the options of all elements", () => {
+		expect(formatArgumentsHelp(root)).toBe([
+			"Options:",
+			"  --name <string>",
+			"  --[no-]verbose      Default false",
+			"  --db.port <number>  Minimum 1, maximum 65535",
+			"  --db.mode <string>  One of fast, safe",
+			"  --tag <value>...    Repeatable",
+			"  --ports <value>...  Repeatable",
+			"  -h, --help          Show this help",
+			"",
+		].join("\n"));
+	});
+
+	test("Does not show the default values of secret elements", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("password").isSecret()
+				.isOptional().withDefaultValue("changeme").build(),
+			new ConfigElementBuilder().ofTypeObject().withName("keys").isSecret()
+				.withChildElements(
+					new ConfigElementBuilder().ofTypeString().withName("api")
+						.isOptional().withDefaultValue("k3y").build()
+				).build()
+		).build();
+
+		expect(formatArgumentsHelp(element)).toBe([
+			"Options:",
+			"  --password <string>",
+			"  --keys.api <string>",
+			"  -h, --help           Show this help",
+			"",
+		].join("\n"));
+	});
+});
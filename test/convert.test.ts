@@ -0,0 +1,58 @@
+import { coerceArrayItem, coerceValue } from "../src/convert";
+import { ArrayElement, ConfigElementBuilder } from "../src/elements";
+
+const number = new ConfigElementBuilder().ofTypeNumber().build();
+const boolean = new ConfigElementBuilder().ofTypeBoolean().build();
+const string = new ConfigElementBuilder().ofTypeString().build();
+const numbers: ArrayElement = new ConfigElementBuilder().ofTypeArray()
+	.withNumberArrayElements().build();
+const mixed: ArrayElement = new ConfigElementBuilder().ofTypeArray()
+	.withStringArrayElements().withBooleanArrayElements().withNumberArrayElements().build();
+const ordered: ArrayElement = new ArrayElement();
+ordered.setOrderedElements(string, boolean);
+const objects: ArrayElement = new ConfigElementBuilder().ofTypeArray()
+	.withStringArrayElements()
+	.withObjectArrayElements(new ConfigElementBuilder().ofTypeObject().build()).build();
+
+describe("Coercing values", () => {
+	test.each<[unknown, unknown]>([
+		["42", 42],
+		["-1.5e3", -1500],
+		["42a", "42a"],
+		["", ""],
+		[42, 42],
+	])("Coerces %j for a number element", (value, coerced) => {
+		expect(coerceValue(value, number)).toEqual(coerced);
+	});
+
+	test.each<[unknown, unknown]>([
+		["true", true],
+		["FALSE", false],
+		["1", true],
+		["0", false],
+		["yes", "yes"],
+	])("Coerces %j for a boolean element", (value, coerced) => {
+		expect(coerceValue(value, boolean)).toEqual(coerced);
+	});
+
+	test.each<[ArrayElement, string, unknown]>([
+		[numbers, "1, 2,3", [1, 2, 3]],
+		[numbers, "1,x", [1, "x"]],
+		[numbers, "", []],
+		[mixed, "a,1,true", ["a", 1, true]],
+		[ordered, "a,1", ["a", true]],
+		[objects, "a,b", "a,b"],
+	])("Coerces comma separated lists for array elements", (element, value, coerced) => {
+		expect(coerceValue(value, element)).toEqual(coerced);
+	});
+
+	test("Keeps strings for string elements", () => {
+		expect(coerceValue("42", string)).toBe("42");
+	});
+
+	test("Coerces array items to the allowed types", () => {
+		expect(coerceArrayItem("1", numbers, 0)).toBe(1);
+		expect(coerceArrayItem("0", ordered, 1)).toBe(false);
+		expect(coerceArrayItem("x", numbers, 0)).toBe("x");
+	});
+});
@@ -0,0 +1,146 @@
+import { diffConfigs, formatDiff } from "../src/diff";
+import { ConfigElementBuilder } from "../src/elements";
+
+const server = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").build(),
+	new ConfigElementBuilder().ofTypeNumber().withName("weight").build()
+).build();
+
+const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").build(),
+	new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+		new ConfigElementBuilder().ofTypeNumber().withName("port").requiresRestart()
+			.build(),
+		new ConfigElementBuilder().ofTypeString().withName("password").isSecret().build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("pool").isOptional().build()
+	).build(),
+	new ConfigElementBuilder().ofTypeArray().withName("servers")
+		.withMergeStrategy("mergeByKey", "name").withObjectArrayElements(server).build(),
+	new ConfigElementBuilder().ofTypeArray().withName("tags").withStringArrayElements()
+		.build()
+).build();
+
+const oldConfig = {
+	name: "app",
+	db: {port: 5432, password: "old"},
+	servers: [{name: "a", weight: 1}, {name: "b", weight: 2}],
+	tags: ["x", "y"]
+};
+
+describe("Comparing configurations", () => {
+	test("Reports nothing for equal configurations", () => {
+		expect(diffConfigs(oldConfig, structuredClone(oldConfig), root))
+			.toEqual({changes: [], restartRequired: false});
+	});
+
+	test("Reports added, removed and changed values", () => {
+		const diff = diffConfigs(oldConfig, {
+			...oldConfig,
+			name: "new",
+			db: {port: 5432, password: "old", pool: 10},
+			tags: ["x"]
+		}, root);
+
+		expect(diff).toEqual({
+			changes: [
+				{kind: "changed", path: "$.name", oldValue: "app", newValue: "new",
+					restartRequired: false},
+				{kind: "added", path: "$.db.pool", newValue: 10,
+					restartRequired: false},
+				{kind: "removed", path: "$.tags[1]", oldValue: "y",
+					restartRequired: false},
+			],
+			restartRequired: false
+		});
+	});
+
+	test("Compares arrays with a merge key by key", () => {
+		const diff = diffConfigs(oldConfig, {
+			...oldConfig,
+			servers: [
+				{name: "c", weight: 3},
+				{name: "b", weight: 2},
+				{name: "a", weight: 5}
+			]
+		}, root);
+
+		expect(diff.changes).toEqual([
+			{kind: "added", path: "$.servers[0]", newValue: {name: "c", weight: 3},
+				restartRequired: false},
+			{kind: "changed", path: "$.servers[2].weight", oldValue: 1, newValue: 5,
+				restartRequired: false},
+		]);
+	});
+
+	test("Masks secret values", () => {
+		const diff = diffConfigs(oldConfig, {
+			...oldConfig, db: {port: 5432, password: "new"}
+		}, root);
+
+		expect(diff.changes).toEqual([
+			{kind: "changed", path: "$.db.password", oldValue: "******",
+				newValue: "******", restartRequired: false},
+		]);
+	});
+
+	test("Masks secret values below added values", () => {
+		const diff = diffConfigs(
+			{name: "app"}, {name: "app", db: {port: 1, password: "p"}}, root
+		);
+
+		expect(diff.changes).toEqual([
+			{kind: "added", path: "$.db", newValue: {port: 1, password: "******"},
+				restartRequired: true},
+		]);
+		expect(diff.restartRequired).toBe(true);
+	});
+
+	test("Flags changes of elements that require a restart", () => {
+		const diff = diffConfigs(oldConfig, {
+			...oldConfig, db: {port: 5433, password: "old"}
+		}, root);
+
+		expect(diff.changes).toEqual([
+			{kind: "changed", path: "$.db.port", oldValue: 5432, newValue: 5433,
+				restartRequired: true},
+		]);
+		expect(diff.restartRequired).toBe(true);
+	});
+
+	test("Compares values without an element", () => {
+		const diff = diffConfigs({a: {b: [1]}}, {a: {b: [2], c: null}}, undefined);
+
+		expect(diff.changes.map(c => [c.kind, c.path])).toEqual([
+			["changed", "$.a.b[0]"],
+			["added", "$.a.c"],
+		]);
+	});
+});
+
+describe("Formatting configuration changes", () => {
+	const diff = diffConfigs(oldConfig, {
+		name: "app",
+		db: {port: 5433, password: "new"},
+		servers: [{name: "a", weight: 1}],
+		tags: ["x", "y", "z"]
+	}, root);
+
+	test("Formats a line per change as text", () => {
+		expect(formatDiff(diff)).toBe([
+			"~ $.db.port: 5432 -> 5433 (restart required)",
+			"~ $.db.password: \"******\" -> \"******\"",
+			"- $.servers[1]: {\"name\":\"b\",\"weight\":2}",
+			"+ $.tags[2]: \"z\"",
+			"Restart required",
+			"",
+		].join("\n"));
+	});
+
+	test("Formats configurations without changes as text", () => {
+		expect(formatDiff(diffConfigs(oldConfig, oldConfig, root))).toBe("No changes\n");
+	});
+
+	test("Formats the changes as JSON", () => {
+		expect(JSON.parse(formatDiff(diff, "json"))).toEqual(diff);
+	});
+});
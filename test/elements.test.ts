@@ -9,6 +9,7 @@ import {
 	ConfigElement,
 	ConfigElementBuilder,
 	ElementValidator,
+	Infer,
 	InvalidConfigurationElementError,
 	NumberElement,
 	ObjectElement,
@@ -45,6 +46,42 @@ describe("Given any kind of element", () => {
 		expect(validators).toHaveLength(1);
 		expect(validators[0].validate(element, "John")).toBe(true);
 	});
+
+	test("set/getEnvironmentVariable()", () => {
+		const element: ObjectElement = new ObjectElement();
+		expect(element.getEnvironmentVariable()).toBeUndefined();
+		element.setEnvironmentVariable("APP_DB");
+		expect(element.getEnvironmentVariable()).toBe("APP_DB");
+	});
+
+	test("Builder withEnvironmentVariable sets the environment variable", () => {
+		expect(new ConfigElementBuilder().ofTypeNumber().withEnvironmentVariable("PORT")
+			.build().getEnvironmentVariable()).toBe("PORT");
+	});
+
+	test("set/isSensitive()", () => {
+		const element: StringElement = new StringElement();
+		expect(element.isSensitive()).toBe(false);
+		element.setSensitive(true);
+		expect(element.isSensitive()).toBe(true);
+	});
+
+	test("Builder isSecret marks the element as sensitive", () => {
+		expect(new ConfigElementBuilder().ofTypeObject().isSecret().build().isSensitive())
+			.toBe(true);
+	});
+
+	test("set/isRestartRequired()", () => {
+		const element: NumberElement = new NumberElement();
+		expect(element.isRestartRequired()).toBe(false);
+		element.setRestartRequired(true);
+		expect(element.isRestartRequired()).toBe(true);
+	});
+
+	test("Builder requiresRestart marks the element as requiring a restart", () => {
+		const element = new ConfigElementBuilder().ofTypeNumber().requiresRestart().build();
+		expect(element.isRestartRequired()).toBe(true);
+	});
 });
 
 describe("Given an object element", () => {
@@ -109,6 +146,62 @@ describe("Given an object element", () => {
 	});
 });
 
+describe("Given an object element that sets its strictness", () => {
+	test("set/get strict", () => {
+		const element: ObjectElement = new ObjectElement();
+		expect(element.getStrict()).toBeUndefined();
+		element.setStrict(false);
+		expect(element.getStrict()).toBe(false);
+	});
+
+	test("Builder withStrict sets the strictness of an ObjectElement", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withStrict().build();
+		expect((element as ObjectElement).getStrict()).toBe(true);
+		expect(() => {
+			new ConfigElementBuilder().ofTypeString().withStrict();
+		}).toThrow(BuilderMissingOrInvalidOfTypeError);
+	});
+});
+
+describe("Given an object element with a version", () => {
+	test("set/get version", () => {
+		const element: ObjectElement = new ObjectElement();
+		expect(element.getVersionKey()).toBeUndefined();
+		expect(element.getVersion()).toBeUndefined();
+		element.setVersion("version", 2);
+		expect(element.getVersionKey()).toBe("version");
+		expect(element.getVersion()).toBe(2);
+	});
+
+	test.each<[number]>([[0], [1.5], [NaN]])("setVersion rejects version %p", version => {
+		expect(() => new ObjectElement().setVersion("version", version))
+			.toThrow(InvalidConfigurationElementError);
+	});
+
+	test("add/get migration", () => {
+		const element: ObjectElement = new ObjectElement();
+		const migration = (config: Record<string, unknown>) => config;
+		element.addMigration(1, migration);
+		expect(element.getMigration(1)).toBe(migration);
+		expect(element.getMigration(2)).toBeUndefined();
+	});
+
+	test("Builder withVersion and withMigration set the version of an ObjectElement", () => {
+		const migration = (config: Record<string, unknown>) => config;
+		const element = new ConfigElementBuilder().ofTypeObject().withVersion("v", 2)
+			.withMigration(1, migration).build() as ObjectElement;
+		expect(element.getVersionKey()).toBe("v");
+		expect(element.getVersion()).toBe(2);
+		expect(element.getMigration(1)).toBe(migration);
+		expect(() => {
+			new ConfigElementBuilder().ofTypeString().withVersion("v", 2);
+		}).toThrow(BuilderMissingOrInvalidOfTypeError);
+		expect(() => {
+			new ConfigElementBuilder().ofTypeString().withMigration(1, migration);
+		}).toThrow(BuilderMissingOrInvalidOfTypeError);
+	});
+});
+
 describe("Given an array element", () => {
 
 	const currentType: string = "array";
@@ -240,6 +333,39 @@ describe("Given an array element", () => {
 		expect(orderedElements[1]).toBeInstanceOf(BooleanElement);
 	});
 
+	test("set/getMergeStrategy()", () => {
+		// Default is replace
+		expect(arrayElement.getMergeStrategy()).toBe("replace");
+		arrayElement.setMergeStrategy("append");
+		expect(arrayElement.getMergeStrategy()).toBe("append");
+		expect(arrayElement.getMergeKey()).toBeUndefined();
+		arrayElement.setMergeStrategy("mergeByKey", "name");
+		expect(arrayElement.getMergeStrategy()).toBe("mergeByKey");
+		expect(arrayElement.getMergeKey()).toBe("name");
+	});
+
+	test("set merge strategy with a key that does not match throws error", () => {
+		expect(() => arrayElement.setMergeStrategy("mergeByKey")).toThrow(
+			InvalidConfigurationElementError
+		);
+		expect(() => arrayElement.setMergeStrategy("append", "name")).toThrow(
+			InvalidConfigurationElementError
+		);
+	});
+
+	test("get item element of allowed and ordered elements", () => {
+		const se: StringElement = new StringElement();
+		arrayElement.allowStringElements(se);
+		expect(arrayElement.getItemElement("a", 3)).toBe(se);
+		expect(arrayElement.getItemElement(1, 0)).toBeUndefined();
+		expect(arrayElement.getItemElement(null, 0)).toBeUndefined();
+
+		const ordered: ArrayElement = new ArrayElement();
+		const be: BooleanElement = new BooleanElement();
+		ordered.setOrderedElements(se, be);
+		expect(ordered.getItemElement("a", 1)).toBe(be);
+	});
+
 	test("is correct type for an array", () => {
 		expect(arrayElement.isCorrectType([1, 2])).toBe(true);
 	});
@@ -311,6 +437,12 @@ describe("Given a number element", () => {
 		expect(numberElement.getMaxValue()).toBe(2);
 
 	});
+
+	test("set/getAllowNonFiniteValues()", () => {
+		expect(numberElement.allowNonFiniteValues()).toBe(false);
+		numberElement.setAllowNonFiniteValues();
+		expect(numberElement.allowNonFiniteValues()).toBe(true);
+	});
 });
 
 describe("Given a string element", () => {
@@ -354,6 +486,12 @@ describe("Given a string element", () => {
 		expect(validValues[0]).toBe("hi");
 		expect(validValues[1]).toBe("there");
 	});
+
+	test("set/get interpolation", () => {
+		expect(stringElement.getInterpolation()).toBeUndefined();
+		stringElement.setInterpolation(false);
+		expect(stringElement.getInterpolation()).toBe(false);
+	});
 });
 
 describe("given an element builder", () => {
@@ -459,6 +597,16 @@ describe("given an element builder", () => {
 		}).toThrow(BuilderMissingOrInvalidOfTypeError);
 	});
 
+	test("withInterpolation turns interpolation of a StringElement on or off", () => {
+		expect(new ConfigElementBuilder().ofTypeString().withInterpolation().build()
+			.getInterpolation()).toBe(true);
+		expect(new ConfigElementBuilder().ofTypeString().withInterpolation(false).build()
+			.getInterpolation()).toBe(false);
+		expect(() => {
+			new ConfigElementBuilder().ofTypeNumber().withInterpolation();
+		}).toThrow(BuilderMissingOrInvalidOfTypeError);
+	});
+
 	test("withMinValue sets the minimum value of the build NumberElement", () => {
 		const ne: NumberElement = new ConfigElementBuilder()
 			.ofTypeNumber().withMinValue(10).build() as NumberElement;
@@ -483,6 +631,18 @@ describe("given an element builder", () => {
 		}).toThrow(BuilderMissingOrInvalidOfTypeError);
 	});
 
+	test("withAllowNonFiniteValues allows non-finite values on the NumberElement", () => {
+		const ne: NumberElement = new ConfigElementBuilder()
+			.ofTypeNumber().withAllowNonFiniteValues().build() as NumberElement;
+		expect(ne.allowNonFiniteValues()).toBe(true);
+	});
+
+	test("Calling .ofTypeString().withAllowNonFiniteValues() throws an error", () => {
+		expect(() => {
+			new ConfigElementBuilder().ofTypeString().withAllowNonFiniteValues();
+		}).toThrow(BuilderMissingOrInvalidOfTypeError);
+	});
+
 	// The following two can be tested on any element type, as it is using a method on
 	// the ConfigElement class.
 	test("Calling canBeNull() allows the element to be null", () => {
@@ -542,6 +702,19 @@ describe("given an element builder", () => {
 		expect(ae.allowNullElements()).toBe(true);
 	});
 
+	test("Calling withMergeStrategy sets the merge strategy of the ArrayElement", () => {
+		const ae: ArrayElement = new ConfigElementBuilder().ofTypeArray()
+			.withMergeStrategy("mergeByKey", "id").build() as ArrayElement;
+		expect(ae.getMergeStrategy()).toBe("mergeByKey");
+		expect(ae.getMergeKey()).toBe("id");
+	});
+
+	test("Calling .ofTypeObject().withMergeStrategy() throws an error", () => {
+		expect(() => {
+			new ConfigElementBuilder().ofTypeObject().withMergeStrategy("append");
+		}).toThrow(BuilderMissingOrInvalidOfTypeError);
+	});
+
 	test("Calling withAllowArrayNullElements before calling ofTypeArray throws error", () => {
 		expect(() => {
 			new ConfigElementBuilder().withAllowArrayNullElements();
@@ -749,3 +922,108 @@ describe("given an element builder", () => {
 		expect(validators[0].validate(element, "John")).toBe(true);
 	});
 });
+
+// Compile time check that two types are identical, used to test type inference.
+type Equals<A, B> =
+	(<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+describe("Inferring the type of a configuration", () => {
+	test("Primitive elements infer their primitive type", () => {
+		const number = new ConfigElementBuilder().ofTypeNumber().build();
+		const string = new ConfigElementBuilder().ofTypeString().build();
+		const boolean = new ConfigElementBuilder().ofTypeBoolean().build();
+
+		const numberCheck: Equals<Infer<typeof number>, number> = true;
+		const stringCheck: Equals<Infer<typeof string>, string> = true;
+		const booleanCheck: Equals<Infer<typeof boolean>, boolean> = true;
+		expect([numberCheck, stringCheck, booleanCheck]).toEqual([true, true, true]);
+	});
+
+	test("Valid string values infer a union of string literals", () => {
+		const mode = new ConfigElementBuilder().ofTypeString()
+			.withValidStringValues("a", "b").withValidStringValues("c").build();
+
+		const check: Equals<Infer<typeof mode>, "a" | "b" | "c"> = true;
+		expect(check).toBe(true);
+	});
+
+	test("Object elements infer required, optional and nullable children", () => {
+		const nested = new ConfigElementBuilder().ofTypeObject().withName("nested")
+			.withChildElements(
+				new ConfigElementBuilder().ofTypeNumber().withName("y").build()
+			).build();
+		const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeNumber().withName("x").build(),
+			new ConfigElementBuilder().ofTypeString().withName("s").isOptional()
+				.build(),
+			new ConfigElementBuilder().ofTypeNumber().withName("n").canBeNull().build(),
+			new ConfigElementBuilder().ofTypeBoolean().withName("b").isOptional()
+				.withDefaultValue(false).build(),
+			nested
+		).build();
+
+		const check: Equals<Infer<typeof root>, {
+			x: number;
+			s?: string;
+			n: number | null;
+			b: boolean;
+			nested: {y: number};
+		}> = true;
+		expect(check).toBe(true);
+	});
+
+	test("Optional children with a default value follow the applied default values", () => {
+		const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeNumber().withName("port").isOptional()
+				.withDefaultValue(80).build(),
+			new ConfigElementBuilder().ofTypeString().withName("host")
+				.withDefaultValue("h").build()
+		).build();
+		type Applied = {port: number, host: string};
+		type NotApplied = {port?: number, host: string};
+
+		const appliedCheck: Equals<Infer<typeof root, true>, Applied> = true;
+		const notAppliedCheck: Equals<Infer<typeof root, false>, NotApplied> = true;
+		const unknownCheck: Equals<Infer<typeof root, boolean>, NotApplied> = true;
+		expect([appliedCheck, notAppliedCheck, unknownCheck]).toEqual([true, true, true]);
+	});
+
+	test("Array elements infer their element types", () => {
+		const book = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("name").build()
+		).build();
+		const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeArray().withName("any").build(),
+			new ConfigElementBuilder().ofTypeArray().withName("mixed")
+				.withNumberArrayElements().withStringArrayElements().build(),
+			new ConfigElementBuilder().ofTypeArray().withName("objects")
+				.withObjectArrayElements(book).withAllowArrayNullElements().build(),
+			new ConfigElementBuilder().ofTypeArray().withName("tuple")
+				.withArrayElementList(
+					new ConfigElementBuilder().ofTypeNumber().build(),
+					new ConfigElementBuilder().ofTypeString().build()
+				).build()
+		).build();
+
+		const check: Equals<Infer<typeof root>, {
+			any: unknown[];
+			mixed: (number | string)[];
+			objects: ({name: string} | null)[];
+			tuple: [number, string];
+		}> = true;
+		expect(check).toBe(true);
+	});
+
+	test("Elements that are not built by the builder infer unknown", () => {
+		const check: Equals<Infer<ConfigElement>, unknown> = true;
+		expect(check).toBe(true);
+
+		const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeNumber().withName("x").build(),
+			new NumberElement() as ConfigElement
+		).build();
+		const value: Infer<typeof root> = {x: 1, y: "other"};
+		const x: number = value.x;
+		expect(x).toBe(1);
+	});
+});
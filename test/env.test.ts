@@ -0,0 +1,75 @@
+import { ConfigElementBuilder } from "../src/elements";
+import { deriveVariableName, readEnvironment } from "../src/env";
+import { SourceDocument } from "../src/reader";
+
+const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").withEnvironmentVariable("NAME")
+		.build(),
+	new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+		new ConfigElementBuilder().ofTypeNumber().withName("port").build(),
+		new ConfigElementBuilder().ofTypeBoolean().withName("ssl").build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("maxConnections").build(),
+		new ConfigElementBuilder().ofTypeArray().withName("hosts").withStringArrayElements()
+			.build()
+	).build(),
+	new ConfigElementBuilder().ofTypeObject().withName("log").withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("level").build()
+	).build()
+).build();
+
+describe("Deriving environment variable names", () => {
+	test.each<[string, string[], string]>([
+		["APP_", ["db", "port"], "APP_DB__PORT"],
+		["APP_", ["db", "maxConnections"], "APP_DB__MAX_CONNECTIONS"],
+		["", ["log-level", "HTTP2"], "LOG_LEVEL__HTTP2"],
+		["X_", ["a.b"], "X_A_B"],
+	])("Prefix %s and keys %j give %s", (prefix, keys, name) => {
+		expect(deriveVariableName(prefix, keys)).toBe(name);
+	});
+});
+
+describe("Reading environment variables", () => {
+	test("Reads the variables of elements, converted to the type of the element", () => {
+		const document: SourceDocument = readEnvironment(root, {
+			NAME: "app",
+			APP_DB__PORT: "5432",
+			APP_DB__SSL: "true",
+			APP_DB__HOSTS: "[\"a\", \"b\"]",
+			APP_LOG__LEVEL: "debug",
+			APP_OTHER: "x",
+		}, "APP_");
+
+		expect(document.value).toEqual({
+			name: "app",
+			db: {port: 5432, ssl: true, hosts: ["a", "b"]},
+			log: {level: "debug"}
+		});
+		expect(document.sources.get("$.db.port")).toBe("environment variable APP_DB__PORT");
+		expect(document.sources.get("$.name")).toBe("environment variable NAME");
+		expect(document.positions.size).toBe(0);
+	});
+
+	test("Only reads the variables that are set on elements without a prefix", () => {
+		expect(readEnvironment(root, {NAME: "app", APP_DB__PORT: "1"}).value).toEqual({
+			name: "app"
+		});
+	});
+
+	test("Reads objects as JSON, with variables of their children on top", () => {
+		expect(readEnvironment(root, {
+			APP_DB: "{\"port\": 1, \"ssl\": false}",
+			APP_DB__PORT: "2",
+		}, "APP_").value).toEqual({db: {port: 2, ssl: false}});
+	});
+
+	test("Keeps values that cannot be converted as string", () => {
+		expect(readEnvironment(root, {
+			APP_DB__PORT: "80a",
+			APP_DB__HOSTS: "a,b",
+		}, "APP_").value).toEqual({db: {port: "80a", hosts: "a,b"}});
+	});
+
+	test("Has no value without variables", () => {
+		expect(readEnvironment(root, {}, "APP_").value).toBeUndefined();
+	});
+});
@@ -0,0 +1,96 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import {
+	ConfigFileError,
+	decodeConfigText,
+	getFileFormat,
+	readConfigFile,
+	readConfigFileAsync
+} from "../src/file";
+import { ConfigFormat } from "../src/formats";
+
+describe("Getting the format of a file", () => {
+	test.each<[string, ConfigFormat]>([
+		["config.json", "json"],
+		["tsconfig.jsonc", "jsonc"],
+		["dir.d/config.json5", "json5"],
+		["/etc/app/config.yaml", "yaml"],
+		["config.YML", "yaml"],
+		["pyproject.toml", "toml"],
+		["setup.ini", "ini"],
+		["application.properties", "properties"],
+		["config.xml", undefined],
+		["config", undefined],
+	])("File %s has format %s", (file, format) => {
+		expect(getFileFormat(file)).toBe(format);
+	});
+});
+
+describe("Decoding file contents", () => {
+	test("Decodes UTF-8", () => {
+		expect(decodeConfigText(Buffer.from("{\"a\": \"é\"}", "utf-8"), "a.json")).toBe(
+			"{\"a\": \"é\"}"
+		);
+	});
+
+	test("Removes a UTF-8 byte order mark", () => {
+		const data: Buffer = Buffer.from([0xef, 0xbb, 0xbf, 0x7b, 0x7d]);
+		expect(decodeConfigText(data, "a.json")).toBe("{}");
+	});
+
+	test("Decodes UTF-16 with a byte order mark", () => {
+		const littleEndian: Buffer = Buffer.from([0xff, 0xfe, 0x7b, 0x00, 0x7d, 0x00]);
+		const bigEndian: Buffer = Buffer.from([0xfe, 0xff, 0x00, 0x7b, 0x00, 0x7d]);
+		expect(decodeConfigText(littleEndian, "a.json")).toBe("{}");
+		expect(decodeConfigText(bigEndian, "a.json")).toBe("{}");
+	});
+
+	test("Rejects invalid UTF-8", () => {
+		const data: Buffer = Buffer.from([0x7b, 0xe9, 0x7d]);
+		expect(() => decodeConfigText(data, "latin1.json")).toThrow(
+			new ConfigFileError("Invalid UTF-8 text", "latin1.json")
+		);
+	});
+});
+
+describe("Reading files", () => {
+	let dir: string;
+
+	beforeAll(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-parser-"));
+		fs.writeFileSync(path.join(dir, "bom.json"), "\uFEFF{\"a\": 1}");
+	});
+
+	afterAll(() => {
+		fs.rmSync(dir, {recursive: true});
+	});
+
+	test("Reads a file synchronously", () => {
+		expect(readConfigFile(path.join(dir, "bom.json"))).toBe("{\"a\": 1}");
+	});
+
+	test("Reads a file asynchronously", async () => {
+		await expect(readConfigFileAsync(path.join(dir, "bom.json"))).resolves.toBe(
+			"{\"a\": 1}"
+		);
+	});
+
+	test("Reports files that cannot be read", async () => {
+		const file: string = path.join(dir, "missing.json");
+		let error: ConfigFileError;
+		try {
+			readConfigFile(file);
+		}
+		catch (err) {
+			error = err as ConfigFileError;
+		}
+
+		expect(error).toBeInstanceOf(ConfigFileError);
+		expect(error.code).toBe("FILE_ERROR");
+		expect(error.path).toBe(file);
+		expect(error.message).toContain(`${file}: Cannot read file, ENOENT`);
+		await expect(readConfigFileAsync(file)).rejects.toThrow(error.message);
+	});
+});
@@ -0,0 +1,44 @@
+import { ConfigFormat, createReader } from "../src/formats";
+import { IniReader } from "../src/ini";
+import { Json5Reader, JsonReader, JsoncReader } from "../src/json";
+import { PropertiesReader } from "../src/properties";
+import { TomlReader } from "../src/toml";
+import { YamlReader } from "../src/yaml";
+
+describe("Creating readers for formats", () => {
+	test("Creates a JSON reader", () => {
+		const reader = createReader("json");
+		expect(reader).toBeInstanceOf(JsonReader);
+		expect(reader).not.toBeInstanceOf(JsoncReader);
+	});
+
+	test("Creates a JSONC reader", () => {
+		expect(createReader("jsonc")).toBeInstanceOf(JsoncReader);
+	});
+
+	test("Creates a JSON5 reader", () => {
+		expect(createReader("json5")).toBeInstanceOf(Json5Reader);
+	});
+
+	test("Creates a YAML reader", () => {
+		expect(createReader("yaml")).toBeInstanceOf(YamlReader);
+	});
+
+	test("Creates a TOML reader", () => {
+		expect(createReader("toml")).toBeInstanceOf(TomlReader);
+	});
+
+	test("Creates an INI reader", () => {
+		expect(createReader("ini")).toBeInstanceOf(IniReader);
+	});
+
+	test("Creates a properties reader", () => {
+		expect(createReader("properties")).toBeInstanceOf(PropertiesReader);
+	});
+
+	test("Rejects unsupported formats", () => {
+		expect(() => createReader("xml" as ConfigFormat)).toThrow(
+			"Unsupported configuration format xml"
+		);
+	});
+});
@@ -1,30 +1,22 @@
 /**
- * Full test with one JSON where the root is an array, the other where the root is an object.
+ * Full test with one JSON where the root is an array, the other where the root is an object, and
+ * a YAML file with the same configuration as the latter.
  */
 
 import { ConfigParser } from "../src/parser";
-import { ArrayElement, ConfigElement, ConfigElementBuilder } from "../src/elements";
+import { ConfigElementBuilder, Infer } from "../src/elements";
 
-import * as fs from "node:fs";
+const objectArrayEntry = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").build(),
+	new ConfigElementBuilder().ofTypeNumber().withName("value").build()
+).build();
 
-interface FullConfigInterface {
-	name: string;
-	objectArray: {name: string, value: number}[];
-	deep: {deeper: {evenDeeper: { deepest: boolean}}};
-	canBeNull: string;
-	true: boolean;
-	false: boolean;
-	int: number;
-	float: number;
-	string: string,
-	array: (string | number)[];
-}
-
-const root: ConfigElement = new ConfigElementBuilder()
+const root = new ConfigElementBuilder()
 	.ofTypeObject()
 	.withChildElements(
 		new ConfigElementBuilder().ofTypeString().withName("name").build(),
-		new ConfigElementBuilder().ofTypeArray().withName("objectArray").build(),
+		new ConfigElementBuilder().ofTypeArray().withName("objectArray")
+			.withObjectArrayElements(objectArrayEntry).build(),
 		new ConfigElementBuilder().ofTypeObject().withName("deep").withChildElements(
 			new ConfigElementBuilder().ofTypeObject().withName("deeper")
 				.withChildElements(
@@ -42,34 +34,40 @@ const root: ConfigElement = new ConfigElementBuilder()
 		new ConfigElementBuilder().ofTypeNumber().withName("int").build(),
 		new ConfigElementBuilder().ofTypeNumber().withName("float").build(),
 		new ConfigElementBuilder().ofTypeString().withName("string").build(),
-		new ConfigElementBuilder().ofTypeArray().withName("array").build()
+		new ConfigElementBuilder().ofTypeArray().withName("array")
+			.withNumberArrayElements().withStringArrayElements().build()
 	).build();
 
+// The type of the configuration is inferred from the schema.
+type FullConfig = Infer<typeof root>;
+
 const parser = new ConfigParser(root);
 
 interface FullConfigTestInput {
-	fullConfig: FullConfigInterface;
+	fullConfig: FullConfig;
 	description: string;
 }
 
 const fullConfigTestInputs: FullConfigTestInput[] = [];
 
 fullConfigTestInputs.push({
-	fullConfig: parser.parse(
-		fs.readFileSync(__dirname + "/full.json", "utf-8")
-	) as FullConfigInterface,
+	fullConfig: parser.parseFile(__dirname + "/full.json"),
 	description: "Full config in root of the configuration"
 });
 
-const rootArray: ArrayElement = new ConfigElementBuilder()
+// The reader is selected from the extension of the file.
+fullConfigTestInputs.push({
+	fullConfig: parser.parseFile(__dirname + "/full.yaml"),
+	description: "Full config in YAML"
+});
+
+const rootArray = new ConfigElementBuilder()
 	.ofTypeArray()
 	.withObjectArrayElements(root)
-	.build() as ArrayElement;
+	.build();
 
-const arrayParser: ConfigParser = new ConfigParser(rootArray);
-const arrayConfig: FullConfigInterface[] = arrayParser.parse(
-	fs.readFileSync(__dirname + "/fullArray.json", "utf-8")
-) as FullConfigInterface[];
+const arrayParser = new ConfigParser(rootArray);
+const arrayConfig: FullConfig[] = arrayParser.parseFile(__dirname + "/fullArray.json");
 
 test("Expect two elements in the parser array config", () => {
 	expect(arrayConfig).toHaveLength(2);
@@ -0,0 +1,247 @@
+import { ConfigElementBuilder } from "../src/elements";
+import { ConfigFileError } from "../src/file";
+import {
+	ConfigIncludeError,
+	resolveDirectives,
+	resolveDirectivesAsync
+} from "../src/include";
+import { JsonReader } from "../src/json";
+import { SourceDocument } from "../src/reader";
+
+const reader: JsonReader = new JsonReader();
+
+/**
+ * Resolve the directives of **config/app.json** with files from a map instead of the file
+ * system.
+ */
+function resolve(files: Record<string, string>): SourceDocument {
+	return resolveDirectives(load("config/app.json", files), f => load(f, files));
+}
+
+function load(file: string, files: Record<string, string>): SourceDocument {
+	if (!(file in files)) throw new ConfigFileError("Cannot read file, not found", file);
+	return reader.read(files[file], file);
+}
+
+function getIncludeError(files: Record<string, string>): ConfigIncludeError {
+	try {
+		resolve(files);
+	}
+	catch (err) {
+		return err as ConfigIncludeError;
+	}
+	throw new Error("Expected an include error");
+}
+
+describe("Resolving $include", () => {
+	test("Replaces an object with only the directive by the included value", () => {
+		expect(resolve({
+			"config/app.json": "{\"db\": {\"$include\": \"./db.json\"}, \"x\": 1}",
+			"config/db.json": "{\"host\": \"localhost\", \"port\": 5432}",
+		}).value).toEqual({db: {host: "localhost", port: 5432}, x: 1});
+	});
+
+	test("Includes values that are not an object", () => {
+		expect(resolve({
+			"config/app.json": "{\"hosts\": {\"$include\": \"hosts.json\"}}",
+			"config/hosts.json": "[\"a\", \"b\"]",
+		}).value).toEqual({hosts: ["a", "b"]});
+	});
+
+	test("Splices the keys of included files into the object", () => {
+		expect(resolve({
+			"config/app.json": JSON.stringify({
+				$include: ["a.json", "sub/b.json"],
+				name: "app"
+			}),
+			"config/a.json": "{\"a\": 1}",
+			"config/sub/b.json": "{\"b\": {\"$include\": \"../c.json\"}}",
+			"config/c.json": "true",
+		}).value).toEqual({name: "app", a: 1, b: true});
+	});
+
+	test("Resolves directives in arrays", () => {
+		expect(resolve({
+			"config/app.json": JSON.stringify({
+				servers: [{$include: "a.json"}, {port: 2}]
+			}),
+			"config/a.json": "{\"port\": 1}",
+		}).value).toEqual({servers: [{port: 1}, {port: 2}]});
+	});
+
+	test("Records the positions and sources of included values", () => {
+		const document: SourceDocument = resolve({
+			"config/app.json": "{\n  \"db\": {\"$include\": \"db.json\"}\n}",
+			"config/db.json": "{\n  \"port\": 5432\n}",
+		});
+		expect(document.source).toBe("config/app.json");
+		expect(document.sources.get("$.db")).toBe("config/db.json");
+		expect(document.positions.get("$.db")).toEqual({line: 1, column: 1});
+		expect(document.positions.get("$.db.port")).toEqual({line: 2, column: 11});
+		expect(document.keyPositions.get("$.db")).toEqual({line: 2, column: 3});
+		expect(document.keyPositions.get("$.db.port")).toEqual({line: 2, column: 3});
+	});
+});
+
+describe("Resolving $extends", () => {
+	test("Deep merges the base file under the object", () => {
+		expect(resolve({
+			"config/app.json": JSON.stringify({
+				$extends: "base.json",
+				db: {port: 5433, tags: ["x"]},
+				name: "app"
+			}),
+			"config/base.json": JSON.stringify({
+				db: {host: "localhost", port: 5432, tags: ["a", "b"]},
+				name: "base",
+				debug: false
+			}),
+		}).value).toEqual({
+			db: {port: 5433, tags: ["x"], host: "localhost"},
+			name: "app",
+			debug: false
+		});
+	});
+
+	test("Later base files override earlier base files", () => {
+		expect(resolve({
+			"config/app.json": "{\"$extends\": [\"a.json\", \"b.json\"], \"c\": 3}",
+			"config/a.json": "{\"a\": 1, \"b\": 1, \"c\": 1}",
+			"config/b.json": "{\"b\": 2, \"c\": 2}",
+		}).value).toEqual({a: 1, b: 2, c: 3});
+	});
+
+	test("Resolves directives of base files relative to the base file", () => {
+		expect(resolve({
+			"config/app.json": "{\"$extends\": \"../shared/base.json\"}",
+			"shared/base.json": "{\"$extends\": \"root.json\", \"a\": 1}",
+			"shared/root.json": "{\"a\": 0, \"b\": 0}",
+		}).value).toEqual({a: 1, b: 0});
+	});
+
+	test("Records the sources of values from base files", () => {
+		const document: SourceDocument = resolve({
+			"config/app.json": "{\"$extends\": \"base.json\", \"db\": {\"port\": 1}}",
+			"config/base.json": "{\"db\": {\"host\": \"h\"}, \"name\": \"n\"}",
+		});
+		expect(document.sources.get("$.db")).toBe("config/app.json");
+		expect(document.sources.get("$.db.host")).toBe("config/base.json");
+		expect(document.sources.get("$.name")).toBe("config/base.json");
+		expect(document.positions.get("$.name")).toEqual({line: 1, column: 31});
+	});
+
+	test("Follows the merge strategies of the element", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeArray().withName("plugins")
+				.withStringArrayElements().withMergeStrategy("append").build(),
+			new ConfigElementBuilder().ofTypeArray().withName("users")
+				.withMergeStrategy("mergeByKey", "name").withObjectArrayElements()
+				.build()
+		).build();
+		const files: Record<string, string> = {
+			"config/app.json": JSON.stringify({
+				$extends: "base.json",
+				plugins: ["c"],
+				users: [{name: "b", admin: true}]
+			}),
+			"config/base.json": JSON.stringify({
+				plugins: ["a", "b"],
+				users: [{name: "a", admin: false}, {name: "b"}]
+			}),
+		};
+
+		expect(resolveDirectives(
+			load("config/app.json", files), f => load(f, files), element
+		).value).toEqual({
+			plugins: ["a", "b", "c"],
+			users: [{name: "a", admin: false}, {name: "b", admin: true}]
+		});
+	});
+
+	test("Resolves files asynchronously", async () => {
+		const files: Record<string, string> = {
+			"config/app.json": "{\"$extends\": \"base.json\", \"a\": 1}",
+			"config/base.json": "{\"b\": {\"$include\": \"b.json\"}}",
+			"config/b.json": "2",
+		};
+		const document: SourceDocument = await resolveDirectivesAsync(
+			load("config/app.json", files), f => Promise.resolve(load(f, files))
+		);
+		expect(document.value).toEqual({a: 1, b: 2});
+	});
+});
+
+describe("Invalid directives", () => {
+	test.each<[string, Record<string, string>, string, string, string]>([
+		[
+			"an include cycle",
+			{
+				"config/app.json": "{\"$include\": \"a.json\"}",
+				"config/a.json": "{\"x\": {\"$extends\": \"app.json\"}}",
+			},
+			"config/a.json", "$.x.$extends",
+			"Include cycle config/app.json -> config/a.json -> config/app.json"
+		],
+		[
+			"a file that includes itself",
+			{"config/app.json": "{\"a\": {\"$include\": \"./app.json\"}}"},
+			"config/app.json", "$.a.$include",
+			"Include cycle config/app.json -> config/app.json"
+		],
+		[
+			"a missing file",
+			{
+				"config/app.json": "{\"$include\": [\"a.json\", \"b.json\"]}",
+				"config/a.json": "{}"
+			},
+			"config/app.json", "$.$include[1]",
+			"Cannot read b.json, Cannot read file, not found"
+		],
+		[
+			"an invalid directive value",
+			{"config/app.json": "{\"$extends\": 42}"},
+			"config/app.json", "$.$extends",
+			"The value of $extends must be a file path or an array of file paths"
+		],
+		[
+			"a duplicate key",
+			{
+				"config/app.json": "{\"$include\": \"a.json\", \"a\": 1}",
+				"config/a.json": "{\"a\": 2}"
+			},
+			"config/app.json", "$.$include",
+			"Key a of a.json is already defined"
+		],
+		[
+			"a spliced file without an object",
+			{
+				"config/app.json": "{\"$include\": \"a.json\", \"b\": 1}",
+				"config/a.json": "[]"
+			},
+			"config/app.json", "$.$include",
+			"The root of included file a.json must be an object"
+		],
+		[
+			"an extended file without an object",
+			{"config/app.json": "{\"$extends\": \"a.json\"}", "config/a.json": "1"},
+			"config/app.json", "$.$extends",
+			"The root of extended file a.json must be an object"
+		],
+	])("Rejects %s", (_, files, source, path, detail) => {
+		const error: ConfigIncludeError = getIncludeError(files);
+		expect(error).toBeInstanceOf(ConfigIncludeError);
+		expect(error.code).toBe("INCLUDE_ERROR");
+		expect(error.source).toBe(source);
+		expect(error.path).toBe(path);
+		expect(error.detail).toBe(detail);
+		const {line, column} = error.position;
+		expect(error.message).toBe(`${source}:${line}:${column} ${path}: ${detail}`);
+	});
+
+	test("Syntax errors of included files have the included file as source", () => {
+		expect(() => resolve({
+			"config/app.json": "{\"$include\": \"a.json\"}",
+			"config/a.json": "{\"a\": }",
+		})).toThrow("config/a.json:1:7 Unexpected character '}', expected a value");
+	});
+});
@@ -0,0 +1,109 @@
+import { IniReader } from "../src/ini";
+import { ConfigSyntaxError, SourceDocument } from "../src/reader";
+
+const reader: IniReader = new IniReader();
+
+function read(lines: string[]): unknown {
+	return reader.read(lines.join("\n")).value;
+}
+
+function getSyntaxError(text: string): ConfigSyntaxError {
+	try {
+		reader.read(text, "test.ini");
+	}
+	catch (err) {
+		return err as ConfigSyntaxError;
+	}
+	throw new Error("Expected a syntax error");
+}
+
+describe("Reading INI", () => {
+	test("Reads sections and keys as nested objects of strings", () => {
+		expect(read([
+			"; Global settings",
+			"name = web",
+			"",
+			"[server]",
+			"host: localhost",
+			"  port = 8080",
+			"",
+			"# Nested sections",
+			"[database.primary]",
+			"port = 5432",
+			"pool.size = 10",
+		])).toEqual({
+			name: "web",
+			server: {host: "localhost", port: "8080"},
+			database: {primary: {port: "5432", pool: {size: "10"}}}
+		});
+	});
+
+	test("Trims values and removes quotes", () => {
+		expect(read([
+			"a =   spaced value  ",
+			"b = \" quoted \"",
+			"c = 'single'",
+			"d =",
+			"e = x = y",
+		])).toEqual({a: "spaced value", b: " quoted ", c: "single", d: "", e: "x = y"});
+	});
+
+	test("Reads empty sections", () => {
+		expect(read(["[a]", "[b . c]"])).toEqual({a: {}, b: {c: {}}});
+	});
+
+	test("Reads Windows line endings", () => {
+		expect(reader.read("[a]\r\nb = 1\r\n").value).toEqual({a: {b: "1"}});
+	});
+
+	test("Marks the document as only having string values", () => {
+		expect(reader.read("a = 1").stringValues).toBe(true);
+	});
+});
+
+describe("Positions of keys and values", () => {
+	const text: string = [
+		"name = x",
+		"[server]",
+		"  port =  8080",
+		"[db.primary]",
+	].join("\n");
+	let document: SourceDocument;
+
+	beforeAll(() => {
+		document = reader.read(text, "server.ini");
+	});
+
+	test("Records the position of every value", () => {
+		expect(document.source).toBe("server.ini");
+		expect(document.positions.get("$")).toEqual({line: 1, column: 1});
+		expect(document.positions.get("$.name")).toEqual({line: 1, column: 8});
+		expect(document.positions.get("$.server")).toEqual({line: 2, column: 1});
+		expect(document.positions.get("$.server.port")).toEqual({line: 3, column: 11});
+		expect(document.positions.get("$.db.primary")).toEqual({line: 4, column: 1});
+	});
+
+	test("Records the position of every key", () => {
+		expect(document.keyPositions.get("$.name")).toEqual({line: 1, column: 1});
+		expect(document.keyPositions.get("$.server.port")).toEqual({line: 3, column: 3});
+	});
+});
+
+describe("Reading invalid INI", () => {
+	test.each<[string, string, number, number]>([
+		["a = 1\na = 2", "Key a is already defined", 2, 1],
+		["a = 1\n[a]", "Key a is already defined", 2, 1],
+		["a = 1\na.b = 2", "Key a is already defined", 2, 1],
+		["[a]\n[a]", "Duplicate section a", 2, 2],
+		["[a", "Unterminated section header", 1, 3],
+		["[a.]", "Invalid key 'a.'", 1, 2],
+		["a = 1\n = 2", "Invalid key ''", 2, 2],
+		["key", "Expected '=' or ':' after the key", 1, 4],
+	])("Text %j gives error '%s' at %i:%i", (text, detail, line, column) => {
+		const error: ConfigSyntaxError = getSyntaxError(text);
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(detail);
+		expect(error.position).toEqual({line, column});
+		expect(error.message).toBe(`test.ini:${line}:${column} ${detail}`);
+	});
+});
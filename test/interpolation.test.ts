@@ -0,0 +1,28 @@
+import { interpolateString, parseReferenceKeys } from "../src/interpolation";
+
+describe("Interpolating strings", () => {
+	const resolve = (kind: string, name: string): string => `<${kind}|${name}>`;
+
+	test.each<[string, string]>([
+		["${env:HOME}/logs", "<env|HOME>/logs"],
+		["${ref:paths.base}${file:./a b.txt}", "<ref|paths.base><file|./a b.txt>"],
+		["$${env:HOME}", "${env:HOME}"],
+		["${HOME} ${env:HOME", "${HOME} ${env:HOME"],
+		["no references", "no references"],
+	])("Interpolates %s", (value, interpolated) => {
+		expect(interpolateString(value, resolve)).toBe(interpolated);
+	});
+});
+
+describe("Parsing reference keys", () => {
+	test.each<[string, (string | number)[]]>([
+		["paths.base", ["paths", "base"]],
+		["servers[0].hosts[1][2]", ["servers", 0, "hosts", 1, 2]],
+		["[0]", [0]],
+		["a..b", undefined],
+		["a[x]", undefined],
+		["", undefined],
+	])("Parses %s", (name, keys) => {
+		expect(parseReferenceKeys(name)).toEqual(keys);
+	});
+});
@@ -0,0 +1,279 @@
+import { Json5Reader, JsonReader, JsoncReader } from "../src/json";
+import { ConfigSyntaxError, MAX_NESTING_DEPTH, SourceDocument } from "../src/reader";
+
+import * as fs from "node:fs";
+
+const reader: JsonReader = new JsonReader();
+
+function getSyntaxError(text: string): ConfigSyntaxError {
+	try {
+		reader.read(text, "test.json");
+	}
+	catch (err) {
+		return err as ConfigSyntaxError;
+	}
+	throw new Error("Expected a syntax error");
+}
+
+describe("Reading valid JSON", () => {
+	test.each<string>([
+		"{}",
+		"[]",
+		"  {\"x\": 1, \"y\": [true, false, null]}  ",
+		"\"some string\"",
+		"-0.5e-3",
+		"12E+2",
+		"[\"\\\"\\\\\\/\\b\\f\\n\\r\\t\\u00e9\\uD83D\\uDE00\"]",
+		"{\"x\": 1, \"x\": 2}",
+		"{\"a\":{\"b\":{\"c\":[[1],[2,{\"d\":null}]]}}}",
+	])("Gives the same value as JSON.parse() for %s", (text) => {
+		expect(reader.read(text).value).toEqual(JSON.parse(text));
+	});
+
+	test.each<string>(["full.json", "fullArray.json"])(
+		"Gives the same value as JSON.parse() for %s", (file) => {
+			const text: string = fs.readFileSync(`${__dirname}/${file}`, "utf-8");
+			expect(reader.read(text).value).toEqual(JSON.parse(text));
+		}
+	);
+
+	test("A __proto__ key does not change the prototype", () => {
+		const value = reader.read("{\"__proto__\": {\"x\": 1}}").value as object;
+		expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+		expect(Object.keys(value)).toEqual(["__proto__"]);
+	});
+});
+
+describe("Positions of keys and values", () => {
+	const text: string = [
+		"{",
+		"  \"name\": \"x\",",
+		"  \"books\": [",
+		"    {\"year\": 2023},",
+		"    true",
+		"  ]",
+		"}"
+	].join("\r\n");
+	let document: SourceDocument;
+
+	beforeAll(() => {
+		document = reader.read(text, "books.json");
+	});
+
+	test("Records the source", () => {
+		expect(document.source).toBe("books.json");
+	});
+
+	test("Records the position of every value", () => {
+		expect(document.positions.get("$")).toEqual({line: 1, column: 1});
+		expect(document.positions.get("$.name")).toEqual({line: 2, column: 11});
+		expect(document.positions.get("$.books")).toEqual({line: 3, column: 12});
+		expect(document.positions.get("$.books[0]")).toEqual({line: 4, column: 5});
+		expect(document.positions.get("$.books[0].year")).toEqual({line: 4, column: 14});
+		expect(document.positions.get("$.books[1]")).toEqual({line: 5, column: 5});
+	});
+
+	test("Records the position of every key", () => {
+		expect(document.keyPositions.get("$.name")).toEqual({line: 2, column: 3});
+		expect(document.keyPositions.get("$.books[0].year")).toEqual({line: 4, column: 6});
+	});
+});
+
+describe("Reading invalid JSON", () => {
+	test.each<[string, string, number, number]>([
+		["", "Unexpected end of input, expected a value", 1, 1],
+		["{\"x\": 1,}", "Unexpected character '}', expected a key", 1, 9],
+		["{\"x\" 1}", "Unexpected character '1', expected ':'", 1, 6],
+		["[1 2]", "Unexpected character '2', expected ']'", 1, 4],
+		["{\n  \"x\": tru\n}", "Unexpected character 't', expected a value", 2, 8],
+		["{} {}", "Unexpected character '{' after JSON value", 1, 4],
+		["[01]", "Invalid number", 1, 2],
+		["[1.]", "Invalid number", 1, 2],
+		["[\"abc", "Unterminated string", 1, 2],
+		["[\"a\nb\"]", "Control character in string", 1, 4],
+		["[\"\\x\"]", "Invalid escape sequence", 1, 3],
+		["[\"\\u12G4\"]", "Invalid unicode escape sequence", 1, 3],
+		["{/* comment */}", "Unexpected character '/', expected a key", 1, 2],
+	])("Text %j gives error '%s' at %i:%i", (text, detail, line, column) => {
+		const error: ConfigSyntaxError = getSyntaxError(text);
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(detail);
+		expect(error.position).toEqual({line, column});
+		expect(error.source).toBe("test.json");
+		expect(error.message).toBe(`test.json:${line}:${column} ${detail}`);
+	});
+	test("Rejects nesting deeper than the maximum depth", () => {
+		const text: string = "[".repeat(5000) + "]".repeat(5000);
+		const error: ConfigSyntaxError = getSyntaxError(text);
+
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(`Nesting is deeper than ${MAX_NESTING_DEPTH} levels`);
+		expect(error.position).toEqual({line: 1, column: MAX_NESTING_DEPTH + 1});
+		expect(reader.read("[".repeat(MAX_NESTING_DEPTH) + "]".repeat(MAX_NESTING_DEPTH))
+			.value).toBeInstanceOf(Array);
+	});
+});
+
+describe("Reading JSONC", () => {
+	const jsoncReader: JsoncReader = new JsoncReader();
+
+	function getJsoncSyntaxError(text: string): ConfigSyntaxError {
+		try {
+			jsoncReader.read(text);
+		}
+		catch (err) {
+			return err as ConfigSyntaxError;
+		}
+		throw new Error("Expected a syntax error");
+	}
+
+	test("Skips line and block comments", () => {
+		const text: string = [
+			"// Leading comment",
+			"{",
+			"  /* Block comment */ \"x\": 1, // Trailing comment",
+			"  \"y\": /* inline */ \"// not a comment\"",
+			"  /*",
+			"   * Multi-line comment",
+			"   */",
+			"}",
+			"// Final comment without newline"
+		].join("\n");
+		expect(jsoncReader.read(text).value).toEqual({x: 1, y: "// not a comment"});
+	});
+
+	test("Accepts trailing commas", () => {
+		expect(jsoncReader.read("{\"x\": [1, 2,], \"y\": {\"z\": true,},}").value).toEqual(
+			{x: [1, 2], y: {z: true}}
+		);
+	});
+
+	test("Records positions after comments", () => {
+		const text: string = "{\n  // x\n  \"x\": /* 1 */ 1\n}";
+		const document: SourceDocument = jsoncReader.read(text);
+		expect(document.keyPositions.get("$.x")).toEqual({line: 3, column: 3});
+		expect(document.positions.get("$.x")).toEqual({line: 3, column: 16});
+	});
+
+	test("Options can enable comments and trailing commas separately", () => {
+		const commentReader: JsonReader = new JsonReader({allowComments: true});
+		const commaReader: JsonReader = new JsonReader({allowTrailingCommas: true});
+		expect(commentReader.read("[1 /* x */]").value).toEqual([1]);
+		expect(() => commentReader.read("[1,]")).toThrow(ConfigSyntaxError);
+		expect(commaReader.read("[1,]").value).toEqual([1]);
+		expect(() => commaReader.read("[1 /* x */]")).toThrow(ConfigSyntaxError);
+	});
+
+	test.each<[string, string, number, number]>([
+		["{\"x\": 1 /* comment", "Unterminated comment", 1, 9],
+		["[1, / 2]", "Unexpected character '/', expected a comment", 1, 5],
+		["[1,,]", "Unexpected character ',', expected a value", 1, 4],
+		["[,]", "Unexpected character ',', expected a value", 1, 2],
+		["{,}", "Unexpected character ',', expected a key", 1, 2],
+	])("Text %j gives error '%s' at %i:%i", (text, detail, line, column) => {
+		const error: ConfigSyntaxError = getJsoncSyntaxError(text);
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(detail);
+		expect(error.position).toEqual({line, column});
+	});
+});
+
+describe("Reading JSON5", () => {
+	const json5Reader: Json5Reader = new Json5Reader();
+
+	function read(text: string): unknown {
+		return json5Reader.read(text).value;
+	}
+
+	function getJson5SyntaxError(text: string): ConfigSyntaxError {
+		try {
+			json5Reader.read(text);
+		}
+		catch (err) {
+			return err as ConfigSyntaxError;
+		}
+		throw new Error("Expected a syntax error");
+	}
+
+	test.each<string>(["full.json", "fullArray.json"])(
+		"Gives the same value as JSON.parse() for %s", (file) => {
+			const text: string = fs.readFileSync(`${__dirname}/${file}`, "utf-8");
+			expect(read(text)).toEqual(JSON.parse(text));
+		}
+	);
+
+	test("Accepts unquoted keys", () => {
+		const text: string = "{unquoted: 1, $dollar: 2, _under: 3, \\u0061b: 4, \u00e9: 5}";
+		expect(read(text)).toEqual(
+			{unquoted: 1, $dollar: 2, _under: 3, ab: 4, "\u00e9": 5}
+		);
+	});
+
+	test("Accepts single quoted strings and keys", () => {
+		expect(read("{'key': 'It\\'s \"quoted\"'}")).toEqual({key: "It's \"quoted\""});
+	});
+
+	test("Accepts multi-line strings", () => {
+		expect(read("'first \\\nsecond \\\r\nthird'")).toBe("first second third");
+	});
+
+	test.each<[string, string]>([
+		["'\\v'", "\v"],
+		["'\\0'", "\0"],
+		["'\\x41'", "A"],
+		["'\\u0041'", "A"],
+		["'\\a'", "a"],
+		["'\\''", "'"],
+		["'tab\there'", "tab\there"],
+		["'\u2028'", "\u2028"],
+	])("String %s gives %j", (text, value) => {
+		expect(read(text)).toBe(value);
+	});
+
+	test.each<[string, number]>([
+		["0x1F", 31],
+		["-0XfF", -255],
+		["+1", 1],
+		[".5", 0.5],
+		["5.", 5],
+		["-.5e1", -5],
+		["Infinity", Infinity],
+		["+Infinity", Infinity],
+		["-Infinity", -Infinity],
+		["NaN", NaN],
+		["-NaN", NaN],
+	])("Number %s gives %d", (text, value) => {
+		expect(read(text)).toBe(value);
+	});
+
+	test("Accepts comments, trailing commas and extra whitespace", () => {
+		const text: string = "\ufeff{\u00a0a: [1, 2,], // comment\n\v/* block */ b: null,}";
+		expect(read(text)).toEqual({a: [1, 2], b: null});
+	});
+
+	test("Records positions of unquoted keys and values", () => {
+		const document: SourceDocument = json5Reader.read("{\n  port: 0x50,\n}");
+		expect(document.keyPositions.get("$.port")).toEqual({line: 2, column: 3});
+		expect(document.positions.get("$.port")).toEqual({line: 2, column: 9});
+	});
+
+	test.each<[string, string, number, number]>([
+		["{1: 2}", "Unexpected character '1', expected a key", 1, 2],
+		["{a-b: 2}", "Unexpected character '-', expected ':'", 1, 3],
+		["'abc\ndef'", "Line break in string", 1, 5],
+		["'abc", "Unterminated string", 1, 1],
+		["'\\1'", "Invalid escape sequence", 1, 2],
+		["'\\01'", "Invalid escape sequence", 1, 2],
+		["'\\xG1'", "Invalid hexadecimal escape sequence", 1, 2],
+		["[01]", "Invalid number", 1, 2],
+		["[0x]", "Invalid number", 1, 2],
+		["[Infinite]", "Invalid number", 1, 2],
+		["[1.2.3]", "Invalid number", 1, 2],
+		["[.]", "Invalid number", 1, 2],
+	])("Text %j gives error '%s' at %i:%i", (text, detail, line, column) => {
+		const error: ConfigSyntaxError = getJson5SyntaxError(text);
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(detail);
+		expect(error.position).toEqual({line, column});
+	});
+});
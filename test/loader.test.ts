@@ -0,0 +1,113 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { ConfigElementBuilder } from "../src/elements";
+import { ConfigFileError } from "../src/file";
+import { ConfigLoader } from "../src/loader";
+import { ConfigParseFailureError } from "../src/parser";
+
+const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").build(),
+	new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("host").build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("port").withMaxValue(65535)
+			.build(),
+		new ConfigElementBuilder().ofTypeString().withName("password").canBeNull()
+			.isOptional().build()
+	).build(),
+	new ConfigElementBuilder().ofTypeBoolean().withName("debug").isOptional()
+		.withDefaultValue(false).build()
+).build();
+
+const defaults = {name: "app", db: {host: "localhost", port: 5432, password: "secret"}};
+
+describe("Loading layered configuration", () => {
+	let dir: string;
+
+	beforeAll(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-loader-"));
+		fs.writeFileSync(path.join(dir, "app.yaml"), "db:\n  host: db.example.com\n");
+		fs.writeFileSync(path.join(dir, "site.ini"), "debug = true\n[db]\nport = 70000\n");
+	});
+
+	afterAll(() => {
+		fs.rmSync(dir, {recursive: true});
+	});
+
+	test("Merges all sources in order", () => {
+		const loader = new ConfigLoader(root, [
+			{value: defaults, name: "defaults"},
+			{file: path.join(dir, "app.yaml")},
+			{text: "{\"db\": {\"port\": 5433}}", name: "runtime"},
+		]);
+
+		expect(loader.load()).toEqual({
+			name: "app",
+			db: {host: "db.example.com", port: 5433, password: "secret"},
+			debug: false
+		});
+		expect(defaults.db.port).toBe(5432);
+	});
+
+	test("Replaces values with an explicit null", () => {
+		const loader = new ConfigLoader(root, [
+			{value: defaults},
+			{text: "db:\n  password: null\n", format: "yaml"},
+		]);
+
+		expect(loader.load().db.password).toBeNull();
+	});
+
+	test("Skips optional files that do not exist", async () => {
+		const loader = new ConfigLoader(root, [
+			{value: defaults},
+			{file: path.join(dir, "missing.json"), optional: true},
+		]);
+
+		expect(loader.load()).toEqual({...defaults, debug: false});
+		await expect(loader.loadAsync()).resolves.toEqual({...defaults, debug: false});
+	});
+
+	test("Rejects required files that do not exist", async () => {
+		const loader = new ConfigLoader(root, [{file: path.join(dir, "missing.json")}]);
+
+		expect(() => loader.load()).toThrow(ConfigFileError);
+		await expect(loader.loadAsync()).rejects.toThrow(ConfigFileError);
+	});
+
+	test("Validates the merged configuration once", async () => {
+		const file: string = path.join(dir, "site.ini");
+		const loader = new ConfigLoader(root, [
+			{value: {db: {port: "x"}}},
+			{value: defaults, name: "defaults"},
+			{file},
+		]);
+
+		let error: ConfigParseFailureError;
+		try {
+			loader.load();
+		}
+		catch (err) {
+			error = err as ConfigParseFailureError;
+		}
+
+		expect(error).toBeInstanceOf(ConfigParseFailureError);
+		expect(error.message).toBe("Failed to parse configuration");
+		expect(error.errors.map(e => e.message)).toEqual([
+			`${file}:3:8 $.db.port: Value 70000 is greater then maximum 65535`
+		]);
+		await expect(loader.loadAsync()).rejects.toThrow(ConfigParseFailureError);
+	});
+
+	test("Reports missing values at the position of their parent", () => {
+		const loader = new ConfigLoader(root, [
+			{value: {name: "app"}, name: "defaults"},
+			{text: "{\"db\": {\"port\": 1}}", name: "runtime.json"},
+		], {throwOnFirstError: true});
+
+		expect(() => loader.load()).toThrow(
+			"runtime.json:1:8 $.db.host: Missing required field host"
+		);
+	});
+});
@@ -0,0 +1,210 @@
+import { ConfigElementBuilder } from "../src/elements";
+import { IniReader } from "../src/ini";
+import { JsonReader } from "../src/json";
+import { mergeDocuments, mergeValues } from "../src/merge";
+import { SourceDocument } from "../src/reader";
+
+const server = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").build(),
+	new ConfigElementBuilder().ofTypeNumber().withName("port").build(),
+	new ConfigElementBuilder().ofTypeObject().withName("tls").withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("cert").build(),
+		new ConfigElementBuilder().ofTypeString().withName("key").build()
+	).build()
+).build();
+
+const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").build(),
+	new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("host").build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("port").build(),
+		new ConfigElementBuilder().ofTypeBoolean().withName("ssl").isOptional().build(),
+		new ConfigElementBuilder().ofTypeObject().withName("pool").canBeNull()
+			.withChildElements(
+				new ConfigElementBuilder().ofTypeNumber().withName("size").build()
+			).build()
+	).build(),
+	new ConfigElementBuilder().ofTypeArray().withName("tags").withStringArrayElements()
+		.build(),
+	new ConfigElementBuilder().ofTypeArray().withName("plugins").withStringArrayElements()
+		.withMergeStrategy("append").build(),
+	new ConfigElementBuilder().ofTypeArray().withName("servers")
+		.withMergeStrategy("mergeByKey", "name").withObjectArrayElements(server).build()
+).build();
+
+const reader: JsonReader = new JsonReader();
+
+describe("Merging values", () => {
+	test("Merges objects of object elements key by key", () => {
+		expect(mergeValues(
+			root,
+			{name: "app", db: {host: "localhost", port: 5432}},
+			{db: {port: 5433, ssl: true}},
+			{db: {host: "db.example.com"}}
+		)).toEqual({name: "app", db: {host: "db.example.com", port: 5433, ssl: true}});
+	});
+
+	test("Replaces arrays and primitive values", () => {
+		expect(mergeValues(
+			root,
+			{name: "a", tags: ["a", "b"]},
+			{name: "b", tags: ["c"]}
+		)).toEqual({name: "b", tags: ["c"]});
+	});
+
+	test("Replaces objects without an element", () => {
+		expect(mergeValues(
+			root,
+			{extra: {a: 1, b: 2}},
+			{extra: {b: 3}}
+		)).toEqual({extra: {b: 3}});
+	});
+
+	test("Replaces values and objects with null", () => {
+		expect(mergeValues(
+			root,
+			{name: "app", db: {host: "h", pool: {size: 5}}},
+			{name: null, db: {pool: null}}
+		)).toEqual({name: null, db: {host: "h", pool: null}});
+	});
+
+	test("Does not merge an object with null", () => {
+		expect(mergeValues(
+			root,
+			{db: {pool: {size: 5}}},
+			{db: {pool: null}},
+			{db: {pool: {}}}
+		)).toEqual({db: {pool: {}}});
+	});
+
+	test("Keeps the value of undefined keys", () => {
+		expect(mergeValues(
+			root,
+			{name: "app", db: {port: 5432}},
+			{name: undefined, db: {port: undefined}},
+			undefined
+		)).toEqual({name: "app", db: {port: 5432}});
+	});
+
+	test("Replaces values of a different type", () => {
+		expect(mergeValues(root, {db: 42}, {db: {port: 1}})).toEqual({db: {port: 1}});
+		expect(mergeValues(root, {db: {port: 1}}, {db: "x"})).toEqual({db: "x"});
+	});
+
+	test("Appends arrays with the append strategy", () => {
+		expect(mergeValues(
+			root,
+			{plugins: ["a", "b"]},
+			{plugins: ["c"]},
+			{plugins: []}
+		)).toEqual({plugins: ["a", "b", "c"]});
+	});
+
+	test("Merges objects with the same key with the mergeByKey strategy", () => {
+		expect(mergeValues(
+			root,
+			{servers: [
+				{name: "a", port: 1, tls: {cert: "a.crt", key: "a.key"}},
+				{name: "b", port: 2},
+				"c"
+			]},
+			{servers: [
+				{name: "b", port: 3},
+				{name: "a", tls: {key: "other.key"}},
+				{port: 4},
+				{name: "d", port: 5},
+				"c"
+			]}
+		)).toEqual({servers: [
+			{name: "a", port: 1, tls: {cert: "a.crt", key: "other.key"}},
+			{name: "b", port: 3},
+			"c",
+			{port: 4},
+			{name: "d", port: 5},
+			"c"
+		]});
+	});
+
+	test("Replaces arrays with a merge strategy that are not merged with an array", () => {
+		expect(mergeValues(root, {plugins: null}, {plugins: ["a"]}))
+			.toEqual({plugins: ["a"]});
+		expect(mergeValues(root, {plugins: ["a"]}, {plugins: null}))
+			.toEqual({plugins: null});
+	});
+
+	test("Merges all objects without an element", () => {
+		expect(mergeValues(
+			undefined,
+			{a: {b: 1, c: [1]}, d: 1},
+			{a: {c: [2], e: 3}}
+		)).toEqual({a: {b: 1, c: [2], e: 3}, d: 1});
+	});
+
+	test("Does not change the merged values", () => {
+		const defaults: object = {name: "app", db: {host: "h", port: 1}};
+		const merged = mergeValues(root, defaults, {db: {port: 2}}) as {db: {port: number}};
+		merged.db.port = 3;
+
+		expect(defaults).toEqual({name: "app", db: {host: "h", port: 1}});
+	});
+});
+
+describe("Merging documents", () => {
+	test("Records the positions and sources of the merged values", () => {
+		const merged: SourceDocument = mergeDocuments(root, [
+			reader.read("{\"db\": {\"host\": \"h\", \"port\": 1}}", "a.json"),
+			reader.read("{\n\"db\": {\"port\": 2},\n\"tags\": []}", "b.json"),
+		]);
+
+		expect(merged.value).toEqual({db: {host: "h", port: 2}, tags: []});
+		expect(merged.sources.get("$")).toBe("b.json");
+		expect(merged.sources.get("$.db.host")).toBe("a.json");
+		expect(merged.sources.get("$.db.port")).toBe("b.json");
+		expect(merged.sources.get("$.tags")).toBe("b.json");
+		expect(merged.positions.get("$.db.host")).toEqual({line: 1, column: 17});
+		expect(merged.positions.get("$.db.port")).toEqual({line: 2, column: 16});
+		expect(merged.keyPositions.get("$.tags")).toEqual({line: 3, column: 1});
+	});
+
+	test("Removes the positions of replaced values", () => {
+		const merged: SourceDocument = mergeDocuments(root, [
+			reader.read("{\"tags\": [\"a\", \"b\"]}", "a.json"),
+			{value: {tags: ["c"]}, positions: new Map(), keyPositions: new Map()},
+		]);
+
+		expect(merged.positions.has("$.tags")).toBe(false);
+		expect(merged.positions.has("$.tags[1]")).toBe(false);
+		expect(merged.sources.has("$.tags")).toBe(true);
+		expect(merged.sources.get("$.tags")).toBeUndefined();
+	});
+
+	test("Records the positions and sources of merged array elements", () => {
+		const merged: SourceDocument = mergeDocuments(root, [
+			reader.read("{\"servers\": [{\"name\": \"a\", \"tls\": {}}]}", "a.json"),
+			reader.read("{\"servers\": [\n{\"name\": \"b\"}, {\"name\": \"a\"}]}",
+				"b.json"),
+		]);
+
+		expect(merged.sources.get("$.servers")).toBe("b.json");
+		expect(merged.sources.get("$.servers[0]")).toBe("b.json");
+		expect(merged.sources.get("$.servers[0].name")).toBe("b.json");
+		expect(merged.sources.get("$.servers[0].tls")).toBe("a.json");
+		expect(merged.sources.get("$.servers[1]")).toBe("b.json");
+		expect(merged.positions.get("$.servers[0].name")).toEqual({line: 2, column: 25});
+		expect(merged.positions.get("$.servers[0].tls")).toEqual({line: 1, column: 35});
+		expect(merged.positions.get("$.servers[1].name")).toEqual({line: 2, column: 10});
+	});
+
+	test("Converts the strings of documents with only string values", () => {
+		const merged: SourceDocument = mergeDocuments(root, [
+			reader.read("{\"name\": \"1\", \"db\": {\"port\": 1}}"),
+			new IniReader().read("[db]\nport = 5433\nssl = TRUE\n[extra]\nx = 1\n"),
+		]);
+
+		expect(merged.value).toEqual({
+			name: "1",
+			db: {port: 5433, ssl: true},
+			extra: {x: "1"}
+		});
+	});
+});
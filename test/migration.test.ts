@@ -0,0 +1,121 @@
+import { ConfigElementBuilder } from "../src/elements";
+import { JsonReader } from "../src/json";
+import { ConfigVersionError, createMigratedDocument, migrateDocument } from "../src/migration";
+import { SourceDocument } from "../src/reader";
+
+const root = new ConfigElementBuilder().ofTypeObject().withVersion("version", 3)
+	.withMigration(1, config => ({...config, port: Number(config.port)}))
+	.withMigration(2, ({host, port, ...config}) => ({...config, db: {host, port}}))
+	.withChildElements(
+		new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("host").build(),
+			new ConfigElementBuilder().ofTypeNumber().withName("port").build()
+		).build()
+	).build();
+
+function toDocument(value: unknown): SourceDocument {
+	return {value, positions: new Map(), keyPositions: new Map()};
+}
+
+describe("Migrating configuration", () => {
+	test("Runs the migrations from the version of the document in order", () => {
+		const value = {version: 1, host: "h", port: "80"};
+
+		expect(migrateDocument(toDocument(value), root)).toEqual({
+			fromVersion: 1,
+			toVersion: 3,
+			value: {version: 3, db: {host: "h", port: 80}}
+		});
+		expect(value).toEqual({version: 1, host: "h", port: "80"});
+	});
+
+	test("Migrates a document without a version from version 1", () => {
+		const result = migrateDocument(toDocument({host: "h", port: 80}), root);
+
+		expect(result.fromVersion).toBe(1);
+		expect(result.value).toEqual({version: 3, db: {host: "h", port: 80}});
+	});
+
+	test.each<[unknown]>([
+		[{version: 3}],
+		[[]],
+		["text"],
+	])("Does not migrate %j", value => {
+		expect(migrateDocument(toDocument(value), root)).toBeUndefined();
+	});
+
+	test("Does not migrate without a version on the element", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().build();
+
+		expect(migrateDocument(toDocument({version: 1}), element)).toBeUndefined();
+	});
+
+	test.each<[unknown, string]>([
+		[4, "$.version: Version 4 is newer than the supported version 3"],
+		[0, "$.version: Invalid version 0, expected a positive integer"],
+		["2", "$.version: Invalid version \"2\", expected a positive integer"],
+	])("Rejects version %j", (version, message) => {
+		expect(() => migrateDocument(toDocument({version}), root))
+			.toThrow(ConfigVersionError);
+		expect(() => migrateDocument(toDocument({version}), root)).toThrow(message);
+	});
+
+	test("Reports the position of the version", () => {
+		const document = new JsonReader().read("{\n \"version\": 9\n}", "app.json");
+
+		let error: ConfigVersionError;
+		try {
+			migrateDocument(document, root);
+		}
+		catch (err) {
+			error = err as ConfigVersionError;
+		}
+
+		expect(error.code).toBe("UNSUPPORTED_VERSION");
+		expect(error.message).toBe(
+			"app.json:2:13 $.version: Version 9 is newer than the supported version 3"
+		);
+		expect(error.position).toEqual({line: 2, column: 13});
+	});
+
+	test("Keeps a configuration that a migration changes in place", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withVersion("v", 2)
+			.withMigration(1, config => {
+				config.port = Number(config.port);
+			}).build();
+
+		expect(migrateDocument(toDocument({port: "80"}), element)?.value)
+			.toEqual({port: 80, v: 2});
+	});
+
+	test("Rejects a migration that does not return an object", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withVersion("v", 2)
+			.withMigration(1, () => [] as unknown as Record<string, unknown>).build();
+
+		expect(() => migrateDocument(toDocument({}), element))
+			.toThrow("$.v: Migration from version 1 to 2 did not return an object");
+	});
+
+	test("Rejects a missing migration", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withVersion("v", 2)
+			.build();
+
+		expect(() => migrateDocument(toDocument({}), element))
+			.toThrow("$.v: No migration from version 1 to 2");
+	});
+});
+
+describe("Creating migrated documents", () => {
+	test("Keeps the positions of values that the migration does not change", () => {
+		const document = new JsonReader().read(
+			"{\"name\": \"a\", \"host\": \"h\", \"port\": \"80\", \"tags\": [1, 2]}"
+		);
+		const value: unknown = migrateDocument(document, root).value;
+		const migrated = createMigratedDocument(document, value);
+
+		expect(migrated.value).toBe(value);
+		expect([...migrated.positions.keys()])
+			.toEqual(["$.name", "$.tags", "$.tags[0]", "$.tags[1]"]);
+		expect([...migrated.keyPositions.keys()]).toEqual(["$.name", "$.tags"]);
+	});
+});
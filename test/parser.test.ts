@@ -1,6 +1,7 @@
 /**
  * Unit test case for parsing configuration.
  */
+import { ConfigArgumentError } from "../src/args";
 import {
 		ConfigElementBuilder,
 		ConfigElement,
@@ -15,15 +16,33 @@ import {
 import {
 	ConfigParseFailureError,
 	ConfigParser,
+	ConfigValidationError,
 	InvalidArrayContentsError,
 	InvalidArrayElementTypeError,
+	InterpolationCycleError,
 	InvalidTypeError,
 	InvalidValueError,
 	MissingRequiredFieldError,
 	NullArrayElementError,
+	NonFiniteNumberError,
 	NullValueError,
+	ParseFailure,
+	ParseResult,
+	ParseSuccess,
+	UnknownFieldError,
+	UnresolvedReferenceError,
 	ValidationError,
 } from "../src/parser";
+import { ConfigFileError } from "../src/file";
+import { ConfigFormat } from "../src/formats";
+import { ConfigIncludeError } from "../src/include";
+import { JsonReader } from "../src/json";
+import { ConfigVersionError } from "../src/migration";
+import { ConfigSyntaxError } from "../src/reader";
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 
 // Error type for testing purpose.
 class TestError extends Error {}
@@ -201,6 +220,42 @@ describe("Config with a single number", () => {
 
 	});
 
+	describe("With a non-finite number", () => {
+
+		const nonFinite: number[] = [Infinity, -Infinity, NaN];
+
+		test.each<number>(nonFinite)("Should reject %d by default", (x) => {
+			parser = getParserWithRootAndChildren(
+				new ConfigElementBuilder().ofTypeNumber().withName("x").build()
+			);
+			const result: ParseFailure = parser.validate({x}) as ParseFailure;
+			expect(result.success).toBe(false);
+			expect(result.errors).toHaveLength(1);
+			expect(result.errors[0].code).toBe("NON_FINITE_NUMBER");
+			expect(result.errors[0].error).toBeInstanceOf(NonFiniteNumberError);
+			const detail = "not a finite number, non-finite numbers not allowed";
+			expect(result.errors[0].message).toBe(`$.x: Value ${x} is ${detail}`);
+		});
+
+		test.each<number>(nonFinite)("Should accept %d if allowed", (x) => {
+			parser = getParserWithRootAndChildren(
+				new ConfigElementBuilder().ofTypeNumber().withName("x")
+					.withAllowNonFiniteValues().build()
+			);
+			expect(parser.validate({x}).success).toBe(true);
+		});
+
+		test("Should check the range of allowed non-finite numbers", () => {
+			parser = getParserWithRootAndChildren(
+				new ConfigElementBuilder().ofTypeNumber().withName("x")
+					.withAllowNonFiniteValues().withMaxValue(10).build()
+			);
+			expect(parser.validate({x: -Infinity}).success).toBe(true);
+			expect(parser.validate({x: Infinity}).success).toBe(false);
+		});
+
+	});
+
 	describe("With a custom validator", () => {
 		const validator: ElementValidator<number> = {
 			validate: (ce: ConfigElement, val: number) => {
@@ -1232,3 +1287,1354 @@ describe("Parsing config with $comment fields", () => {
 		expect("$comment" in result).toBe(true);
 	});
 });
+
+describe("Parsing config with default values", () => {
+	type Result = {x?: number, s?: string, b?: boolean};
+
+	const root: ObjectElement = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeNumber().withName("x").isOptional()
+			.withDefaultValue(5).build(),
+		new ConfigElementBuilder().ofTypeString().withName("s").isOptional()
+			.withDefaultValue("default").build(),
+		new ConfigElementBuilder().ofTypeBoolean().withName("b").isOptional().build()
+	).build() as ObjectElement;
+
+	test("Missing optional elements get their default value", () => {
+		const result: Result = new ConfigParser(root).parse("{}") as Result;
+		expect(result.x).toBe(5);
+		expect(result.s).toBe("default");
+		expect("b" in result).toBe(false);
+	});
+
+	test("Present elements keep their value", () => {
+		const result: Result = new ConfigParser(root).parse(
+			"{\"x\": 1, \"s\": \"value\"}"
+		) as Result;
+		expect(result.x).toBe(1);
+		expect(result.s).toBe("value");
+	});
+
+	test("With specifying to not apply defaults leaves elements absent", () => {
+		const parser: ConfigParser = new ConfigParser(root, {applyDefaultValues: false});
+		const result: Result = parser.parse("{}") as Result;
+		expect("x" in result).toBe(false);
+		expect("s" in result).toBe(false);
+	});
+
+	test("Types elements with a default value as optional without default values", () => {
+		const typedRoot = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeNumber().withName("x").isOptional()
+				.withDefaultValue(5).build()
+		).build();
+
+		const withDefaults: {x: number} = new ConfigParser(typedRoot).parse("{}");
+		const withoutDefaults: {x?: number} =
+			new ConfigParser(typedRoot, {applyDefaultValues: false}).parse("{}");
+		// @ts-expect-error The value of x is not present for sure without default values.
+		const required: {x: number} = withoutDefaults;
+
+		expect([withDefaults, withoutDefaults, required]).toEqual([{x: 5}, {}, {}]);
+	});
+
+	test("Default values are validated", () => {
+		const parser: ConfigParser = getParserWithRootAndChildren(
+			new ConfigElementBuilder().ofTypeNumber().withName("x").isOptional()
+				.withMaxValue(10).withDefaultValue(11).build()
+		);
+		expect(() => parser.parse("{}")).toThrow(ConfigParseFailureError);
+		expect(getErrorsOfType(parser, InvalidValueError)).toHaveLength(1);
+	});
+
+	test("Object custom validators see the default values", () => {
+		const validator: ElementValidator<object> = {
+			validate: (ce: ConfigElement, value: object) => (value as Result).x === 5
+		};
+		const parser: ConfigParser = new ConfigParser(
+			new ConfigElementBuilder().ofTypeObject().withChildElements(
+				new ConfigElementBuilder().ofTypeNumber().withName("x").isOptional()
+					.withDefaultValue(5).build()
+			).withValidators(validator).build()
+		);
+		expect((parser.parse("{}") as Result).x).toBe(5);
+	});
+});
+
+describe("Errors carry their location", () => {
+	const year: NumberElement = new ConfigElementBuilder().ofTypeNumber().withName("year")
+		.withMinValue(1900).build() as NumberElement;
+	const books: ArrayElement = new ConfigElementBuilder().ofTypeArray().withName("books")
+		.withObjectArrayElements(
+			new ConfigElementBuilder().ofTypeObject().withChildElements(
+				new ConfigElementBuilder().ofTypeString().withName("name").build(),
+				year
+			).build()
+		).build() as ArrayElement;
+
+	let parser: ConfigParser;
+
+	beforeEach(() => {
+		parser = getParserWithRootAndChildren(books);
+	});
+
+	test("Invalid nested value has path, element and value", () => {
+		const json: string = JSON.stringify({books: [
+			{name: "a", year: 2000},
+			{name: "b", year: "1999"}
+		]}, null, 2);
+		expect(() => parser.parse(json, "books.json")).toThrow(ConfigParseFailureError);
+
+		const errors = getErrorsOfType(parser, InvalidTypeError);
+		expect(errors).toHaveLength(1);
+		expect(errors[0].path).toBe("$.books[1].year");
+		expect(errors[0].element).toBe(year);
+		expect(errors[0].value).toBe("1999");
+		expect(errors[0].position).toEqual({line: 9, column: 15});
+		expect(errors[0].source).toBe("books.json");
+		expect(errors[0].message).toBe(
+			"books.json:9:15 $.books[1].year: Invalid type string, expected type number"
+		);
+		expect((errors[0] as ConfigValidationError).detail).toBe(
+			"Invalid type string, expected type number"
+		);
+	});
+
+	test("Missing required field has the path of the missing field", () => {
+		expect(() => parser.parse(JSON.stringify({books: [{year: 2000}]})))
+			.toThrow(ConfigParseFailureError);
+
+		const errors = getErrorsOfType(parser, MissingRequiredFieldError);
+		expect(errors).toHaveLength(1);
+		expect(errors[0].path).toBe("$.books[0].name");
+		expect(errors[0].value).toBeUndefined();
+		expect(errors[0].position).toEqual({line: 1, column: 11});
+	});
+
+	test("Invalid JSON throws a syntax error with the position", () => {
+		expect(() => parser.parse("{\n  \"books\": [,]\n}", "books.json"))
+			.toThrow(new ConfigSyntaxError(
+				"Unexpected character ',', expected a value",
+				{line: 2, column: 13},
+				"books.json"
+			));
+	});
+
+	test("Null array elements have the path of the element", () => {
+		expect(() => parser.parse(JSON.stringify({books: [null]})))
+			.toThrow(ConfigParseFailureError);
+
+		const errors = getErrorsOfType(parser, NullArrayElementError);
+		expect(errors).toHaveLength(1);
+		expect(errors[0].path).toBe("$.books[0]");
+		expect(errors[0].element).toBe(books);
+	});
+
+	test("Errors thrown by custom validators get the location attached", () => {
+		parser = getParserWithRootAndChildren(
+			new ConfigElementBuilder().ofTypeNumber().withName("x").withValidators(
+				{validate: () => { throw new TestError("Failure"); }}
+			).build()
+		);
+		expect(() => parser.parse("{\"x\": 1}")).toThrow(ConfigParseFailureError);
+
+		const errors = getErrorsOfType(parser, TestError);
+		expect(errors).toHaveLength(1);
+		expect(errors[0].path).toBe("$.x");
+		expect(errors[0].value).toBe(1);
+		expect(errors[0].message).toBe("Failure");
+	});
+});
+
+describe("Parsing without throwing errors", () => {
+	function getFailure(result: ParseResult): ParseFailure {
+		expect(result.success).toBe(false);
+		return result as ParseFailure;
+	}
+
+	const root: ObjectElement = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeNumber().withName("x").withMaxValue(10).build(),
+		new ConfigElementBuilder().ofTypeString().withName("s").build()
+	).build() as ObjectElement;
+
+	test("A valid configuration gives a successful result", () => {
+		const result: ParseResult = new ConfigParser(root).safeParse(
+			"{\"x\": 1, \"s\": \"a\"}"
+		);
+		expect(result.success).toBe(true);
+		expect((result as ParseSuccess).value).toEqual({x: 1, s: "a"});
+	});
+
+	test("An invalid configuration gives the errors ordered by position", () => {
+		const json: string = "{\n  \"s\": 1,\n  \"x\": 11\n}";
+		const result: ParseResult = new ConfigParser(root).safeParse(json, "c.json");
+		const failure: ParseFailure = getFailure(result);
+		expect(failure.errors.map(e => e.code)).toEqual(["INVALID_TYPE", "INVALID_VALUE"]);
+		expect(failure.errors.map(e => e.path)).toEqual(["$.s", "$.x"]);
+		expect(failure.errors[0].position).toEqual({line: 2, column: 8});
+		expect(failure.errors[0].source).toBe("c.json");
+		expect(failure.errors[0].error).toBeInstanceOf(InvalidTypeError);
+	});
+
+	test("Missing fields are ordered at the position of their parent", () => {
+		const result: ParseResult = new ConfigParser(root).safeParse("{\"x\": 11}");
+		const failure: ParseFailure = getFailure(result);
+		expect(failure.errors.map(e => e.code))
+			.toEqual(["MISSING_REQUIRED_FIELD", "INVALID_VALUE"]);
+	});
+
+	test("Invalid text gives a syntax error", () => {
+		const result: ParseResult = new ConfigParser(root).safeParse("{\"x\": }");
+		const failure: ParseFailure = getFailure(result);
+		expect(failure.errors).toHaveLength(1);
+		expect(failure.errors[0].code).toBe("SYNTAX_ERROR");
+		expect(failure.errors[0].position).toEqual({line: 1, column: 7});
+	});
+
+	test("Too deeply nested text gives a syntax error", () => {
+		const text: string = `{"x": ${"[".repeat(5000)}${"]".repeat(5000)}}`;
+		const failure: ParseFailure = getFailure(new ConfigParser(root).safeParse(text));
+		expect(failure.errors.map(e => e.code)).toEqual(["SYNTAX_ERROR"]);
+		expect(() => new ConfigParser(root).parse(text)).toThrow(ConfigSyntaxError);
+	});
+
+	test("Errors of custom validators have the VALIDATOR_ERROR code", () => {
+		const parser: ConfigParser = getParserWithRootAndChildren(
+			new ConfigElementBuilder().ofTypeNumber().withName("x").withValidators(
+				{validate: () => { throw new TestError("Failure"); }}
+			).build()
+		);
+		const result: ParseResult = parser.safeParse("{\"x\": 1}");
+		const failure: ParseFailure = getFailure(result);
+		expect(failure.errors[0].code).toBe("VALIDATOR_ERROR");
+		expect(failure.errors[0].path).toBe("$.x");
+	});
+
+	test("Throwing on the first error only gives the first error", () => {
+		const parser: ConfigParser = new ConfigParser(root, {throwOnFirstError: true});
+		const result: ParseResult = parser.safeParse("{\"x\": 11, \"s\": 1}");
+		const failure: ParseFailure = getFailure(result);
+		expect(failure.errors).toHaveLength(1);
+	});
+
+	test("Unknown fields are reported as warnings", () => {
+		const json: string = "{\"x\": 1, \"s\": \"a\",\n \"y\": 2, \"$comment\": \"\"}";
+		const result: ParseResult = new ConfigParser(root).safeParse(json);
+		expect(result.success).toBe(true);
+		expect(result.warnings).toHaveLength(1);
+		expect(result.warnings[0].code).toBe("UNKNOWN_FIELD");
+		expect(result.warnings[0].path).toBe("$.y");
+		expect(result.warnings[0].position).toEqual({line: 2, column: 2});
+		expect(result.warnings[0].error).toBeInstanceOf(UnknownFieldError);
+	});
+
+	test("Validating a value that is already parsed", () => {
+		const parser: ConfigParser = new ConfigParser(root);
+		expect(parser.validate({x: 1, s: "a"}).success).toBe(true);
+
+		const result: ParseResult = new ConfigParser(root).validate({x: "1", s: "a"});
+		const failure: ParseFailure = getFailure(result);
+		expect(failure.errors[0].path).toBe("$.x");
+		expect(failure.errors[0].position).toBeUndefined();
+	});
+});
+
+describe("Reusing a parser instance", () => {
+	type Result = {x: number, y?: number};
+
+	let parser: ConfigParser;
+
+	beforeEach(() => {
+		parser = new ConfigParser(
+			new ConfigElementBuilder().ofTypeObject().withChildElements(
+				new ConfigElementBuilder().ofTypeNumber().withName("x")
+					.withMaxValue(10).build()
+			).build(),
+			{pruneUnknownElements: true}
+		);
+	});
+
+	test("Errors of a previous parse do not fail the next parse", () => {
+		expect(() => parser.parse("{\"x\": 11}")).toThrow(ConfigParseFailureError);
+		expect((parser.parse("{\"x\": 1}") as Result).x).toBe(1);
+		expect(parser.getErrors()).toHaveLength(0);
+	});
+
+	test("Errors of a previous parse do not stop pruning in the next parse", () => {
+		expect(parser.safeParse("{\"x\": 11}").success).toBe(false);
+		const result: Result = parser.parse("{\"x\": 1, \"y\": 2}") as Result;
+		expect("y" in result).toBe(false);
+	});
+
+	test("The thrown failure error holds the errors of that parse", () => {
+		let failure: ConfigParseFailureError;
+		try {
+			parser.parse("{\"x\": 11, \"y\": 2}");
+		}
+		catch (err) {
+			failure = err as ConfigParseFailureError;
+		}
+
+		expect(failure).toBeInstanceOf(ConfigParseFailureError);
+		expect(failure.errors).toHaveLength(1);
+		expect(failure.errors[0].code).toBe("INVALID_VALUE");
+		expect(failure.warnings).toHaveLength(1);
+		expect(failure.warnings[0].code).toBe("UNKNOWN_FIELD");
+	});
+
+	test("A parse that runs during another parse has its own state", () => {
+		let innerResult: ParseResult;
+		const validator: ElementValidator<number> = {validate: (ce, value) => {
+			if (value === 11) innerResult = outer.safeParse("{\"x\": 1}");
+			return true;
+		}};
+		const outer: ConfigParser = getParserWithRootAndChildren(
+			new ConfigElementBuilder().ofTypeNumber().withName("x").withMaxValue(10)
+				.withValidators(validator).build()
+		);
+
+		expect(outer.safeParse("{\"x\": 11}").success).toBe(false);
+		expect(innerResult.success).toBe(true);
+	});
+});
+
+describe("Parsing config in another format", () => {
+	const jsonc: string = "{\n  // The x value\n  \"x\": 1,\n  \"y\": [\"a\", \"b\",],\n}";
+	const root: ConfigElement = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeNumber().withName("x").withMaxValue(10).build(),
+		new ConfigElementBuilder().ofTypeArray().withName("y")
+			.withStringArrayElements().build()
+	).build();
+
+	test("JSON format rejects comments", () => {
+		expect(() => new ConfigParser(root).parse(jsonc)).toThrow(ConfigSyntaxError);
+	});
+
+	test("JSONC format accepts comments and trailing commas", () => {
+		const parser: ConfigParser = new ConfigParser(root, {format: "jsonc"});
+		expect(parser.parse(jsonc)).toEqual({x: 1, y: ["a", "b"]});
+	});
+
+	test("JSONC format reports positions of errors", () => {
+		const parser: ConfigParser = new ConfigParser(root, {format: "jsonc"});
+		const result: ParseFailure = parser.safeParse(
+			"{\n  /* x */ \"x\": 11,\n  \"y\": [],\n}", "config.jsonc"
+		) as ParseFailure;
+		expect(result.success).toBe(false);
+		expect(result.errors[0].message).toBe(
+			"config.jsonc:2:16 $.x: Value 11 is greater then maximum 10"
+		);
+	});
+
+	test("A reader takes precedence over the format", () => {
+		const parser: ConfigParser = new ConfigParser(
+			root, {format: "jsonc", reader: new JsonReader()}
+		);
+		expect(() => parser.parse(jsonc)).toThrow(ConfigSyntaxError);
+	});
+});
+
+describe("Parsing config in JSON5 format", () => {
+	const json5: string = [
+		"// Hand written configuration",
+		"{",
+		"  name: 'It\\'s a \\",
+		"name',",
+		"  port: 0x1F90,",
+		"  ratio: .5,",
+		"  limit: Infinity,",
+		"}",
+	].join("\n");
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("name").build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("port").build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("ratio").build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("limit")
+			.withAllowNonFiniteValues().build()
+	).build();
+
+	test("Gives the same value tree as JSON", () => {
+		const parser = new ConfigParser(root, {format: "json5"});
+		expect(parser.parse(json5)).toEqual(
+			{name: "It's a name", port: 8080, ratio: 0.5, limit: Infinity}
+		);
+	});
+
+	test("Reports the position of non-finite numbers that are not allowed", () => {
+		const parser: ConfigParser = new ConfigParser(
+			new ConfigElementBuilder().ofTypeObject().withChildElements(
+				new ConfigElementBuilder().ofTypeNumber().withName("x").build()
+			).build(),
+			{format: "json5"}
+		);
+		const result: ParseFailure = parser.safeParse(
+			"{\n  x: NaN\n}", "config.json5"
+		) as ParseFailure;
+		expect(result.success).toBe(false);
+		expect(result.errors[0].code).toBe("NON_FINITE_NUMBER");
+		expect(result.errors[0].position).toEqual({line: 2, column: 6});
+	});
+});
+
+describe("Parsing config in YAML format", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("name").build(),
+		new ConfigElementBuilder().ofTypeArray().withName("ports")
+			.withNumberArrayElements(
+				new ConfigElementBuilder().ofTypeNumber().withMaxValue(65535)
+					.build()
+			).build()
+	).build();
+	const parser = new ConfigParser(root, {format: "yaml"});
+
+	test("Validates the same value tree as JSON", () => {
+		expect(parser.parse("name: web\nports:\n  - 80\n  - 443\n")).toEqual(
+			{name: "web", ports: [80, 443]}
+		);
+	});
+
+	test("Reports errors at YAML line numbers", () => {
+		const result: ParseFailure = parser.safeParse(
+			"# Ports\nname: 42\nports:\n  - 80\n  - 70000\n", "config.yaml"
+		) as ParseFailure;
+		expect(result.success).toBe(false);
+		expect(result.errors.map(e => e.message)).toEqual([
+			"config.yaml:2:7 $.name: Invalid type number, expected type string",
+			"config.yaml:5:5 $.ports[1]: Value 70000 is greater then maximum 65535",
+		]);
+	});
+});
+
+describe("Parsing config in TOML format", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("released").build(),
+		new ConfigElementBuilder().ofTypeArray().withName("servers")
+			.withObjectArrayElements(
+				new ConfigElementBuilder().ofTypeObject().withChildElements(
+					new ConfigElementBuilder().ofTypeNumber().withName("port")
+						.withMaxValue(65535).build()
+				).build()
+			).build()
+	).build();
+	const parser = new ConfigParser(root, {format: "toml"});
+
+	test("Validates tables, arrays of tables and datetimes", () => {
+		const text: string = [
+			"released = 2024-01-02 03:04:05Z",
+			"[[servers]]",
+			"port = 80",
+			"[[servers]]",
+			"port = 443",
+		].join("\n");
+		expect(parser.parse(text)).toEqual(
+			{released: "2024-01-02T03:04:05Z", servers: [{port: 80}, {port: 443}]}
+		);
+	});
+
+	test("Reports errors at TOML line numbers", () => {
+		const result: ParseFailure = parser.safeParse(
+			"released = 1\n\n[[servers]]\nport = 70000\n", "config.toml"
+		) as ParseFailure;
+		expect(result.success).toBe(false);
+		expect(result.errors.map(e => e.message)).toEqual([
+			"config.toml:1:12 $.released: Invalid type number, expected type string",
+			"config.toml:4:8 $.servers[0].port: " +
+				"Value 70000 is greater then maximum 65535",
+		]);
+	});
+});
+
+describe("Parsing config with only string values", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeObject().withName("server").withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("host").build(),
+			new ConfigElementBuilder().ofTypeNumber().withName("port")
+				.withMaxValue(65535).build(),
+			new ConfigElementBuilder().ofTypeNumber().withName("ratio")
+				.isOptional().build(),
+			new ConfigElementBuilder().ofTypeBoolean().withName("secure").build()
+		).build()
+	).build();
+
+	test("Converts INI values to the type of their element", () => {
+		const parser = new ConfigParser(root, {format: "ini"});
+		expect(parser.parse(
+			"[server]\nhost = 10\nport = 8080\nratio = -0.5\nsecure = TRUE\n"
+		)).toEqual({server: {host: "10", port: 8080, ratio: -0.5, secure: true}});
+	});
+
+	test("Converts properties values to the type of their element", () => {
+		const parser = new ConfigParser(root, {format: "properties"});
+		expect(parser.parse(
+			"server.host=localhost\nserver.port=443\nserver.secure=false\n"
+		)).toEqual({server: {host: "localhost", port: 443, secure: false}});
+	});
+
+	test("Reports values that cannot be converted", () => {
+		const parser = new ConfigParser(root, {format: "properties"});
+		const result: ParseFailure = parser.safeParse(
+			"server.host=x\nserver.port=80a\nserver.secure=yes\nserver.ratio=\n",
+			"app.properties"
+		) as ParseFailure;
+		expect(result.errors.map(e => [e.code, e.path, e.position])).toEqual([
+			["INVALID_TYPE", "$.server.port", {line: 2, column: 13}],
+			["INVALID_TYPE", "$.server.secure", {line: 3, column: 15}],
+			["INVALID_TYPE", "$.server.ratio", {line: 4, column: 14}],
+		]);
+		expect(result.errors[0].message).toBe(
+			"app.properties:2:13 $.server.port: " +
+				"Invalid type string, expected type number"
+		);
+	});
+
+	test("Reports converted values that are out of range", () => {
+		const parser = new ConfigParser(root, {format: "ini"});
+		const result: ParseFailure = parser.safeParse(
+			"[server]\nhost = x\nport = 70000\nsecure = true\n", "app.ini"
+		) as ParseFailure;
+		expect(result.errors.map(e => e.message)).toEqual([
+			"app.ini:3:8 $.server.port: Value 70000 is greater then maximum 65535",
+		]);
+	});
+
+	test("Does not convert strings of other formats", () => {
+		const parser = new ConfigParser(root);
+		const result: ParseFailure = parser.safeParse(
+			"{\"server\": {\"host\": \"x\", \"port\": \"80\", \"secure\": true}}"
+		) as ParseFailure;
+		expect(result.errors.map(e => e.code)).toEqual(["INVALID_TYPE"]);
+	});
+});
+
+describe("Parsing config files", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("name").build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("port")
+			.withMaxValue(65535).build()
+	).build();
+	const parser = new ConfigParser(root);
+	let dir: string;
+
+	function writeFile(name: string, contents: string | Buffer): string {
+		const file: string = path.join(dir, name);
+		fs.writeFileSync(file, contents);
+		return file;
+	}
+
+	beforeAll(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-parser-"));
+	});
+
+	afterAll(() => {
+		fs.rmSync(dir, {recursive: true});
+	});
+
+	test.each<[string, string]>([
+		["config.json", "{\"name\": \"web\", \"port\": 80}"],
+		["config.jsonc", "{\"name\": \"web\", // Comment\n\"port\": 80,}"],
+		["config.json5", "{name: 'web', port: 80}"],
+		["config.yaml", "name: web\nport: 80\n"],
+		["config.toml", "name = \"web\"\nport = 80\n"],
+		["config.ini", "name = web\nport = 80\n"],
+		["config.properties", "name=web\nport=80\n"],
+	])("Selects the reader of %s from the extension", (name, text) => {
+		expect(parser.parseFile(writeFile(name, text))).toEqual({name: "web", port: 80});
+	});
+
+	test("Reads files with an unknown extension with the reader of the parser", () => {
+		const file: string = writeFile("config.conf", "name: web\nport: 80\n");
+		expect(new ConfigParser(root, {format: "yaml"}).parseFile(file)).toEqual(
+			{name: "web", port: 80}
+		);
+	});
+
+	test.each<[ConfigFormat, string]>([
+		["jsonc", "{\"name\": \"web\", // Comment\n\"port\": 80,}"],
+		["json5", "{name: 'web', port: 80}"],
+	])("Reads JSON files with the %s format of the parser", async (format, text) => {
+		const file: string = writeFile("tsconfig.json", text);
+		const jsoncParser = new ConfigParser(root, {format});
+
+		expect(jsoncParser.parseFile(file)).toEqual({name: "web", port: 80});
+		await expect(jsoncParser.parseFileAsync(file)).resolves.toEqual(
+			{name: "web", port: 80}
+		);
+		expect(() => parser.parseFile(file)).toThrow(ConfigSyntaxError);
+	});
+
+	test("Reads files asynchronously", async () => {
+		const file: string = writeFile("async.yaml", "name: web\nport: 80\n");
+		await expect(parser.parseFileAsync(file)).resolves.toEqual({name: "web", port: 80});
+	});
+
+	test("Reads files with a byte order mark", () => {
+		const text: string = "\uFEFF{\"name\": \"web\", \"port\": 80}";
+		const file: string = writeFile("bom.json", text);
+		expect(parser.parseFile(file)).toEqual({name: "web", port: 80});
+	});
+
+	test("Has the file name in validation errors", () => {
+		const file: string = writeFile("invalid.yaml", "name: web\nport: 70000\n");
+		let error: ConfigParseFailureError;
+		try {
+			parser.parseFile(file);
+		}
+		catch (err) {
+			error = err as ConfigParseFailureError;
+		}
+
+		expect(error).toBeInstanceOf(ConfigParseFailureError);
+		expect(error.message).toBe(`Failed to parse configuration ${file}`);
+		expect(error.errors.map(e => e.message)).toEqual([
+			`${file}:2:7 $.port: Value 70000 is greater then maximum 65535`
+		]);
+	});
+
+	test("Has the file name in syntax errors", async () => {
+		const file: string = writeFile("syntax.toml", "name = \"web\"\nport = ");
+		expect(() => parser.parseFile(file)).toThrow(
+			new ConfigSyntaxError("Unexpected end of input, expected a value", {
+				line: 2, column: 8
+			}, file)
+		);
+		await expect(parser.parseFileAsync(file)).rejects.toBeInstanceOf(ConfigSyntaxError);
+	});
+
+	test("Rejects files that are not valid UTF-8", async () => {
+		const file: string = writeFile("latin1.json", Buffer.from([0x7b, 0xe9, 0x7d]));
+		expect(() => parser.parseFile(file)).toThrow(`${file}: Invalid UTF-8 text`);
+		await expect(parser.parseFileAsync(file)).rejects.toBeInstanceOf(ConfigFileError);
+	});
+
+	test("Resolves $include and $extends before validation", async () => {
+		writeFile("base.yaml", "name: base\nport: 80\n");
+		writeFile("port.toml", "port = 70000\n");
+		const file: string = writeFile("app.json", JSON.stringify({
+			$extends: "./base.yaml",
+			$include: "port.toml",
+			name: "app"
+		}));
+
+		let error: ConfigParseFailureError;
+		try {
+			parser.parseFile(file);
+		}
+		catch (err) {
+			error = err as ConfigParseFailureError;
+		}
+		expect(error.errors.map(e => e.message)).toEqual([
+			`${path.join(dir, "port.toml")}:1:8 $.port: ` +
+				"Value 70000 is greater then maximum 65535"
+		]);
+
+		writeFile("port.toml", "port = 8080\n");
+		await expect(parser.parseFileAsync(file)).resolves.toEqual(
+			{name: "app", port: 8080}
+		);
+	});
+
+	test("Rejects missing files", async () => {
+		const file: string = path.join(dir, "missing.json");
+		expect(() => parser.parseFile(file)).toThrow(ConfigFileError);
+		await expect(parser.parseFileAsync(file)).rejects.toThrow(
+			`${file}: Cannot read file`
+		);
+	});
+
+	test("Collects the paths of the files that are read", async () => {
+		const file: string =
+			writeFile("collect.json", "{\"$include\": \"collected.toml\"}");
+		const files: string[] = [];
+		expect(() => parser.readFile(file, files)).toThrow(ConfigIncludeError);
+		expect(files).toEqual([file, path.join(dir, "collected.toml")]);
+
+		writeFile("collected.toml", "port = 8080\n");
+		const asyncFiles: string[] = [];
+		await parser.readFileAsync(file, asyncFiles);
+		expect(asyncFiles).toEqual(files);
+	});
+
+});
+
+describe("Parsing config with environment variable overrides", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("name")
+			.withEnvironmentVariable("APP_NAME").build(),
+		new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("host").build(),
+			new ConfigElementBuilder().ofTypeNumber().withName("port")
+				.withMaxValue(65535).build()
+		).build()
+	).build();
+	const text: string = "{\"name\": \"app\", \"db\": {\"host\": \"h\", \"port\": 1}}";
+
+	test("Applies environment variables over the configuration", () => {
+		const parser = new ConfigParser(root, {
+			env: {APP_NAME: "other", APP_DB__PORT: "5432"},
+			envPrefix: "APP_"
+		});
+
+		expect(parser.parse(text, "app.json")).toEqual(
+			{name: "other", db: {host: "h", port: 5432}}
+		);
+	});
+
+	test("Only applies variables of elements without a prefix", () => {
+		const parser = new ConfigParser(root, {
+			env: {APP_NAME: "other", APP_DB__PORT: "2"}
+		});
+
+		expect(parser.parse(text)).toEqual({name: "other", db: {host: "h", port: 1}});
+	});
+
+	test("Names the variable that supplied an invalid value", () => {
+		const parser = new ConfigParser(root, {
+			env: {APP_DB__PORT: "70000", APP_DB: "{\"host\": 1}"},
+			envPrefix: "APP_"
+		});
+
+		const result: ParseResult = parser.safeParse(text, "app.json");
+		expect(result.success).toBe(false);
+		expect((result as ParseFailure).errors.map(e => e.message)).toEqual([
+			"environment variable APP_DB $.db.host: " +
+				"Invalid type number, expected type string",
+			"environment variable APP_DB__PORT $.db.port: " +
+				"Value 70000 is greater then maximum 65535",
+		]);
+		expect((result as ParseFailure).errors[1].source).toBe(
+			"environment variable APP_DB__PORT"
+		);
+		expect((result as ParseFailure).errors[1].position).toBeUndefined();
+	});
+});
+
+describe("Parsing config with command line overrides", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("name").build(),
+		new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+			new ConfigElementBuilder().ofTypeNumber().withName("port")
+				.withMaxValue(65535).build()
+		).build()
+	).build();
+	const text: string = "{\"name\": \"app\", \"db\": {\"port\": 1}}";
+
+	test("Applies arguments over the configuration and environment variables", () => {
+		const parser = new ConfigParser(root, {
+			env: {APP_NAME: "env", APP_DB__PORT: "2"},
+			envPrefix: "APP_",
+			argv: ["--db.port", "3"]
+		});
+
+		expect(parser.parse(text)).toEqual({name: "env", db: {port: 3}});
+	});
+
+	test("Names the option that supplied an invalid value", () => {
+		const parser = new ConfigParser(root, {argv: ["--db.port=70000"]});
+
+		expect(() => parser.parse(text, "app.json")).toThrow(ConfigParseFailureError);
+		expect(parser.getErrors().map(e => e.message)).toEqual([
+			"argument --db.port $.db.port: Value 70000 is greater then maximum 65535"
+		]);
+	});
+
+	test("Rejects unknown options", () => {
+		const parser = new ConfigParser(root, {argv: ["--db.host=h"]});
+
+		expect(() => parser.parse(text)).toThrow(ConfigArgumentError);
+	});
+
+	test.each<[string[], string]>([
+		[["--bogus"], "--bogus: Unknown option"],
+		[["--name"], "--name: Option needs a value"],
+		[["--name=a", "hunter2"], "argument 2: Unexpected argument"],
+		[["-h"], "--help: Help is only returned by parseArguments()"],
+	])("Reports invalid arguments %j in the result", (argv, message) => {
+		const parser = new ConfigParser(root, {argv});
+
+		const results = [parser.safeParse(text), parser.validate({}), parser.check({})];
+		for (const result of results) {
+			expect(result.success).toBe(false);
+			expect((result as ParseFailure).errors).toEqual([expect.objectContaining({
+				code: "ARGUMENT_ERROR",
+				message
+			})]);
+		}
+	});
+});
+
+describe("Parsing config with interpolation", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeObject().withName("paths").withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("base").build(),
+			new ConfigElementBuilder().ofTypeString().withName("logs").build()
+		).build(),
+		new ConfigElementBuilder().ofTypeString().withName("level")
+			.withValidStringValues("debug", "info").build(),
+		new ConfigElementBuilder().ofTypeString().withName("password").isOptional().build(),
+		new ConfigElementBuilder().ofTypeString().withName("literal").isOptional()
+			.withInterpolation(false).build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("port").isOptional().build(),
+		new ConfigElementBuilder().ofTypeArray().withName("hosts").isOptional()
+			.withStringArrayElements().build()
+	).build();
+	const env = {HOME: "/home/app", LEVEL: "info"};
+	let dir: string;
+
+	beforeAll(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-interpolation-"));
+		fs.writeFileSync(path.join(dir, "secret.txt"), "s3cret\n");
+	});
+
+	afterAll(() => {
+		fs.rmSync(dir, {recursive: true});
+	});
+
+	test("Replaces references before validation", () => {
+		const parser = new ConfigParser(root, {env, interpolate: true});
+
+		expect(parser.parse(JSON.stringify({
+			paths: {base: "${env:HOME}", logs: "${ref:paths.base}/logs"},
+			level: "${env:LEVEL}",
+			literal: "${env:HOME}",
+			port: 80,
+			hosts: ["${ref:hosts[1]}:${ref:port}", "localhost", "$${env:HOME}"]
+		}))).toEqual({
+			paths: {base: "/home/app", logs: "/home/app/logs"},
+			level: "info",
+			literal: "${env:HOME}",
+			port: 80,
+			hosts: ["localhost:80", "localhost", "${env:HOME}"]
+		});
+	});
+
+	test("Only replaces references of elements that interpolate", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("a").withInterpolation()
+				.build(),
+			new ConfigElementBuilder().ofTypeString().withName("b").build()
+		).build();
+
+		expect(new ConfigParser(element, {env}).parse(
+			"{\"a\": \"${env:HOME}\", \"b\": \"${env:HOME}\"}"
+		)).toEqual({a: "/home/app", b: "${env:HOME}"});
+	});
+
+	test("Reads referenced files relative to the configuration file", () => {
+		const file: string = path.join(dir, "app.json");
+		fs.writeFileSync(file, JSON.stringify({
+			paths: {base: "/", logs: "/logs"},
+			level: "info",
+			password: "${file:secret.txt}"
+		}));
+
+		expect(new ConfigParser(root, {env, interpolate: true}).parseFile(file).password)
+			.toBe("s3cret");
+	});
+
+	test("Validates the interpolated strings", () => {
+		const parser = new ConfigParser(root, {env: {LEVEL: "trace"}, interpolate: true});
+
+		expect(() => parser.parse(JSON.stringify({
+			paths: {base: "/", logs: "/"},
+			level: "${env:LEVEL}"
+		}))).toThrow(ConfigParseFailureError);
+		expect(parser.getErrors().map(e => e.message)).toEqual([
+			"1:42 $.level: Invalid value trace, valid values: debug,info"
+		]);
+	});
+
+	test("Reports unresolved references at the path of the string", () => {
+		const parser = new ConfigParser(root, {env: {}, interpolate: true});
+
+		const result: ParseResult = parser.safeParse(JSON.stringify({
+			paths: {base: "${env:MISSING}", logs: "${ref:paths.base}"},
+			level: "${ref:paths.other}",
+			password: "${file:missing.txt}${ref:paths}",
+			hosts: ["${other:x}"]
+		}, null, 1));
+
+		expect(result.success).toBe(false);
+		const errors = (result as ParseFailure).errors;
+		expect(errors.map(e => [e.code, e.path])).toEqual([
+			["UNRESOLVED_REFERENCE", "$.paths.base"],
+			["UNRESOLVED_REFERENCE", "$.level"],
+			["INVALID_VALUE", "$.level"],
+			["UNRESOLVED_REFERENCE", "$.password"],
+			["UNRESOLVED_REFERENCE", "$.password"],
+			["UNRESOLVED_REFERENCE", "$.hosts[0]"],
+		]);
+		expect(errors[0].message).toBe(
+			"3:11 $.paths.base: Cannot resolve ${env:MISSING}, " +
+				"environment variable is not set"
+		);
+		expect(errors[1].message).toMatch("${ref:paths.other}, value does not exist");
+		expect(errors[3].message).toMatch("${file:missing.txt}, Cannot read file");
+		expect(errors[4].message).toMatch(
+			"${ref:paths}, value is not a string, number or boolean"
+		);
+		expect(errors[5].message).toMatch("${other:x}, unknown kind other");
+		expect((errors[0].error as UnresolvedReferenceError).reference)
+			.toBe("${env:MISSING}");
+	});
+
+	test("Reports reference cycles once", () => {
+		const parser = new ConfigParser(root, {env, interpolate: true});
+
+		const result: ParseResult = parser.safeParse(JSON.stringify({
+			paths: {base: "${ref:paths.logs}", logs: "${ref:level}"},
+			level: "${ref:paths.base}"
+		}));
+
+		expect(result.success).toBe(false);
+		const errors = (result as ParseFailure).errors;
+		expect(errors).toHaveLength(2);
+		expect(errors[0].error).toBeInstanceOf(InterpolationCycleError);
+		expect(errors[0].message).toBe(
+			"1:18 $.paths.base: Reference cycle " +
+				"$.paths.base -> $.paths.logs -> $.level -> $.paths.base"
+		);
+		expect((errors[0].error as InterpolationCycleError).cycle).toHaveLength(4);
+		expect(errors[1].path).toBe("$.level");
+	});
+});
+
+describe("Parsing config with secret values", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("password").isSecret()
+			.withValidStringValues("a", "b").build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("pin").isSecret().isOptional()
+			.withMaxValue(9999).build(),
+		new ConfigElementBuilder().ofTypeObject().withName("keys").isSecret().isOptional()
+			.withChildElements(
+				new ConfigElementBuilder().ofTypeString().withName("api")
+					.withValidStringValues("x").build(),
+				new ConfigElementBuilder().ofTypeString().withName("ref")
+					.isOptional().withInterpolation().build()
+			).build(),
+		new ConfigElementBuilder().ofTypeString().withName("mode").isOptional()
+			.withValidStringValues("fast").build()
+	).build();
+
+	test("Masks secret values in error messages and error values", () => {
+		const parser = new ConfigParser(root, {env: {}});
+
+		const result: ParseResult = parser.safeParse(JSON.stringify({
+			password: "s3cret",
+			pin: 12345,
+			keys: {api: "k3y", ref: "${env:MISSING}"},
+			mode: "slow"
+		}));
+
+		expect(result.success).toBe(false);
+		const errors = (result as ParseFailure).errors;
+		expect(errors.map(e => e.message)).toEqual([
+			"1:13 $.password: Invalid value ******, valid values: a,b",
+			"1:28 $.pin: Value ****** is greater then maximum 9999",
+			"1:48 $.keys.api: Invalid value ******, valid values: x",
+			"1:60 $.keys.ref: Cannot resolve ${env:MISSING}, " +
+				"environment variable is not set",
+			"1:85 $.mode: Invalid value slow, valid values: fast",
+		]);
+		expect(errors.map(e => (e.error as ConfigValidationError).value)).toEqual(
+			["******", "******", "******", "******", "slow"]
+		);
+	});
+
+	test("Shows the length of secret strings", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("password").isSecret()
+				.withMaxLength(4).build()
+		).build();
+		const parser = new ConfigParser(element);
+
+		expect(() => parser.parse("{\"password\": \"s3cret\"}")).toThrow();
+		expect(parser.getErrors().map(e => e.message)).toEqual([
+			"1:14 $.password: Value 6 is greater then maximum 4"
+		]);
+	});
+
+	test.each<[ConfigFormat, string]>([
+		["toml", "password = hunter2\n"],
+		["toml", "password = 9007199254740993\n"],
+		["yaml", "password: !!int hunter2\n"],
+	])("Does not repeat secret values in %s syntax errors", (format, text) => {
+		const result = new ConfigParser(root, {format}).safeParse(text) as ParseFailure;
+
+		expect(result.errors.map(e => e.code)).toEqual(["SYNTAX_ERROR"]);
+		expect(result.errors[0].message).not.toMatch(/hunter2|9007199254740993/);
+	});
+
+	test("Refuses references to secret values from strings that are not secret", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("password").isSecret()
+				.build(),
+			new ConfigElementBuilder().ofTypeString().withName("mode")
+				.withValidStringValues("a", "b").build(),
+			new ConfigElementBuilder().ofTypeString().withName("url").isSecret()
+				.isOptional().build()
+		).build();
+		const parser = new ConfigParser(element, {interpolate: true});
+
+		const result: ParseResult = parser.safeParse(JSON.stringify({
+			password: "hunter2", mode: "${ref:password}", url: "db://${ref:password}"
+		}));
+
+		expect(result.success).toBe(false);
+		expect((result as ParseFailure).errors.map(e => e.message)).toEqual([
+			"1:30 $.mode: Cannot resolve ${ref:password}, " +
+				"value is secret, and the string is not",
+			"1:30 $.mode: Invalid value ${ref:password}, valid values: a,b",
+		]);
+		expect(parser.safeParse(JSON.stringify({
+			password: "hunter2", mode: "a", url: "db://${ref:password}"
+		}))).toEqual(expect.objectContaining({
+			success: true,
+			value: {password: "hunter2", mode: "a", url: "db://hunter2"}
+		}));
+	});
+
+	test("Masks secret values in the values of errors of their ancestors", () => {
+		const element = new ConfigElementBuilder().ofTypeObject().withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("password").isSecret()
+				.build()
+		).withValidators({validate: () => false}).build();
+		const parser = new ConfigParser(element);
+
+		expect(() => parser.parse("{\"password\": \"s3cret\"}")).toThrow();
+		expect(parser.getErrors()[0].value).toEqual({password: "******"});
+	});
+});
+
+describe("Parsing config with type coercion", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("name").build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("port").build(),
+		new ConfigElementBuilder().ofTypeBoolean().withName("debug").build(),
+		new ConfigElementBuilder().ofTypeArray().withName("tags").withStringArrayElements()
+			.build(),
+		new ConfigElementBuilder().ofTypeArray().withName("ids").withNumberArrayElements()
+			.build(),
+		new ConfigElementBuilder().ofTypeNumber().withName("pin").isSecret().isOptional()
+			.build()
+	).build();
+	const text: string = JSON.stringify({
+		name: "42",
+		port: "5432",
+		debug: "1",
+		tags: "a, b",
+		ids: ["1", "2"],
+		pin: "1234"
+	}, null, 1);
+
+	test("Coerces strings to the type of their element", () => {
+		const parser = new ConfigParser(root, {coerceTypes: true});
+
+		expect(parser.parse(text)).toEqual({
+			name: "42",
+			port: 5432,
+			debug: true,
+			tags: ["a", "b"],
+			ids: [1, 2],
+			pin: 1234
+		});
+	});
+
+	test("Records every coercion in the result", () => {
+		const parser = new ConfigParser(root, {coerceTypes: true});
+
+		const result = parser.safeParse(text, "query") as ParseSuccess;
+		expect(result.success).toBe(true);
+		expect(result.coercions).toEqual([
+			{
+				path: "$.port",
+				original: "5432",
+				value: 5432,
+				position: {line: 3, column: 10},
+				source: "query"
+			},
+			expect.objectContaining({path: "$.debug", original: "1", value: true}),
+			expect.objectContaining({
+				path: "$.tags", original: "a, b", value: ["a", "b"]
+			}),
+			expect.objectContaining({path: "$.ids[0]", original: "1", value: 1}),
+			expect.objectContaining({path: "$.ids[1]", original: "2", value: 2}),
+			expect.objectContaining({
+				path: "$.pin", original: "******", value: "******"
+			}),
+		]);
+	});
+
+	test("Reports strings that cannot be coerced", () => {
+		const parser = new ConfigParser(root, {coerceTypes: true});
+
+		const result = parser.validate({
+			name: "a", port: "x", debug: "yes", tags: [], ids: "1,x"
+		}) as ParseFailure;
+		expect(result.success).toBe(false);
+		expect(result.errors.map(e => e.message)).toEqual([
+			"$.port: Invalid type string, expected type number",
+			"$.debug: Invalid type string, expected type boolean",
+			"$.ids[1]: Invalid array element type string",
+		]);
+		expect(result.coercions.map(c => c.path)).toEqual(["$.ids"]);
+	});
+
+	test("Does not coerce without the option", () => {
+		const result = new ConfigParser(root).safeParse(text);
+
+		expect(result.success).toBe(false);
+		expect(result.coercions).toEqual([]);
+	});
+});
+
+describe("Parsing config in strict mode", () => {
+	const pool = new ConfigElementBuilder().ofTypeObject().withName("pool").isOptional()
+		.withStrict().withChildElements(
+			new ConfigElementBuilder().ofTypeNumber().withName("size").build()
+		).build();
+	const db = new ConfigElementBuilder().ofTypeObject().withName("db").isOptional()
+		.withStrict(false).withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("host").isOptional()
+				.build(),
+			pool
+		).build();
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeNumber().withName("timeout").isOptional().build(),
+		db
+	).build();
+	const text: string = JSON.stringify({
+		tiemout: 1,
+		$comment: "",
+		db: {hots: "h", pool: {size: 1, szie: 2}}
+	}, null, 1);
+
+	test("Reports unknown fields as errors with a suggestion", () => {
+		const parser = new ConfigParser(root, {strict: true});
+
+		const result = parser.safeParse(text) as ParseFailure;
+		expect(result.success).toBe(false);
+		expect(result.errors.map(e => e.message)).toEqual([
+			"2:2 $.tiemout: Unknown field tiemout, did you mean timeout?",
+			"8:4 $.db.pool.szie: Unknown field szie, did you mean size?",
+		]);
+		expect((result.errors[0].error as UnknownFieldError).suggestion).toBe("timeout");
+		expect(result.warnings.map(e => e.message)).toEqual([
+			"5:3 $.db.hots: Unknown field hots, did you mean host?",
+		]);
+	});
+
+	test("Only rejects unknown fields of strict objects without the option", () => {
+		const result = new ConfigParser(root).safeParse(text) as ParseFailure;
+
+		expect(result.success).toBe(false);
+		expect(result.errors.map(e => e.path)).toEqual(["$.db.pool.szie"]);
+		expect(result.warnings.map(e => e.path)).toEqual(["$.tiemout", "$.db.hots"]);
+	});
+
+	test("Does not suggest fields that are not close", () => {
+		const parser = new ConfigParser(root, {strict: true});
+
+		expect(() => parser.parse("{\"other\": 1}")).toThrow(ConfigParseFailureError);
+		expect(parser.getErrors().map(e => e.message)).toEqual([
+			"1:2 $.other: Unknown field other"
+		]);
+	});
+});
+
+describe("Parsing config without changing the input", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+		new ConfigElementBuilder().ofTypeNumber().withName("port").isOptional()
+			.withDefaultValue(80).build(),
+		new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+			new ConfigElementBuilder().ofTypeArray().withName("hosts")
+				.withStringArrayElements().build()
+		).build()
+	).build();
+
+	function getInput() {
+		return {$schema: "x", other: 1, db: {hosts: ["a"]}};
+	}
+
+	test("Changes the input by default", () => {
+		const input = getInput();
+		const parser = new ConfigParser(root, {pruneUnknownElements: true});
+
+		const result = parser.validate(input) as ParseSuccess;
+		expect(result.value).toBe(input);
+		expect(input).toEqual({port: 80, db: {hosts: ["a"]}});
+	});
+
+	test("Returns a fresh object with the copyInput option", () => {
+		const input = getInput();
+		const parser = new ConfigParser(root, {
+			pruneUnknownElements: true,
+			copyInput: true
+		});
+
+		const result = parser.validate(input) as ParseSuccess;
+		expect(result.value).toEqual({port: 80, db: {hosts: ["a"]}});
+		expect(input).toEqual(getInput());
+		expect((result.value as {db: object}).db).not.toBe(input.db);
+	});
+
+	test("Does not change a document with the copyInput option", () => {
+		const input = getInput();
+		const parser = new ConfigParser(root, {copyInput: true});
+
+		const value = parser.parseDocument({
+			value: input,
+			positions: new Map(),
+			keyPositions: new Map()
+		});
+		expect(value).toEqual({other: 1, port: 80, db: {hosts: ["a"]}});
+		expect(input).toEqual(getInput());
+	});
+
+	test("Deep freezes the result with the freeze option", () => {
+		const parser = new ConfigParser(root, {freeze: true});
+
+		const value = parser.parse("{\"db\": {\"hosts\": [\"a\"]}}") as {
+			port: number, db: {hosts: string[]}
+		};
+		expect(Object.isFrozen(value)).toBe(true);
+		expect(Object.isFrozen(value.db)).toBe(true);
+		expect(Object.isFrozen(value.db.hosts)).toBe(true);
+		expect(() => value.db.hosts.push("b")).toThrow(TypeError);
+	});
+
+	test("Does not freeze the input when it is copied", () => {
+		const input = getInput();
+		const parser = new ConfigParser(root, {freeze: true, copyInput: true});
+
+		const result = parser.validate(input) as ParseSuccess;
+		expect(Object.isFrozen(result.value)).toBe(true);
+		expect(Object.isFrozen(input)).toBe(false);
+	});
+
+	test("Copies a frozen input that needs a default value", () => {
+		const input = getInput();
+		Object.freeze(input.db);
+		const parser = new ConfigParser(root);
+
+		const result = parser.validate(Object.freeze(input)) as ParseSuccess;
+		expect(result.success).toBe(true);
+		expect(result.value).toEqual({other: 1, port: 80, db: {hosts: ["a"]}});
+		expect(input).toEqual(getInput());
+	});
+
+	test("Checks a value without changing it", () => {
+		const input = Object.freeze(getInput());
+		const parser = new ConfigParser(root, {pruneUnknownElements: true, freeze: true});
+
+		expect(parser.check(input)).toEqual({
+			success: true,
+			errors: [],
+			warnings: [expect.objectContaining({path: "$.other"})]
+		});
+		expect(input).toEqual(getInput());
+		expect(Object.isFrozen(input.db)).toBe(false);
+	});
+
+	test("Reports the errors of a checked value", () => {
+		const input = {db: {hosts: [1]}};
+
+		const result = new ConfigParser(root).check(input);
+		expect(result.success).toBe(false);
+		expect(result.errors.map(e => e.message)).toEqual([
+			"$.db.hosts[0]: Invalid array element type number"
+		]);
+		expect(input).toEqual({db: {hosts: [1]}});
+	});
+});
+
+describe("Parsing config with a version", () => {
+	const root = new ConfigElementBuilder().ofTypeObject().withVersion("version", 2)
+		.withMigration(1, ({timeout, ...config}) => ({...config, timeoutMs: timeout}))
+		.withChildElements(
+			new ConfigElementBuilder().ofTypeNumber().withName("timeoutMs")
+				.withMaxValue(100).build(),
+			new ConfigElementBuilder().ofTypeBoolean().withName("debug").isOptional()
+				.withDefaultValue(false).build()
+		).build();
+
+	test("Migrates the configuration before it is validated", () => {
+		const parser = new ConfigParser(root, {strict: true});
+
+		expect(parser.parse("{\"timeout\": 10}")).toEqual({
+			version: 2, timeoutMs: 10, debug: false
+		});
+	});
+
+	test("Returns the migrated configuration in the result", () => {
+		const result = new ConfigParser(root).validate({version: 1, timeout: 10});
+
+		expect(result.success).toBe(true);
+		expect(result.migration).toEqual({
+			fromVersion: 1,
+			toVersion: 2,
+			value: {version: 2, timeoutMs: 10}
+		});
+	});
+
+	test("Returns the migrated configuration of an invalid configuration", () => {
+		const result = new ConfigParser(root).validate({timeout: 1000}) as ParseFailure;
+
+		expect(result.errors.map(e => e.path)).toEqual(["$.timeoutMs"]);
+		expect(result.migration.value).toEqual({version: 2, timeoutMs: 1000});
+	});
+
+	test("Returns the migrated configuration of a document", () => {
+		const document = new JsonReader().read("{\"timeout\": 1000}", "app.json");
+		const result = new ConfigParser(root).safeParseDocument(document) as ParseFailure;
+
+		expect(result.errors.map(e => e.message)).toEqual([
+			"app.json $.timeoutMs: Value 1000 is greater then maximum 100"
+		]);
+		expect(result.migration.value).toEqual({version: 2, timeoutMs: 1000});
+	});
+
+	test("Leaves out the positions of renamed keys in errors", () => {
+		const text: string = "{\n  \"debug\": 1,\n  \"timeout\": 1000\n}";
+		const result = new ConfigParser(root).safeParse(text, "app.json") as ParseFailure;
+
+		expect(result.errors.map(e => e.message)).toEqual([
+			"app.json:2:12 $.debug: Invalid type number, expected type boolean",
+			"app.json $.timeoutMs: Value 1000 is greater then maximum 100"
+		]);
+		expect(result.errors[1].position).toBeUndefined();
+	});
+
+	test("Does not migrate the current version", () => {
+		const result = new ConfigParser(root).validate({version: 2, timeoutMs: 10});
+
+		expect(result.success).toBe(true);
+		expect(result.warnings).toEqual([]);
+		expect(result.migration).toBeUndefined();
+	});
+
+	test("Applies overrides after the migration", () => {
+		const parser = new ConfigParser(root, {argv: ["--timeoutMs=20"]});
+
+		expect(parser.parse("{\"timeout\": 10}")).toEqual({
+			version: 2, timeoutMs: 20, debug: false
+		});
+	});
+
+	test("Throws for a newer version", () => {
+		const parser = new ConfigParser(root);
+		const text: string = "{\"version\": 3, \"timeoutMs\": 10}";
+
+		expect(() => parser.parse(text, "app.json")).toThrow(ConfigVersionError);
+		expect(() => parser.parse(text, "app.json")).toThrow(
+			"app.json:1:13 $.version: Version 3 is newer than the supported version 2"
+		);
+	});
+
+	test("Reports a newer version in the result", () => {
+		const result = new ConfigParser(root).validate({version: 3}) as ParseFailure;
+
+		expect(result.success).toBe(false);
+		expect(result.errors).toEqual([expect.objectContaining({
+			code: "UNSUPPORTED_VERSION",
+			path: "$.version"
+		})]);
+	});
+});
@@ -0,0 +1,34 @@
+import { ROOT_PATH, childPath, indexPath, parentPath } from "../src/path";
+
+describe("Building configuration paths", () => {
+	test("Identifier keys are appended with a dot", () => {
+		expect(childPath(ROOT_PATH, "books")).toBe("$.books");
+		expect(childPath("$.books", "$comment")).toBe("$.books.$comment");
+	});
+
+	test("Other keys are appended in bracket notation", () => {
+		expect(childPath(ROOT_PATH, "some key")).toBe("$[\"some key\"]");
+		expect(childPath(ROOT_PATH, "a.b")).toBe("$[\"a.b\"]");
+		expect(childPath(ROOT_PATH, "1st")).toBe("$[\"1st\"]");
+	});
+
+	test("Array indices are appended in brackets", () => {
+		expect(indexPath(childPath(ROOT_PATH, "books"), 3)).toBe("$.books[3]");
+	});
+});
+
+describe("Getting the parent of a path", () => {
+	test.each<[string, string]>([
+		["$.books", "$"],
+		["$.books[3]", "$.books"],
+		["$.books[3].year", "$.books[3]"],
+		["$[\"a.b\"]", "$"],
+		["$.x[\"a[\\\"]\"]", "$.x"],
+	])("The parent of %s is %s", (path, parent) => {
+		expect(parentPath(path)).toBe(parent);
+	});
+
+	test("The root has no parent", () => {
+		expect(parentPath(ROOT_PATH)).toBeUndefined();
+	});
+});
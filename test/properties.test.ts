@@ -0,0 +1,98 @@
+import { PropertiesReader } from "../src/properties";
+import { ConfigSyntaxError, SourceDocument } from "../src/reader";
+
+const reader: PropertiesReader = new PropertiesReader();
+
+function read(lines: string[]): unknown {
+	return reader.read(lines.join("\n")).value;
+}
+
+function getSyntaxError(text: string): ConfigSyntaxError {
+	try {
+		reader.read(text, "test.properties");
+	}
+	catch (err) {
+		return err as ConfigSyntaxError;
+	}
+	throw new Error("Expected a syntax error");
+}
+
+describe("Reading properties", () => {
+	test("Reads dotted keys as nested objects of strings", () => {
+		expect(read([
+			"# Server settings",
+			"! Another comment",
+			"server.host=localhost",
+			"server.port = 8080",
+			"  name:web",
+			"greeting Hello World",
+		])).toEqual({
+			server: {host: "localhost", port: "8080"},
+			name: "web",
+			greeting: "Hello World"
+		});
+	});
+
+	test("Continues lines that end with a backslash", () => {
+		expect(read(["fruits = apple, \\", "         banana,\\", "  pear"])).toEqual(
+			{fruits: "apple, banana,pear"}
+		);
+	});
+
+	test("Reads escapes in keys and values", () => {
+		expect(read(["key\\ with\\=sep = tab\\there\\u00e9\\\\ \\#"])).toEqual(
+			{"key with=sep": "tab\thereé\\ #"}
+		);
+	});
+
+	test("Keeps trailing whitespace and reads empty values", () => {
+		expect(read(["a = x  ", "b =", "c"])).toEqual({a: "x  ", b: "", c: ""});
+	});
+
+	test("Reads Windows line endings", () => {
+		expect(reader.read("a.b = 1\r\nc = 2 \\\r\n  3\r\n").value).toEqual(
+			{a: {b: "1"}, c: "2 3"}
+		);
+	});
+
+	test("Marks the document as only having string values", () => {
+		expect(reader.read("a = 1").stringValues).toBe(true);
+	});
+});
+
+describe("Positions of keys and values", () => {
+	let document: SourceDocument;
+
+	beforeAll(() => {
+		const text: string = "# Comment\n  db.port =  5432\nlong = a\\\n  b";
+		document = reader.read(text, "db.properties");
+	});
+
+	test("Records the position of every value", () => {
+		expect(document.source).toBe("db.properties");
+		expect(document.positions.get("$.db")).toEqual({line: 2, column: 3});
+		expect(document.positions.get("$.db.port")).toEqual({line: 2, column: 14});
+		expect(document.positions.get("$.long")).toEqual({line: 3, column: 8});
+	});
+
+	test("Records the position of every key", () => {
+		expect(document.keyPositions.get("$.db.port")).toEqual({line: 2, column: 3});
+		expect(document.keyPositions.get("$.long")).toEqual({line: 3, column: 1});
+	});
+});
+
+describe("Reading invalid properties", () => {
+	test.each<[string, string, number, number]>([
+		["a = 1\na = 2", "Key a is already defined", 2, 1],
+		["a = 1\na.b = 2", "Key a is already defined", 2, 1],
+		["a..b = 1", "Invalid key 'a..b'", 1, 1],
+		["= 1", "Invalid key ''", 1, 1],
+		["a = \\u12", "Invalid unicode escape sequence", 1, 5],
+	])("Text %j gives error '%s' at %i:%i", (text, detail, line, column) => {
+		const error: ConfigSyntaxError = getSyntaxError(text);
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(detail);
+		expect(error.position).toEqual({line, column});
+		expect(error.message).toBe(`test.properties:${line}:${column} ${detail}`);
+	});
+});
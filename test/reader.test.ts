@@ -0,0 +1,34 @@
+import { ConfigSyntaxError, LineIndex, formatPosition } from "../src/reader";
+
+describe("Translating offsets to positions", () => {
+	const lineIndex: LineIndex = new LineIndex("ab\ncd\r\nef\rgh");
+
+	test.each<[number, number, number]>([
+		[0, 1, 1],
+		[1, 1, 2],
+		[3, 2, 1],
+		[4, 2, 2],
+		[7, 3, 1],
+		[10, 4, 1],
+		[11, 4, 2],
+	])("Offset %i is on line %i, column %i", (offset, line, column) => {
+		expect(lineIndex.getPosition(offset)).toEqual({line, column});
+	});
+});
+
+describe("Formatting positions", () => {
+	test("With a source", () => {
+		expect(formatPosition({line: 42, column: 17}, "config.json"))
+			.toBe("config.json:42:17");
+	});
+
+	test("Without a source", () => {
+		expect(formatPosition({line: 42, column: 17})).toBe("42:17");
+	});
+
+	test("Syntax errors have the position in the message", () => {
+		const error = new ConfigSyntaxError("Oops", {line: 1, column: 2}, "a.json");
+		expect(error.message).toBe("a.json:1:2 Oops");
+		expect(error.detail).toBe("Oops");
+	});
+});
@@ -0,0 +1,62 @@
+import { ConfigElementBuilder } from "../src/elements";
+import { SECRET_MASK, formatConfig, redactSecrets } from "../src/secret";
+
+const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").build(),
+	new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+		new ConfigElementBuilder().ofTypeString().withName("user").build(),
+		new ConfigElementBuilder().ofTypeString().withName("password").isSecret()
+			.canBeNull().isOptional().build()
+	).build(),
+	new ConfigElementBuilder().ofTypeObject().withName("keys").isSecret().isOptional()
+		.withChildElements(
+			new ConfigElementBuilder().ofTypeString().withName("api").build()
+		).build(),
+	new ConfigElementBuilder().ofTypeArray().withName("tokens").isOptional()
+		.withStringArrayElements(
+			new ConfigElementBuilder().ofTypeString().isSecret().build()
+		).build()
+).build();
+
+describe("Redacting secrets", () => {
+	test("Masks the values of sensitive elements and all values below them", () => {
+		const config = {
+			name: "app",
+			db: {user: "admin", password: "s3cret"},
+			keys: {api: "k"},
+			tokens: ["a", "b"],
+			extra: {password: "other"}
+		};
+
+		expect(redactSecrets(config, root)).toEqual({
+			name: "app",
+			db: {user: "admin", password: SECRET_MASK},
+			keys: SECRET_MASK,
+			tokens: [SECRET_MASK, SECRET_MASK],
+			extra: {password: "other"}
+		});
+		expect(config.db.password).toBe("s3cret");
+	});
+
+	test("Masks null, but not absent values", () => {
+		expect(redactSecrets({db: {password: null}}, root)).toEqual({
+			db: {password: SECRET_MASK}
+		});
+		expect(redactSecrets({db: {user: "admin"}}, root)).toEqual({db: {user: "admin"}});
+	});
+
+	test("Copies values without an element", () => {
+		const value = {a: [1, {b: 2}]};
+		const copy = redactSecrets(value, undefined);
+
+		expect(copy).toEqual(value);
+		expect(copy).not.toBe(value);
+	});
+
+	test("Formats the configuration as JSON with the secrets masked", () => {
+		expect(formatConfig({db: {user: "admin", password: "s3cret"}}, root)).toBe(
+			`{"db":{"user":"admin","password":"${SECRET_MASK}"}}`
+		);
+		expect(formatConfig({name: "app"}, root, 2)).toBe("{\n  \"name\": \"app\"\n}");
+	});
+});
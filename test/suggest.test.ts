@@ -0,0 +1,37 @@
+import { editDistance, findSuggestion } from "../src/suggest";
+
+describe("Edit distance", () => {
+	test.each<[string, string, number]>([
+		["timeout", "timeout", 0],
+		["tiemout", "timeout", 1],
+		["timout", "timeout", 1],
+		["timeoutt", "timeout", 1],
+		["timeuot", "timeout", 1],
+		["port", "host", 2],
+		["", "abc", 3],
+	])("Between %s and %s is %d", (a, b, distance) => {
+		expect(editDistance(a, b)).toBe(distance);
+		expect(editDistance(b, a)).toBe(distance);
+	});
+});
+
+describe("Finding suggestions", () => {
+	const candidates: string[] = ["timeout", "host", "port", "retries"];
+
+	test.each<[string, string]>([
+		["tiemout", "timeout"],
+		["Timeout", "timeout"],
+		["prot", "port"],
+		["retires", "retries"],
+		["hots", "host"],
+		["x", undefined],
+		["unrelated", undefined],
+	])("Suggests for %s", (name, suggestion) => {
+		expect(findSuggestion(name, candidates)).toBe(suggestion);
+	});
+
+	test("Suggests the closest candidate", () => {
+		expect(findSuggestion("cache", ["caches", "cache_"])).toBe("caches");
+		expect(findSuggestion("hosts", ["host", "hosts2", "hots"])).toBe("host");
+	});
+});
@@ -0,0 +1,266 @@
+import { ConfigSyntaxError, MAX_NESTING_DEPTH, SourceDocument } from "../src/reader";
+import { TomlReader } from "../src/toml";
+
+const reader: TomlReader = new TomlReader();
+
+function read(lines: string[]): unknown {
+	return reader.read(lines.join("\n")).value;
+}
+
+function getSyntaxError(text: string): ConfigSyntaxError {
+	try {
+		reader.read(text, "test.toml");
+	}
+	catch (err) {
+		return err as ConfigSyntaxError;
+	}
+	throw new Error("Expected a syntax error");
+}
+
+describe("Reading tables", () => {
+	test("Reads a document with tables and comments", () => {
+		expect(read([
+			"# Server configuration",
+			"title = \"Example\"",
+			"",
+			"[server]",
+			"host = \"localhost\"  # The host",
+			"port = 8080",
+			"",
+			"[server.tls]",
+			"enabled = true",
+			"",
+			"[database]",
+			"ports = [ 8000, 8001, 8002 ]",
+		])).toEqual({
+			title: "Example",
+			server: {host: "localhost", port: 8080, tls: {enabled: true}},
+			database: {ports: [8000, 8001, 8002]}
+		});
+	});
+
+	test("Reads dotted and quoted keys", () => {
+		expect(read([
+			"a.b = 1",
+			"a . c = 2",
+			"\"quoted key\" = 3",
+			"'literal'.\"x.y\" = 4",
+			"3.14 = \"pi\"",
+		])).toEqual({
+			a: {b: 1, c: 2},
+			"quoted key": 3,
+			literal: {"x.y": 4},
+			3: {14: "pi"}
+		});
+	});
+
+	test("Defines a super-table after its sub-table", () => {
+		expect(read(["[a.b]", "c = 1", "[a]", "d = 2"])).toEqual({a: {b: {c: 1}, d: 2}});
+	});
+
+	test("Defines a sub-table of a table defined by dotted keys", () => {
+		expect(read(["[a]", "b.c = 1", "[a.b.d]", "e = 2"])).toEqual(
+			{a: {b: {c: 1, d: {e: 2}}}}
+		);
+	});
+
+	test("Reads arrays of tables", () => {
+		expect(read([
+			"[[products]]",
+			"name = \"Hammer\"",
+			"",
+			"[[products]]",
+			"",
+			"[[products]]",
+			"name = \"Nail\"",
+			"[products.size]",
+			"length = 2",
+			"[[products.colors]]",
+			"name = \"grey\"",
+		])).toEqual({
+			products: [
+				{name: "Hammer"},
+				{},
+				{name: "Nail", size: {length: 2}, colors: [{name: "grey"}]}
+			]
+		});
+	});
+
+	test("Reads inline tables", () => {
+		expect(read(["point = { x = 1, y.z = 2 }", "empty = {}"])).toEqual(
+			{point: {x: 1, y: {z: 2}}, empty: {}}
+		);
+	});
+
+	test("Reads Windows line endings", () => {
+		expect(reader.read("[a]\r\nb = \"\"\"\r\nx\r\ny\"\"\"\r\n").value).toEqual(
+			{a: {b: "x\ny"}}
+		);
+	});
+
+	test("Reads an empty document", () => {
+		expect(reader.read("").value).toEqual({});
+	});
+
+	test("A __proto__ key does not change the prototype", () => {
+		const value = read(["[__proto__]", "x = 1"]) as object;
+		expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+		expect(Object.keys(value)).toEqual(["__proto__"]);
+	});
+});
+
+describe("Reading values", () => {
+	test.each<[string, unknown]>([
+		["true", true],
+		["false", false],
+		["42", 42],
+		["+17", 17],
+		["-1_000", -1000],
+		["0xDEAD_beef", 0xdeadbeef],
+		["0o755", 0o755],
+		["0b1101", 13],
+		["3.1415", 3.1415],
+		["-0.01", -0.01],
+		["5e+22", 5e22],
+		["6.626e-34", 6.626e-34],
+		["inf", Infinity],
+		["-inf", -Infinity],
+		["nan", NaN],
+		["1979-05-27T07:32:00Z", "1979-05-27T07:32:00Z"],
+		["1979-05-27 07:32:00.999-07:00", "1979-05-27T07:32:00.999-07:00"],
+		["1979-05-27t07:32:00z", "1979-05-27T07:32:00Z"],
+		["1979-05-27T07:32:00", "1979-05-27T07:32:00"],
+		["1979-05-27", "1979-05-27"],
+		["07:32:00", "07:32:00"],
+		["2024-02-29", "2024-02-29"],
+		["[]", []],
+		["[1, [\"a\", {b = 2}], ]", [1, ["a", {b: 2}]]],
+	])("Value %s gives %p", (text, value) => {
+		expect(read([`x = ${text}`])).toEqual({x: value});
+	});
+
+	test("Reads basic strings with escapes", () => {
+		expect(read(["a = \"tab\\tquote\\\" \\u00e9\\U0001F600\""])).toEqual(
+			{a: "tab\tquote\" \u00e9\u{1F600}"}
+		);
+	});
+
+	test("Reads literal strings without escapes", () => {
+		expect(read(["a = 'C:\\Users\\x'"])).toEqual({a: "C:\\Users\\x"});
+	});
+
+	test("Reads multi-line basic strings", () => {
+		expect(read([
+			"a = \"\"\"",
+			"Roses are red",
+			"Violets are \\",
+			"   blue\"\"\"",
+			"b = \"\"\"Here are two quotes: \"\".\"\"\"\"\"",
+		])).toEqual({
+			a: "Roses are red\nViolets are blue",
+			b: "Here are two quotes: \"\".\"\""
+		});
+	});
+
+	test("Reads multi-line literal strings", () => {
+		expect(read(["a = '''", "first line", "  \\no escape", "'''"])).toEqual(
+			{a: "first line\n  \\no escape\n"}
+		);
+	});
+
+	test("Reads arrays over multiple lines with comments", () => {
+		expect(read(["a = [", "  1,  # One", "  # Nothing", "  2,", "]"])).toEqual(
+			{a: [1, 2]}
+		);
+	});
+});
+
+describe("Positions of keys and values", () => {
+	const text: string = [
+		"name = \"x\"",
+		"[[books]]",
+		"year = 2023",
+		"[[books]]",
+		"tags = [\"a\", { b = 1 }]",
+		"[db.primary]",
+	].join("\n");
+	const tagPath: string = "$.books[1].tags[1].b";
+	let document: SourceDocument;
+
+	beforeAll(() => {
+		document = reader.read(text, "books.toml");
+	});
+
+	test("Records the source", () => {
+		expect(document.source).toBe("books.toml");
+	});
+
+	test("Records the position of every value", () => {
+		expect(document.positions.get("$")).toEqual({line: 1, column: 1});
+		expect(document.positions.get("$.name")).toEqual({line: 1, column: 8});
+		expect(document.positions.get("$.books")).toEqual({line: 2, column: 1});
+		expect(document.positions.get("$.books[0]")).toEqual({line: 2, column: 1});
+		expect(document.positions.get("$.books[0].year")).toEqual({line: 3, column: 8});
+		expect(document.positions.get("$.books[1]")).toEqual({line: 4, column: 1});
+		expect(document.positions.get(tagPath)).toEqual({line: 5, column: 20});
+		expect(document.positions.get("$.db.primary")).toEqual({line: 6, column: 1});
+	});
+
+	test("Records the position of every key", () => {
+		expect(document.keyPositions.get("$.name")).toEqual({line: 1, column: 1});
+		expect(document.keyPositions.get("$.books[1].tags")).toEqual({line: 5, column: 1});
+		expect(document.keyPositions.get(tagPath)).toEqual({line: 5, column: 16});
+		expect(document.keyPositions.get("$.db.primary")).toEqual({line: 6, column: 5});
+	});
+});
+
+describe("Reading invalid TOML", () => {
+	test.each<[string, string, number, number]>([
+		["a = 1\na = 2", "Key a is already defined", 2, 1],
+		["a.b = 1\na = 2", "Key a is already defined", 2, 1],
+		["a = 1\na.b = 2", "Key a is already defined", 2, 1],
+		["[a]\nb = 1\n[a]", "Table a is already defined", 3, 2],
+		["[a]\nb.c = 1\n[a.b]", "Table a.b is already defined", 3, 4],
+		["[a.b]\n[a]\nb = 1", "Key b is already defined", 3, 1],
+		["a = {b = 1}\n[a.c]", "Key a is already defined", 2, 2],
+		["a = [1]\n[[a]]", "Key a is already defined", 2, 3],
+		["[[a]]\n[a]", "Table a is already defined", 2, 2],
+		["x = {a = 1}\nx.b = 2", "Key x is already defined", 2, 1],
+		["a = 1 b = 2", "Unexpected character 'b', expected a new line", 1, 7],
+		["a = ", "Unexpected end of input, expected a value", 1, 5],
+		["= 1", "Unexpected character '=', expected a key", 1, 1],
+		["a 1", "Unexpected character '1', expected '='", 1, 3],
+		["[a", "Unexpected end of input, expected ']'", 1, 3],
+		["a = \"abc\nb = 1", "Unterminated string", 1, 5],
+		["a = '''abc", "Unterminated string", 1, 5],
+		["a = \"\\q\"", "Invalid escape sequence", 1, 6],
+		["a = \"\\uD800\"", "Invalid unicode escape sequence", 1, 6],
+		["a = \"\u0001\"", "Control character in string", 1, 6],
+		["# \u0000", "Control character in comment", 1, 3],
+		["a = {b = 1,}", "Unexpected character '}', expected a key", 1, 12],
+		["a = {b = 1\n}", "Unexpected end of line, expected '}'", 1, 11],
+		["a = [1 2]", "Unexpected character '2', expected ']'", 1, 8],
+		["a = 01", "Invalid value", 1, 5],
+		["a = 1__0", "Invalid value", 1, 5],
+		["a = yes", "Invalid value", 1, 5],
+		["a = 2023-02-29", "Invalid value", 1, 5],
+		["a = 24:00:00", "Invalid value", 1, 5],
+		["a = 9007199254740993", "Integer cannot be represented exactly", 1, 5],
+	])("Text %j gives error '%s' at %i:%i", (text, detail, line, column) => {
+		const error: ConfigSyntaxError = getSyntaxError(text);
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(detail);
+		expect(error.position).toEqual({line, column});
+		expect(error.source).toBe("test.toml");
+		expect(error.message).toBe(`test.toml:${line}:${column} ${detail}`);
+	});
+
+	test("Rejects nesting deeper than the maximum depth", () => {
+		const error: ConfigSyntaxError =
+			getSyntaxError(`a = ${"[".repeat(5000)}${"]".repeat(5000)}`);
+
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(`Nesting is deeper than ${MAX_NESTING_DEPTH} levels`);
+		expect(error.position).toEqual({line: 1, column: MAX_NESTING_DEPTH + 5});
+	});
+});
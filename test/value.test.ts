@@ -0,0 +1,62 @@
+import {
+	copyValue,
+	getOwnValue,
+	hasOwnKey,
+	isExtensibleValue,
+	isObject,
+	setProperty
+} from "../src/value";
+
+describe("Inspecting values", () => {
+	test.each<[unknown, boolean]>([
+		[{}, true],
+		[Object.create(null), true],
+		[[], false],
+		[null, false],
+		["text", false],
+	])("%j is an object: %s", (value, expected) => {
+		expect(isObject(value)).toBe(expected);
+	});
+
+	test.each<[unknown, boolean]>([
+		[{a: [1]}, true],
+		[Object.freeze({a: [1]}), false],
+		[{a: Object.freeze([1])}, false],
+		[{a: Object.seal({})}, false],
+		["text", true],
+	])("%j is extensible: %s", (value, expected) => {
+		expect(isExtensibleValue(value)).toBe(expected);
+	});
+
+	test("Only own properties are found", () => {
+		expect(getOwnValue({a: 1}, "a")).toBe(1);
+		expect(getOwnValue({}, "constructor")).toBeUndefined();
+		expect(hasOwnKey({a: undefined}, "a")).toBe(true);
+		expect(hasOwnKey({}, "constructor")).toBe(false);
+	});
+});
+
+describe("Building values", () => {
+	test("A __proto__ key does not change the prototype", () => {
+		const object: object = {};
+		setProperty(object, "__proto__", {polluted: true});
+
+		expect(Object.getPrototypeOf(object)).toBe(Object.prototype);
+		expect(Object.keys(object)).toEqual(["__proto__"]);
+	});
+
+	test("Copies objects and arrays deeply", () => {
+		const value = {a: [{b: 1}], c: {d: "x"}};
+		const copy = copyValue(value) as typeof value;
+
+		expect(copy).toEqual(value);
+		expect(copy.a).not.toBe(value.a);
+		expect(copy.a[0]).not.toBe(value.a[0]);
+		expect(copy.c).not.toBe(value.c);
+	});
+
+	test("Does not copy class instances", () => {
+		const date: Date = new Date();
+		expect((copyValue({date}) as {date: Date}).date).toBe(date);
+	});
+});
@@ -0,0 +1,134 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { ConfigElementBuilder, Infer } from "../src/elements";
+import { ConfigParseFailureError } from "../src/parser";
+import { ConfigWatcher } from "../src/watcher";
+
+const root = new ConfigElementBuilder().ofTypeObject().withChildElements(
+	new ConfigElementBuilder().ofTypeString().withName("name").build(),
+	new ConfigElementBuilder().ofTypeObject().withName("db").withChildElements(
+		new ConfigElementBuilder().ofTypeNumber().withName("port").withMaxValue(65535)
+			.build()
+	).build()
+).build();
+
+type Config = Infer<typeof root>;
+
+function waitFor<T extends unknown[]>(watcher: ConfigWatcher, event: string): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const timeout = setTimeout(() => reject(new Error(`No ${event} event`)), 2000);
+		watcher.once(event, (...args: unknown[]) => {
+			clearTimeout(timeout);
+			resolve(args as T);
+		});
+	});
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe("Watching a configuration file", () => {
+	let dir: string;
+	let file: string;
+	let dbFile: string;
+	let watcher: ConfigWatcher<typeof root>;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-watcher-"));
+		file = path.join(dir, "app.json");
+		dbFile = path.join(dir, "db.yaml");
+		fs.writeFileSync(file, "{\"name\": \"app\", \"db\": {\"$include\": \"db.yaml\"}}");
+		fs.writeFileSync(dbFile, "port: 5432\n");
+		watcher = new ConfigWatcher(root, file, {debounce: 20});
+	});
+
+	afterEach(() => {
+		watcher.close();
+		fs.rmSync(dir, {recursive: true});
+	});
+
+	test("Reads the configuration when started", () => {
+		expect(watcher.getConfig()).toBeUndefined();
+		expect(watcher.start()).toEqual({name: "app", db: {port: 5432}});
+		expect(watcher.getConfig()).toEqual({name: "app", db: {port: 5432}});
+	});
+
+	test("Emits the new and previous configuration after a change", async () => {
+		watcher.start();
+		const change = waitFor<[Config, Config]>(watcher, "change");
+
+		fs.writeFileSync(file, "{\"name\": \"new\", \"db\": {\"$include\": \"db.yaml\"}}");
+
+		const [config, previous] = await change;
+		expect(config).toEqual({name: "new", db: {port: 5432}});
+		expect(previous).toEqual({name: "app", db: {port: 5432}});
+		expect(watcher.getConfig()).toBe(config);
+	});
+
+	test("Reloads after a change of an included file", async () => {
+		watcher.start();
+		const change = waitFor<[Config, Config]>(watcher, "change");
+
+		fs.writeFileSync(dbFile, "port: 5433\n");
+
+		const [config] = await change;
+		expect(config.db.port).toBe(5433);
+	});
+
+	test("Keeps the last valid configuration after an invalid change", async () => {
+		watcher.start();
+		const error = waitFor<[ConfigParseFailureError]>(watcher, "error");
+
+		fs.writeFileSync(dbFile, "port: 70000\n");
+
+		const [err] = await error;
+		expect(err).toBeInstanceOf(ConfigParseFailureError);
+		expect(err.errors.map(e => e.path)).toEqual(["$.db.port"]);
+		expect(err.errors[0].source).toBe(dbFile);
+		expect(watcher.getConfig()).toEqual({name: "app", db: {port: 5432}});
+
+		const change = waitFor<[Config, Config]>(watcher, "change");
+		fs.writeFileSync(dbFile, "port: 5434\n");
+		expect((await change)[0].db.port).toBe(5434);
+	});
+
+	test("Reloads once after a burst of changes", async () => {
+		watcher.start();
+		const listener = jest.fn();
+		watcher.on("change", listener);
+
+		for (let port = 1; port <= 5; port++) fs.writeFileSync(dbFile, `port: ${port}\n`);
+		await sleep(200);
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(watcher.getConfig().db.port).toBe(5);
+	});
+
+	test("Does not emit a change in case the configuration is the same", () => {
+		watcher.start();
+		const listener = jest.fn();
+		watcher.on("change", listener);
+
+		fs.writeFileSync(dbFile, "port:   5432\n");
+		watcher.reload();
+
+		expect(listener).not.toHaveBeenCalled();
+	});
+
+	test("Reads the file with the format of the parser", () => {
+		fs.writeFileSync(file, "{\"name\": \"app\", // Comment\n\"db\": {\"port\": 1}}");
+		watcher = new ConfigWatcher(root, file, {format: "jsonc"});
+
+		expect(watcher.start()).toEqual({name: "app", db: {port: 1}});
+	});
+
+	test("Throws in case the file is invalid when started", () => {
+		fs.writeFileSync(dbFile, "port: x\n");
+
+		expect(() => watcher.start()).toThrow(ConfigParseFailureError);
+		expect(watcher.getConfig()).toBeUndefined();
+	});
+});
@@ -0,0 +1,317 @@
+import { ConfigSyntaxError, MAX_NESTING_DEPTH, SourceDocument } from "../src/reader";
+import { YamlReader } from "../src/yaml";
+
+const reader: YamlReader = new YamlReader();
+
+function read(lines: string[]): unknown {
+	return reader.read(lines.join("\n")).value;
+}
+
+function getSyntaxError(text: string): ConfigSyntaxError {
+	try {
+		reader.read(text, "test.yaml");
+	}
+	catch (err) {
+		return err as ConfigSyntaxError;
+	}
+	throw new Error("Expected a syntax error");
+}
+
+describe("Reading block collections", () => {
+	test("Reads a Kubernetes style document", () => {
+		expect(read([
+			"apiVersion: apps/v1",
+			"kind: Deployment",
+			"metadata:",
+			"  name: web  # The name",
+			"spec:",
+			"  replicas: 3",
+			"  containers:",
+			"  - name: web",
+			"    image: \"nginx:1.25\"",
+			"    ports:",
+			"      - containerPort: 80",
+			"        protocol: TCP",
+			"  - name: sidecar",
+			"    env:",
+		])).toEqual({
+			apiVersion: "apps/v1",
+			kind: "Deployment",
+			metadata: {name: "web"},
+			spec: {
+				replicas: 3,
+				containers: [
+					{
+						name: "web",
+						image: "nginx:1.25",
+						ports: [{containerPort: 80, protocol: "TCP"}]
+					},
+					{name: "sidecar", env: null}
+				]
+			}
+		});
+	});
+
+	test("Reads nested and empty sequence entries", () => {
+		expect(read(["- a", "- - b", "  - c", "-", "- key: v", "  other: w"])).toEqual(
+			["a", ["b", "c"], null, {key: "v", other: "w"}]
+		);
+	});
+
+	test("Reads quoted keys and keys with spaces", () => {
+		expect(read(["\"quoted key\": 1", "'single': 2", "with space: 3"])).toEqual(
+			{"quoted key": 1, single: 2, "with space": 3}
+		);
+	});
+
+	test("Reads a document with markers, directives and comments", () => {
+		expect(read(["%YAML 1.2", "--- # Start", "a: 1", "...", "# End"])).toEqual({a: 1});
+	});
+
+	test.each<string>(["", "# Only a comment", "---"])("Reads %j as null", (text) => {
+		expect(reader.read(text).value).toBeNull();
+	});
+
+	test("Reads Windows line endings", () => {
+		expect(reader.read("a:\r\n  b: 1\r\n  c: |\r\n    x\r\n").value).toEqual(
+			{a: {b: 1, c: "x\n"}}
+		);
+	});
+
+	test("A __proto__ key does not change the prototype", () => {
+		const value = read(["__proto__:", "  x: 1"]) as object;
+		expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+		expect(Object.keys(value)).toEqual(["__proto__"]);
+	});
+});
+
+describe("Reading flow collections", () => {
+	test("Reads nested flow collections", () => {
+		expect(read(["a: {b: [1, {c: d}], 'e': \"f\", g}"])).toEqual(
+			{a: {b: [1, {c: "d"}], e: "f", g: null}}
+		);
+	});
+
+	test("Reads flow collections over multiple lines with trailing commas", () => {
+		expect(read(["args: [", "  --port,", "  8080,  # Comment", "]"])).toEqual(
+			{args: ["--port", 8080]}
+		);
+	});
+
+	test("Reads JSON", () => {
+		expect(read(["{\"a\":1, \"b\":[true, null, \"x\"]}"])).toEqual(
+			{a: 1, b: [true, null, "x"]}
+		);
+	});
+});
+
+describe("Reading scalars", () => {
+	test.each<[string, unknown]>([
+		["~", null],
+		["null", null],
+		["NULL", null],
+		["true", true],
+		["False", false],
+		["yes", "yes"],
+		["on", "on"],
+		["42", 42],
+		["-17", -17],
+		["+12", 12],
+		["0o17", 15],
+		["0x1F", 31],
+		["1.5", 1.5],
+		["1e3", 1000],
+		[".5", 0.5],
+		[".inf", Infinity],
+		["-.Inf", -Infinity],
+		[".nan", NaN],
+		["1.2.3", "1.2.3"],
+		["http://example.com:8080/x", "http://example.com:8080/x"],
+		["x#y", "x#y"],
+		["'42'", "42"],
+		["\"true\"", "true"],
+		["!!str 42", "42"],
+		["!!int \"42\"", 42],
+		["!!float 1", 1],
+		["!!bool 'true'", true],
+		["!!null ''", null],
+		["!!str", ""],
+	])("Value %s gives %p", (text, value) => {
+		expect(read([`x: ${text}`])).toEqual({x: value});
+	});
+
+	test("Folds multi-line plain scalars", () => {
+		expect(read(["a: this is", "  a multi", "", "  line scalar", "b: c"])).toEqual(
+			{a: "this is a multi\nline scalar", b: "c"}
+		);
+	});
+
+	test("Reads single quoted scalars", () => {
+		expect(read(["a: 'it''s", "  folded  ", "", "  # not a comment'"])).toEqual(
+			{a: "it's folded\n# not a comment"}
+		);
+	});
+
+	test("Reads double quoted scalars with escapes", () => {
+		expect(read(["a: \"tab\\tnew\\nquote\\\" \\u00e9\\x41\\U0001F600 \\", "  end\""]))
+			.toEqual({a: "tab\tnew\nquote\" \u00e9A\u{1F600} end"});
+	});
+
+	test("Reads literal block scalars", () => {
+		const lines: string[] = [
+			"a: |", "  line 1", "   indented", "", "  line 3", "", "b: c"
+		];
+		expect(read(lines)).toEqual({a: "line 1\n indented\n\nline 3\n", b: "c"});
+	});
+
+	test("Reads folded block scalars", () => {
+		expect(read(["a: >", "  some", "  folded", "", "  text", "    more", "  end"]))
+			.toEqual({a: "some folded\ntext\n  more\nend\n"});
+	});
+
+	test.each<[string, string]>([
+		["|-", "text"],
+		["|", "text\n"],
+		["|+", "text\n\n"],
+		[">-", "text"],
+	])("Applies chomping indicator %s", (header, value) => {
+		expect(read([`a: ${header}`, "  text", "", "b: c"])).toEqual({a: value, b: "c"});
+	});
+
+	test("Applies the indentation indicator", () => {
+		expect(read(["a: |2", "    indented", "  text"])).toEqual(
+			{a: "  indented\ntext\n"}
+		);
+	});
+
+	test("Reads a top level block scalar", () => {
+		expect(read(["--- |", "  top level"])).toBe("top level\n");
+	});
+});
+
+describe("Reading anchors and aliases", () => {
+	test("An alias gives a copy of the anchored value", () => {
+		const value = read(["a: &x", "  b: [1, 2]", "c: *x"]) as {a: object, c: object};
+		expect(value).toEqual({a: {b: [1, 2]}, c: {b: [1, 2]}});
+		expect(value.c).not.toBe(value.a);
+	});
+
+	test("Anchors can be redefined", () => {
+		expect(read(["- &x 1", "- *x", "- &x 2", "- *x"])).toEqual([1, 1, 2, 2]);
+	});
+
+	test("Merge keys add the keys of other mappings", () => {
+		expect(read([
+			"defaults: &defaults",
+			"  adapter: postgres",
+			"  host: localhost",
+			"extra: &extra {host: remote, pool: 5}",
+			"dev:",
+			"  <<: [*defaults, *extra]",
+			"  host: dev",
+		])).toEqual({
+			defaults: {adapter: "postgres", host: "localhost"},
+			extra: {host: "remote", pool: 5},
+			dev: {adapter: "postgres", host: "dev", pool: 5}
+		});
+	});
+
+	test("A quoted << key is a normal key", () => {
+		expect(read(["'<<': {a: 1}"])).toEqual({"<<": {a: 1}});
+	});
+
+	test("Aliases cannot create too many values", () => {
+		const lines: string[] = ["a: &a [1, 1, 1, 1, 1, 1, 1, 1, 1, 1]"];
+		for (let i = 0; i < 6; i++) {
+			const previous: string = String.fromCharCode(97 + i);
+			const next: string = String.fromCharCode(98 + i);
+			const aliases: string = Array(10).fill(`*${previous}`).join(", ");
+			lines.push(`${next}: &${next} [${aliases}]`);
+		}
+		expect(() => read(lines)).toThrow("Too many values created by aliases");
+	});
+});
+
+describe("Positions of keys and values", () => {
+	const text: string = [
+		"name: x",
+		"books:",
+		"  - year: 2023",
+		"    title: 'Some title'",
+		"  - [true, {a: 1}]",
+		"empty:",
+	].join("\n");
+	let document: SourceDocument;
+
+	beforeAll(() => {
+		document = reader.read(text, "books.yaml");
+	});
+
+	test("Records the source", () => {
+		expect(document.source).toBe("books.yaml");
+	});
+
+	test("Records the position of every value", () => {
+		expect(document.positions.get("$")).toEqual({line: 1, column: 1});
+		expect(document.positions.get("$.name")).toEqual({line: 1, column: 7});
+		expect(document.positions.get("$.books")).toEqual({line: 3, column: 3});
+		expect(document.positions.get("$.books[0]")).toEqual({line: 3, column: 5});
+		expect(document.positions.get("$.books[0].year")).toEqual({line: 3, column: 11});
+		expect(document.positions.get("$.books[0].title")).toEqual({line: 4, column: 12});
+		expect(document.positions.get("$.books[1][1].a")).toEqual({line: 5, column: 16});
+		expect(document.positions.get("$.empty")).toEqual({line: 6, column: 7});
+	});
+
+	test("Records the position of every key", () => {
+		expect(document.keyPositions.get("$.name")).toEqual({line: 1, column: 1});
+		expect(document.keyPositions.get("$.books[0].title")).toEqual({line: 4, column: 5});
+		expect(document.keyPositions.get("$.books[1][1].a")).toEqual({line: 5, column: 13});
+	});
+});
+
+describe("Reading invalid YAML", () => {
+	test.each<[string, string, number, number]>([
+		["a: 1\n  b: 2", "Mapping values are not allowed in multi-line scalars", 2, 4],
+		["a: b: c", "Mapping values are not allowed here", 1, 5],
+		["a: - b", "Block sequence entries are not allowed here", 1, 4],
+		["a:\n  b: 1\n c: 2", "Bad indentation of a mapping entry", 3, 2],
+		["- [a]\n  - b", "Bad indentation of a sequence entry", 2, 3],
+		["a: 1\n- b", "Unexpected character '-', expected a mapping key", 2, 1],
+		["a: 1\na: 2", "Duplicate key a", 2, 1],
+		["a: *b", "Unknown alias *b", 1, 4],
+		["a: 'abc", "Unterminated string", 1, 4],
+		["a: \"\\q\"", "Invalid escape sequence", 1, 5],
+		["a: [1, 2", "Unexpected end of input, expected ']'", 1, 9],
+		["a: [1, 2}", "Unexpected character '}', expected ']'", 1, 9],
+		["\ta: 1", "Tab character in indentation", 1, 1],
+		["a: !foo b", "Unsupported tag !foo", 1, 4],
+		["a: !!int b", "A scalar cannot be tagged !!int", 1, 4],
+		["a: !!seq {}", "A mapping cannot be tagged !!seq", 1, 4],
+		["? a\n: b", "Complex mapping keys are not supported", 1, 1],
+		["[a]: b", "Only scalars are supported as mapping keys", 1, 4],
+		["a: 1\n---\nb: 2", "Multiple documents are not supported", 2, 1],
+		["%YAML 1.2\na: 1", "Expected '---' after directives", 2, 1],
+		["a: |x", "Unexpected character 'x' in block scalar header", 1, 5],
+		["a: 'b' c", "Unexpected character 'c'", 1, 8],
+		["<<: 1", "A merge key must have a mapping or a list of mappings", 1, 6],
+	])("Text %j gives error '%s' at %i:%i", (text, detail, line, column) => {
+		const error: ConfigSyntaxError = getSyntaxError(text);
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(detail);
+		expect(error.position).toEqual({line, column});
+		expect(error.source).toBe("test.yaml");
+		expect(error.message).toBe(`test.yaml:${line}:${column} ${detail}`);
+	});
+
+	test.each<[string, string]>([
+		["flow", "[".repeat(5000) + "]".repeat(5000)],
+		["block", Array.from(
+			{length: MAX_NESTING_DEPTH + 1}, (_, i) => `${" ".repeat(i)}a:`
+		).join("\n")],
+	])("Rejects %s nesting deeper than the maximum depth", (kind, text) => {
+		const error: ConfigSyntaxError = getSyntaxError(text);
+
+		expect(error).toBeInstanceOf(ConfigSyntaxError);
+		expect(error.detail).toBe(`Nesting is deeper than ${MAX_NESTING_DEPTH} levels`);
+	});
+});